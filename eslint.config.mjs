@@ -30,6 +30,7 @@ export default [
         fetch: 'readonly',
         AbortController: 'readonly',
         FormData: 'readonly',
+        Blob: 'readonly',
         Headers: 'readonly',
         Request: 'readonly',
         Response: 'readonly',
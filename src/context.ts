@@ -1,7 +1,23 @@
 import { Request, Response } from 'express';
-import jwt from 'jsonwebtoken';
 import { randomUUID } from 'crypto';
-import { serviceRegistry, HttpClient, ServiceKind } from './services';
+import {
+  serviceRegistry,
+  HttpClient,
+  ServiceKind,
+  verifyAccessToken,
+  assertCurrentPermissionVersion,
+  touchSession,
+  getRequestMetadata,
+  AccessTokenClaims,
+  resolveApiKey,
+  readSessionCookies,
+  loadContextUser,
+  getUserRepository,
+  getAccountStatusDenial,
+  getImpersonationDenial,
+  recordActivity,
+  UserPreferences,
+} from './services';
 
 export interface User {
   id: string;
@@ -13,6 +29,14 @@ export interface User {
     label: string;
     permissions: string[];
   };
+  /** False until the user confirms their email address (pending accounts) */
+  emailVerified?: boolean;
+  /** True when the password is older than PASSWORD_MAX_AGE_DAYS and must be changed */
+  passwordExpired?: boolean;
+  /** Version of the user's role assignment, changes when the role is reassigned */
+  permissionVersion: number;
+  /** Stored preferences merged with the defaults (locale, timezone, notification channels) */
+  preferences: UserPreferences;
 }
 
 export interface ServiceClients {
@@ -26,12 +50,27 @@ export interface ServiceClients {
   getDefault(): HttpClient;
 }
 
+/**
+ * How the request was authenticated
+ */
+export type AuthMethod = 'bearer' | 'cookie' | 'apiKey';
+
 export interface Context {
   req: Request;
   res: Response;
+  /** Effective user (the impersonated user while impersonating) */
   user: User | null;
+  /** Admin acting as user, when the token is an impersonation token (act claim) */
+  actor: User | null;
   /** Raw JWT token from request (for forwarding to backend services) */
   token: string | null;
+  /** Verified claims of the access token (jti, sid, iat, exp) */
+  claims: AccessTokenClaims | null;
+  /** ID of the API key used to authenticate, if any (X-Api-Key header) */
+  apiKeyId: string | null;
+  authMethod: AuthMethod | null;
+  /** Why a valid token was refused (suspended or inactive account); protected procedures report it */
+  accountDenial: string | null;
   /** Unique trace ID for request tracking */
   traceId: string;
   /** Backend service clients */
@@ -40,20 +79,71 @@ export interface Context {
 
 /**
  * Create context for tRPC requests
- * Extracts and verifies JWT token from Authorization header
+ * Extracts and verifies JWT token from Authorization header, rejecting revoked tokens,
+ * tokens issued before a role reassignment and tokens of suspended or inactive users
+ * Machine clients may authenticate with an API key in the X-Api-Key header instead,
+ * and browsers in cookie session mode with the access token cookie
  */
 export async function createContext({ req, res }: { req: Request; res: Response }): Promise<Context> {
-  const token = req.headers.authorization?.split(' ')[1] ?? null;
+  const bearerToken = req.headers.authorization?.split(' ')[1] ?? null;
+  const apiKey = req.headers['x-api-key'];
+  const token =
+    bearerToken ?? (typeof apiKey === 'string' ? null : (readSessionCookies(req).accessToken ?? null));
   let user: User | null = null;
+  let actor: User | null = null;
+  let claims: AccessTokenClaims | null = null;
+  let apiKeyId: string | null = null;
+  let authMethod: AuthMethod | null = null;
+  let accountDenial: string | null = null;
 
   if (token) {
     try {
-      const decoded = jwt.verify(token, process.env.JWT_SECRET || 'default-secret-key') as User;
-      user = decoded;
+      claims = await verifyAccessToken(token);
+      // Tokens only identify the user; name, role and permissions are resolved live
+      const current = await loadContextUser(claims.id);
+      if (current) {
+        assertCurrentPermissionVersion(claims, current);
+      }
+      user = current;
+      if (!user) {
+        const record = await getUserRepository().findById(claims.id);
+        accountDenial = record ? getAccountStatusDenial(record) : null;
+      }
+
+      if (user && claims.act) {
+        // The admin must still exist and still be allowed to impersonate this user
+        actor = await loadContextUser(claims.act.sub);
+        const denial = actor ? getImpersonationDenial(actor, user) : 'Actor no longer exists';
+        if (denial) {
+          await recordActivity({
+            user: actor?.name ?? claims.act.sub,
+            userId: claims.act.sub,
+            action: 'Impersonation Rejected',
+            target: `${user.email} (${denial})`,
+          });
+          user = null;
+          actor = null;
+        }
+      }
+
+      authMethod = user ? (bearerToken ? 'bearer' : 'cookie') : null;
+
+      if (claims.sid) {
+        await touchSession(claims.sid, getRequestMetadata(req).ip);
+      }
     } catch (error) {
-      // Token invalid or expired - user remains null
+      // Token invalid, expired or revoked - user remains null
       console.warn('Invalid token:', error);
     }
+  } else if (typeof apiKey === 'string') {
+    const resolved = await resolveApiKey(apiKey);
+    if (resolved) {
+      user = resolved.user;
+      apiKeyId = resolved.record.id;
+      authMethod = 'apiKey';
+    } else {
+      console.warn('Invalid API key');
+    }
   }
 
   // Get or generate trace ID
@@ -86,7 +176,12 @@ export async function createContext({ req, res }: { req: Request; res: Response
     req,
     res,
     user,
+    actor,
     token,
+    claims,
+    apiKeyId,
+    authMethod,
+    accountDenial,
     traceId,
     services,
   };
@@ -1,5 +1,13 @@
 import dotenv from 'dotenv';
 import { createServer } from './server';
+import {
+  ensureBootstrapAdmin,
+  getOidcConfig,
+  purgeDeletedUsers,
+  reactivateDueUsers,
+  removeExpiredInvitees,
+  signingKeys,
+} from './services';
 
 // Load environment variables
 dotenv.config();
@@ -13,6 +21,75 @@ const HOST = process.env.HOST || '0.0.0.0';
 async function main() {
   const { app, logger } = createServer();
 
+  // Load the signing keys now so a key configuration error stops the start
+  signingKeys.getActiveKey();
+  // Same for the SSO settings, e.g. an invalid OIDC_ROLE_MAPPING
+  getOidcConfig();
+
+  // Seed the first admin account so a fresh deployment can be logged into
+  const admin = await ensureBootstrapAdmin();
+  if (admin) {
+    logger.info(`Bootstrap admin account: ${admin.email}`);
+  }
+
+  // Periodically rotate the JWT signing key; the previous key stays in the JWKS for a grace period
+  // Off by default and single-instance only: rotated keys exist only in this process, so other
+  // instances would neither accept its tokens nor publish the key. A shared JWT_PRIVATE_KEY is
+  // rotated through configuration instead (with JWT_PREVIOUS_PUBLIC_KEY).
+  const rotationIntervalSeconds = Number(process.env.JWT_KEY_ROTATION_INTERVAL_SECONDS ?? 0);
+  if (rotationIntervalSeconds > 0 && process.env.JWT_PRIVATE_KEY) {
+    logger.warn(
+      'JWT_KEY_ROTATION_INTERVAL_SECONDS is ignored because JWT_PRIVATE_KEY is set; ' +
+        'rotate the configured key instead'
+    );
+  } else if (rotationIntervalSeconds > 0) {
+    setInterval(() => {
+      const key = signingKeys.rotate();
+      logger.info(`Rotated JWT signing key, new kid: ${key.kid}`);
+    }, rotationIntervalSeconds * 1000).unref();
+  }
+
+  // Anonymize deleted users once their retention period (USER_RETENTION_DAYS) has passed
+  const purgeIntervalSeconds = Number(process.env.USER_PURGE_INTERVAL_SECONDS ?? 3600);
+  if (purgeIntervalSeconds > 0) {
+    const purge = () =>
+      purgeDeletedUsers()
+        .then((count) => {
+          if (count > 0) logger.info(`Purged ${count} deleted user(s)`);
+        })
+        .catch((err) => logger.error({ err }, 'Failed to purge deleted users'));
+    purge();
+    setInterval(purge, purgeIntervalSeconds * 1000).unref();
+  }
+
+  // Set suspended or inactive users active again once their scheduled reactivation passes
+  const reactivationIntervalSeconds = Number(process.env.USER_REACTIVATION_INTERVAL_SECONDS ?? 60);
+  if (reactivationIntervalSeconds > 0) {
+    const reactivate = () =>
+      reactivateDueUsers()
+        .then((count) => {
+          if (count > 0) logger.info(`Reactivated ${count} user(s)`);
+        })
+        .catch((err) => logger.error({ err }, 'Failed to reactivate users'));
+    reactivate();
+    setInterval(reactivate, reactivationIntervalSeconds * 1000).unref();
+  }
+
+  // Remove the placeholder users of invitations that expired without being accepted
+  const inviteeCleanupIntervalSeconds = Number(
+    process.env.INVITATION_CLEANUP_INTERVAL_SECONDS ?? 3600
+  );
+  if (inviteeCleanupIntervalSeconds > 0) {
+    const cleanUp = () =>
+      removeExpiredInvitees()
+        .then((count) => {
+          if (count > 0) logger.info(`Removed ${count} expired invitee(s)`);
+        })
+        .catch((err) => logger.error({ err }, 'Failed to remove expired invitees'));
+    cleanUp();
+    setInterval(cleanUp, inviteeCleanupIntervalSeconds * 1000).unref();
+  }
+
   app.listen(Number(PORT), HOST, () => {
     logger.info(`
 ╔═══════════════════════════════════════════════════════════╗
@@ -1,7 +1,6 @@
 import { TRPCError } from '@trpc/server';
-import jwt from 'jsonwebtoken';
 import { middleware } from '../trpc';
-import { User } from '../context';
+import { verifyAccessToken, loadContextUser, assertCurrentPermissionVersion } from '../services';
 
 /**
  * Authentication middleware
@@ -18,11 +17,16 @@ export const isAuthenticated = middleware(async ({ ctx, next }) => {
   }
 
   try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'default-secret-key') as User;
+    const decoded = await verifyAccessToken(token);
+    const user = await loadContextUser(decoded.id);
+    if (!user) {
+      throw new Error('User no longer exists');
+    }
+    assertCurrentPermissionVersion(decoded, user);
     return next({
       ctx: {
         ...ctx,
-        user: decoded,
+        user,
       },
     });
   } catch (_error) {
@@ -0,0 +1,603 @@
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'crypto';
+import { once } from 'events';
+import type { AddressInfo } from 'net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createServer } from '../server';
+import {
+  activityLogStore,
+  getUserRepository,
+  getWebAuthnConfig,
+  MailMessage,
+  passkeyStore,
+  setMailTransport,
+} from '../services';
+import { generateTotp, getTotpStep } from '../services/totp';
+import {
+  createBearerCaller,
+  createTestCaller,
+  createTestUser,
+  loginAs,
+  TEST_PASSWORD,
+} from '../test/helpers';
+
+describe('auth.refreshToken', () => {
+  it('rotates the refresh token on every use', async () => {
+    const user = await createTestUser({ name: 'Rotating User' });
+    const { refreshToken } = await loginAs(user.email);
+    const caller = await createTestCaller();
+
+    const first = await caller.auth.refreshToken({ refreshToken });
+    if (!('token' in first.data)) throw new Error('expected tokens in the response');
+    expect(first.data.refreshToken).not.toBe(refreshToken);
+
+    const second = await caller.auth.refreshToken({ refreshToken: first.data.refreshToken });
+    expect(second.code).toBe(200);
+
+    const me = await (await createBearerCaller(first.data.token)).auth.getCurrentUser();
+    expect(me.data.id).toBe(user.id);
+  });
+
+  it('revokes the whole family when a rotated token is presented again', async () => {
+    const user = await createTestUser({ name: 'Reuse Victim' });
+    const { token, refreshToken } = await loginAs(user.email);
+    const caller = await createTestCaller();
+
+    const rotated = await caller.auth.refreshToken({ refreshToken });
+    if (!('token' in rotated.data)) throw new Error('expected tokens in the response');
+
+    await expect(caller.auth.refreshToken({ refreshToken })).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+      message: 'Refresh token reuse detected, please log in again',
+    });
+
+    // The attacker's (or victim's) successor token and the session's access tokens are dead too
+    await expect(
+      caller.auth.refreshToken({ refreshToken: rotated.data.refreshToken })
+    ).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    for (const accessToken of [token, rotated.data.token]) {
+      await expect(
+        (await createBearerCaller(accessToken)).auth.getCurrentUser()
+      ).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    }
+  });
+
+  it('rejects unknown refresh tokens', async () => {
+    const caller = await createTestCaller();
+    await expect(caller.auth.refreshToken({ refreshToken: 'not-a-token' })).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+      message: 'Invalid refresh token',
+    });
+  });
+});
+
+describe('client IP behind a reverse proxy', () => {
+  afterEach(() => {
+    delete process.env.TRUST_PROXY;
+  });
+
+  /**
+   * Log in over HTTP through a "proxy" that reports the client as 203.0.113.7
+   * and return the IP recorded on the new session
+   */
+  async function loginThroughProxy(email: string) {
+    process.env.LOG_LEVEL = 'silent';
+    const server = createServer().app.listen(0, '127.0.0.1');
+    await once(server, 'listening');
+
+    try {
+      const response = await fetch(
+        `http://127.0.0.1:${(server.address() as AddressInfo).port}/trpc/auth.login`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': '203.0.113.7' },
+          body: JSON.stringify({ json: { email, password: TEST_PASSWORD } }),
+        }
+      );
+      const body = (await response.json()) as {
+        result: { data: { json: { data: { token: string } } } };
+      };
+      const caller = await createBearerCaller(body.result.data.json.data.token);
+      const { data: sessions } = await caller.auth.listSessions();
+      return sessions.find((session) => session.current)?.ip;
+    } finally {
+      server.close();
+    }
+  }
+
+  it('uses the forwarded client address only when TRUST_PROXY is set', async () => {
+    const user = await createTestUser({ name: 'Proxied User' });
+
+    expect(await loginThroughProxy(user.email)).toBe('127.0.0.1');
+
+    process.env.TRUST_PROXY = '1';
+    expect(await loginThroughProxy(user.email)).toBe('203.0.113.7');
+  });
+});
+
+describe('token revocation', () => {
+  it('logout revokes the access token and its refresh token', async () => {
+    const user = await createTestUser({ name: 'Logout User' });
+    const { token, refreshToken } = await loginAs(user.email);
+
+    await (await createBearerCaller(token)).auth.logout({ refreshToken });
+
+    await expect((await createBearerCaller(token)).auth.getCurrentUser()).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+    });
+    await expect(
+      (await createTestCaller()).auth.refreshToken({ refreshToken })
+    ).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+
+  it('changing the password signs out every session', async () => {
+    const user = await createTestUser({ name: 'Password Changer' });
+    const laptop = await loginAs(user.email);
+    const phone = await loginAs(user.email);
+
+    await (
+      await createBearerCaller(laptop.token)
+    ).auth.changePassword({
+      currentPassword: TEST_PASSWORD,
+      newPassword: 'Another5678',
+    });
+
+    for (const session of [laptop, phone]) {
+      await expect(
+        (await createBearerCaller(session.token)).auth.getCurrentUser()
+      ).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+      await expect(
+        (await createTestCaller()).auth.refreshToken({ refreshToken: session.refreshToken })
+      ).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    }
+  });
+
+  it('revokeAllForUser is admin only and ends the target user sessions', async () => {
+    const admin = await createTestUser({ name: 'Revoking Admin', roleId: 'role-admin' });
+    const user = await createTestUser({ name: 'Revoked User' });
+    const session = await loginAs(user.email);
+
+    await expect(
+      (await createBearerCaller(session.token)).auth.revokeAllForUser({ userId: admin.id })
+    ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    const adminSession = await loginAs(admin.email);
+    await (
+      await createBearerCaller(adminSession.token)
+    ).auth.revokeAllForUser({
+      userId: user.id,
+    });
+
+    await expect(
+      (await createBearerCaller(session.token)).auth.getCurrentUser()
+    ).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+});
+
+describe('sessions', () => {
+  const CHROME_ON_MAC =
+    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) ' +
+    'Chrome/126.0.0.0 Safari/537.36';
+
+  /**
+   * Log in from a device with the given user agent
+   */
+  async function loginFrom(email: string, userAgent: string) {
+    const caller = await createTestCaller({ 'user-agent': userAgent });
+    const { data } = await caller.auth.login({ email, password: TEST_PASSWORD });
+    if (!('token' in data)) throw new Error('Expected tokens');
+    return { token: data.token, refreshToken: data.refreshToken };
+  }
+
+  it('lists the devices a user is signed in on and marks the current one', async () => {
+    const user = await createTestUser({ name: 'Session Lister' });
+    const laptop = await loginFrom(user.email, CHROME_ON_MAC);
+    await loginAs(user.email);
+
+    const { data } = await (await createBearerCaller(laptop.token)).auth.listSessions();
+    expect(data).toHaveLength(2);
+    expect(data).toContainEqual(
+      expect.objectContaining({ device: 'Chrome on macOS', ip: '127.0.0.1', current: true })
+    );
+    expect(data.filter((session) => session.current)).toHaveLength(1);
+  });
+
+  it('revokes one session, ending its tokens only', async () => {
+    const user = await createTestUser({ name: 'Single Revoker' });
+    const laptop = await loginAs(user.email);
+    const phone = await loginAs(user.email);
+    const { data: sessions } = await (await createBearerCaller(laptop.token)).auth.listSessions();
+    const phoneSession = sessions.find((session) => !session.current)!;
+
+    const { data } = await (
+      await createBearerCaller(laptop.token)
+    ).auth.revokeSession({ sessionId: phoneSession.id });
+    expect(data.revoked).toEqual([phoneSession.id]);
+
+    await expect(
+      (await createBearerCaller(phone.token)).auth.getCurrentUser()
+    ).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    await expect(
+      (await createTestCaller()).auth.refreshToken({ refreshToken: phone.refreshToken })
+    ).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    await expect(
+      (await createBearerCaller(laptop.token)).auth.getCurrentUser()
+    ).resolves.toHaveProperty('data.id', user.id);
+  });
+
+  it('revokes every other session with allOthers', async () => {
+    const user = await createTestUser({ name: 'Other Revoker' });
+    const current = await loginAs(user.email);
+    const others = [await loginAs(user.email), await loginAs(user.email)];
+
+    const { data } = await (
+      await createBearerCaller(current.token)
+    ).auth.revokeSession({ allOthers: true });
+    expect(data.revoked).toHaveLength(2);
+
+    for (const session of others) {
+      await expect(
+        (await createBearerCaller(session.token)).auth.getCurrentUser()
+      ).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    }
+    const { data: remaining } = await (await createBearerCaller(current.token)).auth.listSessions();
+    expect(remaining).toEqual([expect.objectContaining({ current: true })]);
+  });
+
+  it("refuses to revoke another user's session", async () => {
+    const owner = await createTestUser({ name: 'Session Owner' });
+    const other = await createTestUser({ name: 'Session Intruder' });
+    const ownerSession = await loginAs(owner.email);
+    const { data: sessions } = await (
+      await createBearerCaller(ownerSession.token)
+    ).auth.listSessions();
+
+    const intruder = await createBearerCaller((await loginAs(other.email)).token);
+    await expect(intruder.auth.revokeSession({ sessionId: sessions[0].id })).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+    });
+    await expect(
+      (await createBearerCaller(ownerSession.token)).auth.getCurrentUser()
+    ).resolves.toHaveProperty('data.id', owner.id);
+  });
+});
+
+describe('two-factor login', () => {
+  it('requires a fresh TOTP or an unused recovery code after the password', async () => {
+    const user = await createTestUser({ name: 'Totp User' });
+    const session = await createBearerCaller((await loginAs(user.email)).token);
+
+    const { secret } = (await session.auth.enrollTotp()).data;
+    const { recoveryCodes } = (
+      await session.auth.verifyTotp({ code: generateTotp(secret, getTotpStep() - 1) })
+    ).data;
+
+    const caller = await createTestCaller();
+    const login = () => caller.auth.login({ email: user.email, password: TEST_PASSWORD });
+    const challenge = async () => {
+      const { data } = await login();
+      if (!data.mfaRequired) throw new Error('expected an MFA challenge');
+      return data.challengeToken;
+    };
+
+    const challengeToken = await challenge();
+    await expect(
+      caller.auth.loginWithTotp({ challengeToken, code: '000000' })
+    ).rejects.toMatchObject({ code: 'UNAUTHORIZED', message: 'Invalid verification code' });
+
+    const code = generateTotp(secret);
+    const result = await caller.auth.loginWithTotp({ challengeToken, code });
+    expect(result.data).toMatchObject({ mfaRequired: false, user: { id: user.id } });
+
+    // The challenge is single use and the same code cannot be replayed
+    await expect(caller.auth.loginWithTotp({ challengeToken, code })).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+    });
+    await expect(
+      caller.auth.loginWithTotp({ challengeToken: await challenge(), code })
+    ).rejects.toMatchObject({ code: 'UNAUTHORIZED', message: 'Invalid verification code' });
+
+    // Recovery codes work once
+    const recoveryChallenge = await challenge();
+    await caller.auth.loginWithTotp({ challengeToken: recoveryChallenge, code: recoveryCodes[0] });
+    await expect(
+      caller.auth.loginWithTotp({ challengeToken: await challenge(), code: recoveryCodes[0] })
+    ).rejects.toMatchObject({ code: 'UNAUTHORIZED', message: 'Invalid verification code' });
+  });
+});
+
+describe('two-factor lockout', () => {
+  afterEach(() => {
+    delete process.env.LOGIN_MAX_FAILURES;
+  });
+
+  it('counts wrong codes towards the login lockout across fresh challenges', async () => {
+    process.env.LOGIN_MAX_FAILURES = '3';
+    const user = await createTestUser({ name: 'Totp Guessed' });
+    const session = await createBearerCaller((await loginAs(user.email)).token);
+    const { secret } = (await session.auth.enrollTotp()).data;
+    await session.auth.verifyTotp({ code: generateTotp(secret) });
+
+    // Knowing the password, each new challenge would otherwise give five more guesses
+    const caller = await createTestCaller();
+    for (let i = 0; i < 3; i++) {
+      const { data } = await caller.auth.login({ email: user.email, password: TEST_PASSWORD });
+      if (!data.mfaRequired) throw new Error('expected an MFA challenge');
+      await expect(
+        caller.auth.loginWithTotp({ challengeToken: data.challengeToken, code: '000000' })
+      ).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    }
+
+    await expect(
+      caller.auth.login({ email: user.email, password: TEST_PASSWORD })
+    ).rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+  });
+});
+
+/**
+ * Software authenticator with an ES256 passkey saved for the user
+ * Signs assertions for challenges from auth.passkey.beginLogin
+ */
+async function createTestPasskey(userId: string) {
+  const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const id = randomBytes(16).toString('base64url');
+  await passkeyStore.save({
+    id,
+    userId,
+    name: 'Test authenticator',
+    publicKey: publicKey.export({ type: 'spki', format: 'der' }).toString('base64url'),
+    algorithm: -7,
+    signCount: 0,
+    aaguid: '00000000-0000-0000-0000-000000000000',
+    backedUp: false,
+    createdAt: new Date().toISOString(),
+  });
+
+  const sha256 = (data: Buffer | string) => createHash('sha256').update(data).digest();
+  let signCount = 0;
+
+  return function assert(challenge: string, { userVerified }: { userVerified: boolean }) {
+    const { rpId, origins } = getWebAuthnConfig();
+    const clientData = Buffer.from(
+      JSON.stringify({ type: 'webauthn.get', challenge, origin: origins[0] })
+    );
+    // rpIdHash, flags (user present, optionally user verified), signature counter
+    const authData = Buffer.alloc(37);
+    sha256(rpId).copy(authData);
+    authData[32] = 0x01 | (userVerified ? 0x04 : 0);
+    authData.writeUInt32BE(++signCount, 33);
+    const signature = sign('sha256', Buffer.concat([authData, sha256(clientData)]), privateKey);
+
+    return {
+      id,
+      type: 'public-key' as const,
+      response: {
+        clientDataJSON: clientData.toString('base64url'),
+        authenticatorData: authData.toString('base64url'),
+        signature: signature.toString('base64url'),
+      },
+    };
+  };
+}
+
+describe('passkey login', () => {
+  async function createTotpUser(name: string) {
+    const user = await createTestUser({ name });
+    const session = await createBearerCaller((await loginAs(user.email)).token);
+    const { secret } = (await session.auth.enrollTotp()).data;
+    await session.auth.verifyTotp({ code: generateTotp(secret, getTotpStep() - 1) });
+    return { user, secret };
+  }
+
+  async function signInWithPasskey(
+    email: string,
+    assert: Awaited<ReturnType<typeof createTestPasskey>>,
+    userVerified: boolean
+  ) {
+    const caller = await createTestCaller();
+    const { data } = await caller.auth.passkey.beginLogin({ email });
+    return caller.auth.passkey.finishLogin({
+      credential: assert(data.challenge, { userVerified }),
+    });
+  }
+
+  it('signs in directly when the authenticator verified the user', async () => {
+    const { user } = await createTotpUser('Verified Passkey');
+    const assert = await createTestPasskey(user.id);
+
+    const { data } = await signInWithPasskey(user.email, assert, true);
+    expect(data).toMatchObject({ mfaRequired: false, user: { id: user.id } });
+  });
+
+  it('asks for the second factor when the passkey only proved possession', async () => {
+    const { user, secret } = await createTotpUser('Unverified Passkey');
+    const assert = await createTestPasskey(user.id);
+
+    const { data } = await signInWithPasskey(user.email, assert, false);
+    if (!data.mfaRequired) throw new Error('expected an MFA challenge');
+
+    const result = await (
+      await createTestCaller()
+    ).auth.loginWithTotp({ challengeToken: data.challengeToken, code: generateTotp(secret) });
+    expect(result.data).toMatchObject({ mfaRequired: false, user: { id: user.id } });
+  });
+
+  it('records rejected assertions in the activity log', async () => {
+    const user = await createTestUser({ name: 'Cloned Passkey' });
+    const assert = await createTestPasskey(user.id);
+    const caller = await createTestCaller();
+
+    const { data } = await caller.auth.passkey.beginLogin({ email: user.email });
+    const credential = assert(data.challenge, { userVerified: true });
+    credential.response.signature = assert(data.challenge, {
+      userVerified: true,
+    }).response.signature;
+
+    await expect(caller.auth.passkey.finishLogin({ credential })).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+    });
+    expect(await activityLogStore.listRecent(10)).toContainEqual(
+      expect.objectContaining({
+        userId: user.id,
+        action: 'Passkey Rejected',
+        target: 'Test authenticator (Invalid assertion signature)',
+      })
+    );
+  });
+});
+
+describe('email verification', () => {
+  /**
+   * Capture sent mail and return a function that waits for the link token sent to an address
+   */
+  function captureVerificationLinks() {
+    const sent: MailMessage[] = [];
+    setMailTransport({ send: async (message) => void sent.push(message) });
+    return async (email: string) => {
+      await vi.waitFor(() => expect(sent.map((message) => message.to)).toContain(email));
+      const message = sent.filter((m) => m.to === email).pop()!;
+      return new URL(message.text.match(/https?:\/\/\S+/)![0]).searchParams.get('token')!;
+    };
+  }
+
+  it('limits unverified accounts to getCurrentUser and logout until the link is opened', async () => {
+    const tokenSentTo = captureVerificationLinks();
+    const caller = await createTestCaller();
+    await caller.auth.register({
+      name: 'New Registrant',
+      email: 'registrant@example.com',
+      password: TEST_PASSWORD,
+    });
+
+    const pending = await createBearerCaller((await loginAs('registrant@example.com')).token);
+    await expect(pending.auth.getCurrentUser()).resolves.toHaveProperty(
+      'data.emailVerified',
+      false
+    );
+    await expect(pending.users.list()).rejects.toMatchObject({
+      code: 'FORBIDDEN',
+      message: 'Please verify your email address to continue',
+    });
+
+    const token = await tokenSentTo('registrant@example.com');
+    const { data } = await caller.auth.verifyEmail({ token });
+    expect(data.status).toBe('active');
+    await expect(caller.auth.verifyEmail({ token })).rejects.toMatchObject({
+      code: 'BAD_REQUEST',
+    });
+
+    const verified = await createBearerCaller((await loginAs('registrant@example.com')).token);
+    await expect(verified.users.list()).resolves.toHaveProperty('code', 200);
+  });
+
+  it('resends the link to pending accounts only, with the same response', async () => {
+    const active = await createTestUser({ name: 'Already Verified' });
+    const pending = await createTestUser({ name: 'Still Pending', status: 'pending' });
+    const tokenSentTo = captureVerificationLinks();
+    const caller = await createTestCaller();
+
+    const resent = await caller.auth.resendVerification({ email: pending.email });
+    expect(await caller.auth.resendVerification({ email: active.email })).toEqual(resent);
+
+    await caller.auth.verifyEmail({ token: await tokenSentTo(pending.email) });
+    expect((await getUserRepository().findById(pending.id))?.status).toBe('active');
+    expect((await getUserRepository().findById(active.id))?.emailVerifiedAt).toBeUndefined();
+  });
+
+  it('applies an email change only once the new address is verified', async () => {
+    const user = await createTestUser({ name: 'Email Changer' });
+    const tokenSentTo = captureVerificationLinks();
+    const me = await createBearerCaller((await loginAs(user.email)).token);
+
+    await me.users.update({ id: user.id, email: 'Changed.Address@example.com' });
+    expect(await getUserRepository().findById(user.id)).toMatchObject({
+      email: user.email,
+      pendingEmail: 'changed.address@example.com',
+    });
+    await expect(loginAs('changed.address@example.com')).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+    });
+
+    const token = await tokenSentTo('changed.address@example.com');
+    await (await createTestCaller()).auth.verifyEmail({ token });
+
+    expect(await getUserRepository().findById(user.id)).toMatchObject({
+      email: 'changed.address@example.com',
+      pendingEmail: undefined,
+    });
+    await expect(loginAs('changed.address@example.com')).resolves.toHaveProperty('token');
+  });
+});
+
+describe('auth.requestPasswordReset', () => {
+  it('answers before looking up the account and emails registered addresses only', async () => {
+    const user = await createTestUser({ name: 'Forgetful User' });
+    const sent: MailMessage[] = [];
+    setMailTransport({ send: async (message) => void sent.push(message) });
+    const findByEmail = vi.spyOn(getUserRepository(), 'findByEmail');
+    const caller = await createTestCaller();
+
+    const registered = await caller.auth.requestPasswordReset({ email: user.email });
+    const unknown = await caller.auth.requestPasswordReset({ email: 'nobody@example.com' });
+
+    // Identical responses, and no work depending on the account was done on the request path
+    expect(unknown).toEqual(registered);
+    expect(findByEmail).not.toHaveBeenCalled();
+
+    await vi.waitFor(() => expect(findByEmail).toHaveBeenCalledTimes(2));
+    await vi.waitFor(() => expect(sent).toHaveLength(1));
+    expect(sent[0].to).toBe(user.email);
+
+    const token = new URL(sent[0].text.match(/https?:\/\/\S+/)![0]).searchParams.get('token')!;
+    await caller.auth.resetPassword({ token, newPassword: 'Brand8New' });
+    await expect(
+      caller.auth.resetPassword({ token, newPassword: 'Brand9New' })
+    ).rejects.toMatchObject({ code: 'BAD_REQUEST', message: 'Invalid or expired reset token' });
+  });
+});
+
+describe('permission version', () => {
+  it('refuses tokens issued before a role reassignment until they are refreshed', async () => {
+    const admin = await createTestUser({ name: 'Role Admin', roleId: 'role-admin' });
+    const user = await createTestUser({ name: 'Promoted User' });
+    const { token, refreshToken } = await loginAs(user.email);
+    const adminCaller = await createBearerCaller((await loginAs(admin.email)).token);
+
+    await adminCaller.users.updateRole({ id: user.id, roleId: 'role-editor' });
+
+    await expect((await createBearerCaller(token)).auth.getCurrentUser()).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+    });
+
+    const refreshed = await (await createTestCaller()).auth.refreshToken({ refreshToken });
+    if (!('token' in refreshed.data)) throw new Error('expected tokens in the response');
+    const me = await (await createBearerCaller(refreshed.data.token)).auth.getCurrentUser();
+    expect(me.data).toMatchObject({ permissionVersion: 1, role: { id: 'role-editor' } });
+  });
+});
+
+describe('impersonation', () => {
+  it('rejects and audits tokens whose admin lost the right to impersonate', async () => {
+    const admin = await createTestUser({ name: 'Impersonating Admin', roleId: 'role-admin' });
+    const target = await createTestUser({ name: 'Impersonated User' });
+    const adminCaller = await createBearerCaller((await loginAs(admin.email)).token);
+
+    const { data } = await adminCaller.auth.impersonate({ userId: target.id });
+    const { token } = data;
+    if (!token) throw new Error('expected a token in the response');
+    const me = await (await createBearerCaller(token)).auth.getCurrentUser();
+    expect(me.data).toMatchObject({ id: target.id, impersonatedBy: { id: admin.id } });
+
+    await getUserRepository().update(admin.id, { roleId: 'role-viewer' });
+
+    await expect((await createBearerCaller(token)).auth.getCurrentUser()).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+    });
+    expect(await activityLogStore.listRecent(10)).toContainEqual(
+      expect.objectContaining({
+        userId: admin.id,
+        action: 'Impersonation Rejected',
+        target: expect.stringContaining(target.email),
+      })
+    );
+  });
+});
@@ -1,10 +1,254 @@
 import { z } from 'zod';
-import jwt, { SignOptions } from 'jsonwebtoken';
-import { router, publicProcedure, protectedProcedure } from '../trpc';
+import { router, publicProcedure, protectedProcedure, adminProcedure } from '../trpc';
 import { TRPCError } from '@trpc/server';
+import { Request, Response } from 'express';
+import { addTeamMember } from './teams';
+import {
+  getUserRepository,
+  verifyPassword,
+  verifyDummyPassword,
+  toContextUser,
+  startSession,
+  endSession,
+  listActiveSessions,
+  getRequestMetadata,
+  rotateRefreshToken,
+  signAccessToken,
+  getAccessTokenTtl,
+  getRefreshTokenTtl,
+  revokeAccessToken,
+  revokeRefreshToken,
+  revokeAllUserTokens,
+  issueOneTimeToken,
+  consumeOneTimeToken,
+  sendPasswordResetEmail,
+  findOneTimeToken,
+  recordOneTimeTokenFailure,
+  generateTotpSecret,
+  verifyTotp,
+  buildOtpauthUrl,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  createApiKey,
+  apiKeyStore,
+  grantsPermission,
+  reserveLoginAttempt,
+  recordLoginFailure,
+  releaseLoginAttempt,
+  recordLoginSuccess,
+  requestEmailVerification,
+  confirmEmailVerification,
+  setSessionCookies,
+  clearSessionCookies,
+  readSessionCookies,
+  setAccessTokenCookie,
+  clearAccessTokenCookie,
+  getAccountStatusDenial,
+  ensureAccountActive,
+  getImpersonationDenial,
+  getImpersonationTtl,
+  recordActivity,
+  getPasswordPolicy,
+  assertPasswordAllowed,
+  passkeyStore,
+  getWebAuthnConfig,
+  readClientDataChallenge,
+  verifyRegistrationResponse,
+  verifyAuthenticationResponse,
+  createCeremonyChallenge,
+  consumeCeremonyChallenge,
+  SUPPORTED_ALGORITHMS,
+  CEREMONY_TIMEOUT_MS,
+  requestMagicLink,
+  consumeMagicLink,
+  findPendingInvitation,
+  isAwaitingInvitation,
+  invitationStore,
+  PasskeyRecord,
+  buildPasswordUpdate,
+  UserRecord,
+  ApiKeyRecord,
+  SessionMode,
+} from '../services';
 
-// JWT expiration time (7 days in seconds)
-const JWT_EXPIRES_IN_SECONDS = 7 * 24 * 60 * 60;
+// Password reset link lifetime (1 hour in seconds)
+const DEFAULT_PASSWORD_RESET_TTL_SECONDS = 60 * 60;
+
+// MFA challenge lifetime (5 minutes in seconds) and wrong codes allowed per challenge
+const MFA_CHALLENGE_TTL_SECONDS = 5 * 60;
+const MFA_CHALLENGE_MAX_ATTEMPTS = 5;
+
+// Browsers opt into httpOnly cookie sessions; other clients get tokens in the response
+const sessionModeSchema = z.enum(['token', 'cookie']).default('token');
+
+// WebAuthn responses as serialized by PublicKeyCredential.toJSON() (binary fields base64url)
+const base64UrlSchema = z.string().regex(/^[A-Za-z0-9_-]+$/, 'Expected a base64url string');
+
+const registrationCredentialSchema = z.object({
+  id: base64UrlSchema,
+  type: z.literal('public-key'),
+  response: z.object({
+    clientDataJSON: base64UrlSchema,
+    attestationObject: base64UrlSchema,
+    transports: z.array(z.string()).optional(),
+  }),
+});
+
+const authenticationCredentialSchema = z.object({
+  id: base64UrlSchema,
+  type: z.literal('public-key'),
+  response: z.object({
+    clientDataJSON: base64UrlSchema,
+    authenticatorData: base64UrlSchema,
+    signature: base64UrlSchema,
+    userHandle: base64UrlSchema.optional(),
+  }),
+});
+
+/**
+ * Finish a successful login: record it, clear failed attempts and start a new session
+ * Suspended and inactive accounts are refused before any token is issued
+ * In cookie mode the tokens are set as cookies and left out of the response
+ */
+async function completeLogin(
+  record: UserRecord,
+  { req, res }: { req: Request; res: Response },
+  sessionMode: SessionMode = 'token'
+) {
+  const active = await ensureAccountActive(record);
+  await recordLoginSuccess(active.email);
+  await getUserRepository().update(active.id, { lastLoginAt: new Date().toISOString() });
+  const user = toContextUser(active);
+
+  // Short-lived access token plus a rotating refresh token, tied to a new session
+  const tokens = await startSession(user, getRequestMetadata(req));
+
+  if (sessionMode === 'cookie') {
+    setSessionCookies(res, tokens);
+    return {
+      mfaRequired: false as const,
+      user,
+      sessionId: tokens.sessionId,
+      expiresIn: tokens.expiresIn,
+      refreshExpiresIn: tokens.refreshExpiresIn,
+    };
+  }
+
+  return {
+    mfaRequired: false as const,
+    user,
+    ...tokens,
+  };
+}
+
+/**
+ * Continue after a successful first factor (password, magic link, or a passkey used
+ * without user verification)
+ * Returns an MFA challenge when two-factor authentication is enabled, otherwise logs in
+ */
+async function finishFirstFactor(
+  record: UserRecord,
+  ctx: { req: Request; res: Response },
+  sessionMode: SessionMode
+) {
+  // Checked before the second factor so suspended users are not asked for a code
+  const active = await ensureAccountActive(record);
+
+  if (active.totp?.enabledAt) {
+    const challengeToken = await issueOneTimeToken(
+      'mfa_challenge',
+      active.id,
+      MFA_CHALLENGE_TTL_SECONDS
+    );
+
+    return {
+      code: 200,
+      message: 'Two-factor authentication required',
+      data: {
+        mfaRequired: true as const,
+        challengeToken,
+        expiresIn: MFA_CHALLENGE_TTL_SECONDS,
+      },
+    };
+  }
+
+  return {
+    code: 200,
+    message: 'Login successful',
+    data: await completeLogin(active, ctx, sessionMode),
+  };
+}
+
+/**
+ * Check a TOTP or recovery code for a user with two-factor authentication enabled
+ * Accepted codes are consumed so they cannot be replayed
+ */
+async function verifySecondFactor(record: UserRecord, code: string): Promise<boolean> {
+  if (!record.totp?.enabledAt) return false;
+  const users = getUserRepository();
+
+  const step = verifyTotp(record.totp.secret, code, { afterStep: record.totp.lastUsedStep });
+  if (step !== null) {
+    await users.update(record.id, { totp: { ...record.totp, lastUsedStep: step } });
+    return true;
+  }
+
+  const codeHash = hashRecoveryCode(code);
+  const remaining = record.recoveryCodeHashes ?? [];
+  if (remaining.includes(codeHash)) {
+    await users.update(record.id, { recoveryCodeHashes: remaining.filter((h) => h !== codeHash) });
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Email a password reset link, if the address belongs to an account
+ */
+async function sendPasswordResetLink(email: string): Promise<void> {
+  const record = await getUserRepository().findByEmail(email);
+  if (!record) return;
+
+  const ttlSeconds =
+    Number(process.env.PASSWORD_RESET_TTL_SECONDS) || DEFAULT_PASSWORD_RESET_TTL_SECONDS;
+  const token = await issueOneTimeToken('password_reset', record.id, ttlSeconds);
+  await sendPasswordResetEmail(record, token, ttlSeconds);
+}
+
+/**
+ * Client-safe view of an API key (never includes the hash)
+ */
+function toApiKeySummary(record: ApiKeyRecord) {
+  const { keyHash: _keyHash, userId: _userId, ...summary } = record;
+  return summary;
+}
+
+/**
+ * Client-safe view of a passkey (never includes the public key)
+ */
+function toPasskeySummary(record: PasskeyRecord) {
+  const { publicKey: _publicKey, userId: _userId, ...summary } = record;
+  return summary;
+}
+
+/**
+ * WebAuthn user handle for an account (opaque, no personal data)
+ */
+const toUserHandle = (userId: string): string => Buffer.from(userId).toString('base64url');
+
+/**
+ * API keys cannot be used to manage credentials (API keys, passkeys),
+ * so a leaked key cannot mint new ones
+ */
+function assertNotApiKey(apiKeyId: string | null, what: string = 'API keys'): void {
+  if (apiKeyId) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: `${what} cannot be managed with an API key`,
+    });
+  }
+}
 
 /**
  * Authentication router
@@ -13,84 +257,340 @@ const JWT_EXPIRES_IN_SECONDS = 7 * 24 * 60 * 60;
 export const authRouter = router({
   /**
    * User login
+   * Returns an MFA challenge instead of tokens when two-factor authentication is enabled
+   * Repeated failures are slowed down and then locked out per email and per IP
    */
   login: publicProcedure
     .input(
       z.object({
         email: z.string().email('Invalid email format'),
-        password: z.string().min(6, 'Password must be at least 6 characters'),
+        // Policy is enforced when passwords are set, so older passwords keep working here
+        password: z.string().min(1, 'Password is required'),
+        sessionMode: sessionModeSchema,
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
       const { email, password } = input;
+      const { ip } = getRequestMetadata(ctx.req);
+      const users = getUserRepository();
+
+      await reserveLoginAttempt(email, ip);
 
-      // TODO: Replace with actual database query
-      // This is a mock implementation
-      if (!email || !password) {
+      const record = await users.findByEmail(email);
+      const isValid = record
+        ? await verifyPassword(password, record.passwordHash)
+        : await verifyDummyPassword(password);
+
+      if (!record || !isValid) {
+        await recordLoginFailure(email, ip);
         throw new TRPCError({
-          code: 'BAD_REQUEST',
-          message: 'Email and password are required',
+          code: 'UNAUTHORIZED',
+          message: 'Invalid email or password',
         });
       }
 
-      // Mock user data
-      const user = {
-        id: 'mock-user-id',
-        name: 'Admin User',
-        email: email,
-        role: {
-          id: 'admin',
-          name: 'admin',
-          label: 'Super Admin',
-          permissions: ['*'],
-        },
+      // Earlier failures are only cleared once the second factor (if any) is passed too
+      await releaseLoginAttempt(email, ip);
+
+      return finishFirstFactor(record, ctx, input.sessionMode);
+    }),
+
+  /**
+   * Email a single-use sign-in link (low-privilege roles only, see MAGIC_LINK_ROLES)
+   * The returned nonce must be kept by the requesting device and sent with the link token
+   */
+  requestMagicLink: publicProcedure
+    .input(
+      z.object({
+        email: z.string().email('Invalid email format'),
+      })
+    )
+    .mutation(async ({ input }) => {
+      // Same response whether or not a link was sent
+      return {
+        code: 200,
+        message: 'If the account can sign in by email, a sign-in link has been sent',
+        data: await requestMagicLink(input.email),
       };
+    }),
 
-      // Generate JWT token
-      const signOptions: SignOptions = { expiresIn: JWT_EXPIRES_IN_SECONDS };
-      const token = jwt.sign(user, process.env.JWT_SECRET || 'default-secret-key', signOptions);
+  /**
+   * Sign in with a magic link token and the nonce from requestMagicLink
+   * Accounts with two-factor authentication still get an MFA challenge
+   */
+  consumeMagicLink: publicProcedure
+    .input(
+      z.object({
+        token: z.string().min(1, 'Token is required'),
+        nonce: z.string().min(1, 'Nonce is required'),
+        sessionMode: sessionModeSchema,
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const record = await consumeMagicLink(input.token, input.nonce);
+
+      if (!record) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired sign-in link, please request a new one',
+        });
+      }
+
+      return finishFirstFactor(record, ctx, input.sessionMode);
+    }),
+
+  /**
+   * Complete a login with the MFA challenge token and a TOTP or recovery code
+   * Wrong codes count towards the same lockout as wrong passwords
+   */
+  loginWithTotp: publicProcedure
+    .input(
+      z.object({
+        challengeToken: z.string().min(1, 'Challenge token is required'),
+        code: z.string().min(1, 'Code is required'),
+        sessionMode: sessionModeSchema,
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const challenge = await findOneTimeToken('mfa_challenge', input.challengeToken);
+      const record = challenge ? await getUserRepository().findById(challenge.userId) : null;
+
+      if (!challenge || !record) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired challenge, please log in again',
+        });
+      }
+
+      const { ip } = getRequestMetadata(ctx.req);
+      await reserveLoginAttempt(record.email, ip);
+
+      if (!(await verifySecondFactor(record, input.code))) {
+        await recordOneTimeTokenFailure(challenge, MFA_CHALLENGE_MAX_ATTEMPTS);
+        await recordLoginFailure(record.email, ip);
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Invalid verification code',
+        });
+      }
+
+      // Single use: a concurrent request with the same challenge loses
+      if (!(await consumeOneTimeToken('mfa_challenge', input.challengeToken))) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired challenge, please log in again',
+        });
+      }
+      await releaseLoginAttempt(record.email, ip);
 
       return {
         code: 200,
         message: 'Login successful',
-        data: {
-          user,
-          token,
-          expiresIn: JWT_EXPIRES_IN_SECONDS,
-        },
+        data: await completeLogin(record, ctx, input.sessionMode),
+      };
+    }),
+
+  /**
+   * Complete a single sign-on login with the code from /auth/oidc/callback
+   * Two-factor authentication is left to the identity provider
+   */
+  exchangeSsoCode: publicProcedure
+    .input(
+      z.object({
+        code: z.string().min(1, 'Code is required'),
+        sessionMode: sessionModeSchema,
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const loginCode = await consumeOneTimeToken('sso_login', input.code);
+      const record = loginCode ? await getUserRepository().findById(loginCode.userId) : null;
+
+      if (!record) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired login code, please sign in again',
+        });
+      }
+
+      return {
+        code: 200,
+        message: 'Login successful',
+        data: await completeLogin(record, ctx, input.sessionMode),
       };
     }),
 
   /**
    * User registration
+   * New accounts stay pending until the emailed verification link is opened
    */
   register: publicProcedure
     .input(
       z.object({
         name: z.string().min(2, 'Name must be at least 2 characters'),
         email: z.string().email('Invalid email format'),
-        password: z.string().min(8, 'Password must be at least 8 characters'),
+        password: z.string().min(1, 'Password is required'),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const { name, email, password } = input;
+      const users = getUserRepository();
+
+      if (await users.findByEmail(email)) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'Email is already registered',
+        });
+      }
+
+      await assertPasswordAllowed(password, { name, email });
+
+      const created = await users.create({
+        name,
+        email,
+        ...(await buildPasswordUpdate(password)),
+        // Role assigned to self-registered users
+        roleId: process.env.DEFAULT_USER_ROLE || 'role-viewer',
+        status: 'pending',
+      });
+
+      await requestEmailVerification(created);
+
+      return {
+        code: 200,
+        message: 'Registration successful, please check your email to verify your account',
+        data: {
+          id: created.id,
+          name: created.name,
+          email: created.email,
+          status: created.status,
+        },
+      };
+    }),
+
+  /**
+   * Accept an invitation: set a password, activate the account and sign in
+   * Opening the emailed link proves the address, so the email counts as verified
+   */
+  acceptInvite: publicProcedure
+    .input(
+      z.object({
+        token: z.string().min(1, 'Token is required'),
+        password: z.string().min(1, 'Password is required'),
+        name: z.string().min(2, 'Name must be at least 2 characters').optional(),
+        sessionMode: sessionModeSchema,
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const users = getUserRepository();
+      const invitation = await findPendingInvitation(input.token);
+      const record = invitation ? await users.findById(invitation.userId) : null;
+
+      if (!invitation || !record) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Invalid or expired invitation',
+        });
+      }
+
+      const name = input.name ?? record.name;
+      await assertPasswordAllowed(input.password, { name, email: record.email });
+
+      // Single use: re-check after the (slow) policy check so a concurrent accept loses
+      const current = await invitationStore.findById(invitation.id);
+      if (current?.acceptedAt || current?.tokenHash !== invitation.tokenHash) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Invalid or expired invitation',
+        });
+      }
+      await invitationStore.update(invitation.id, { acceptedAt: new Date().toISOString() });
+
+      const activated = await users.update(record.id, {
+        name,
+        ...(await buildPasswordUpdate(input.password)),
+        status: 'active',
+        emailVerifiedAt: new Date().toISOString(),
+      });
+      if (!activated) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Invalid or expired invitation',
+        });
+      }
+
+      invitation.teamIds.forEach((teamId) =>
+        addTeamMember(teamId, { userId: activated.id, name, email: activated.email })
+      );
+
+      await recordActivity({
+        user: activated.name,
+        userId: activated.id,
+        action: 'Accepted Invitation',
+        target: activated.email,
+      });
+
+      return {
+        code: 200,
+        message: 'Invitation accepted',
+        data: await completeLogin(activated, ctx, input.sessionMode),
+      };
+    }),
+
+  /**
+   * Confirm an email address with the token from the verification link
+   */
+  verifyEmail: publicProcedure
+    .input(
+      z.object({
+        token: z.string().min(1, 'Token is required'),
       })
     )
     .mutation(async ({ input }) => {
-      const { name, email } = input;
+      const record = await confirmEmailVerification(input.token);
 
-      // TODO: Replace with actual database query
-      // Check if user already exists
-      // Hash password (input.password)
-      // Create user in database
+      if (!record) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Invalid or expired verification link',
+        });
+      }
 
       return {
         code: 200,
-        message: 'Registration successful',
+        message: 'Email verified successfully',
         data: {
-          id: 'mock-new-user-id',
-          name,
-          email,
+          id: record.id,
+          email: record.email,
+          status: record.status,
         },
       };
     }),
 
+  /**
+   * Send a new verification link to a pending account
+   * Invited accounts are activated by accepting the invitation instead
+   */
+  resendVerification: publicProcedure
+    .input(
+      z.object({
+        email: z.string().email('Invalid email format'),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const record = await getUserRepository().findByEmail(input.email);
+
+      if (record?.status === 'pending' && !(await isAwaitingInvitation(record.id))) {
+        await requestEmailVerification(record);
+      }
+
+      // Same response whether or not the email is registered or pending
+      return {
+        code: 200,
+        message: 'If the account is awaiting verification, a new link has been sent',
+        data: null,
+      };
+    }),
+
   /**
    * Get current user
    */
@@ -98,75 +598,796 @@ export const authRouter = router({
     return {
       code: 200,
       message: 'success',
-      data: ctx.user,
+      data: {
+        ...ctx.user,
+        // Set while an admin is impersonating this user
+        impersonatedBy: ctx.actor ? { id: ctx.actor.id, name: ctx.actor.name } : undefined,
+      },
+    };
+  }),
+
+  /**
+   * Exchange a refresh token for a new access token and refresh token
+   * Without an input token the refresh cookie is used, and new cookies are set
+   */
+  refreshToken: publicProcedure
+    .input(
+      z
+        .object({
+          refreshToken: z.string().min(1, 'Refresh token is required').optional(),
+        })
+        .optional()
+    )
+    .mutation(async ({ input, ctx }) => {
+      const cookieToken = input?.refreshToken ? undefined : readSessionCookies(ctx.req).refreshToken;
+      const refreshToken = input?.refreshToken ?? cookieToken;
+      if (!refreshToken) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Refresh token is required',
+        });
+      }
+
+      const rotated = await rotateRefreshToken(refreshToken);
+
+      // Re-read the user so the new access token reflects current name, role and status
+      const record = await getUserRepository().findById(rotated.userId);
+      if (!record) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No user found',
+        });
+      }
+      const active = await ensureAccountActive(record);
+
+      const tokens = {
+        token: signAccessToken(toContextUser(active), rotated.familyId),
+        expiresIn: getAccessTokenTtl(),
+        refreshToken: rotated.refreshToken,
+        refreshExpiresIn: getRefreshTokenTtl(),
+      };
+
+      if (cookieToken) {
+        setSessionCookies(ctx.res, tokens);
+        return {
+          code: 200,
+          message: 'Token refreshed successfully',
+          data: { expiresIn: tokens.expiresIn, refreshExpiresIn: tokens.refreshExpiresIn },
+        };
+      }
+
+      return {
+        code: 200,
+        message: 'Token refreshed successfully',
+        data: tokens,
+      };
+    }),
+
+  /**
+   * User logout
+   * Ends the current session and revokes its access and refresh tokens
+   */
+  logout: protectedProcedure
+    .input(
+      z
+        .object({
+          refreshToken: z.string().optional(),
+        })
+        .optional()
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (ctx.claims) {
+        await revokeAccessToken(ctx.claims);
+        // An impersonation token shares the admin's session, which stays active
+        if (ctx.claims.sid && !ctx.actor) {
+          await endSession(ctx.claims.sid);
+        }
+      }
+
+      const refreshToken = input?.refreshToken ?? readSessionCookies(ctx.req).refreshToken;
+      if (refreshToken) {
+        await revokeRefreshToken(refreshToken, ctx.user.id);
+      }
+
+      if (ctx.authMethod === 'cookie') {
+        clearSessionCookies(ctx.res);
+      }
+
+      return {
+        code: 200,
+        message: 'Logout successful',
+        data: null,
+      };
+    }),
+
+  /**
+   * List active sessions (devices) of the current user
+   */
+  listSessions: protectedProcedure.query(async ({ ctx }) => {
+    const sessions = await listActiveSessions(ctx.user.id);
+
+    return {
+      code: 200,
+      message: 'success',
+      data: sessions.map((s) => ({
+        id: s.id,
+        device: s.device,
+        ip: s.ip,
+        userAgent: s.userAgent,
+        createdAt: s.createdAt,
+        lastSeenAt: s.lastSeenAt,
+        current: s.id === ctx.claims?.sid,
+      })),
     };
   }),
 
   /**
-   * Refresh access token
+   * End one session, or every session except the current one
+   */
+  revokeSession: protectedProcedure
+    .input(z.union([z.object({ sessionId: z.string() }), z.object({ allOthers: z.literal(true) })]))
+    .mutation(async ({ input, ctx }) => {
+      const sessions = await listActiveSessions(ctx.user.id);
+      let revoked: string[];
+
+      if ('sessionId' in input) {
+        if (!sessions.some((s) => s.id === input.sessionId)) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: `Session with ID ${input.sessionId} not found`,
+          });
+        }
+        revoked = [input.sessionId];
+      } else {
+        revoked = sessions.filter((s) => s.id !== ctx.claims?.sid).map((s) => s.id);
+      }
+
+      await Promise.all(revoked.map((id) => endSession(id)));
+
+      return {
+        code: 200,
+        message: 'Session revoked successfully',
+        data: { revoked },
+      };
+    }),
+
+  /**
+   * Revoke all tokens of a user (Admin only)
+   */
+  revokeAllForUser: adminProcedure
+    .input(
+      z.object({
+        userId: z.string(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      await revokeAllUserTokens(input.userId);
+
+      return {
+        code: 200,
+        message: 'All tokens revoked successfully',
+        data: { userId: input.userId },
+      };
+    }),
+
+  /**
+   * Start impersonating a user (requires the users:impersonate permission)
+   * Returns a short-lived access token for the user with an act claim naming the caller
+   */
+  impersonate: protectedProcedure
+    .input(
+      z.object({
+        userId: z.string(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (ctx.authMethod === 'apiKey') {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Impersonation requires a user session',
+        });
+      }
+
+      const record = await getUserRepository().findById(input.userId);
+      if (!record) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `User with ID ${input.userId} not found`,
+        });
+      }
+
+      const target = toContextUser(record);
+      const denial = getAccountStatusDenial(record) ?? getImpersonationDenial(ctx.user, target);
+      if (denial) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: denial,
+        });
+      }
+
+      // Bound to the admin's session, so signing out the admin ends the impersonation too
+      const expiresIn = getImpersonationTtl();
+      const token = signAccessToken(target, ctx.claims?.sid, { actorId: ctx.user.id, expiresIn });
+
+      await recordActivity({
+        user: ctx.user.name,
+        userId: ctx.user.id,
+        action: 'Impersonation Started',
+        target: target.email,
+      });
+
+      if (ctx.authMethod === 'cookie') {
+        setAccessTokenCookie(ctx.res, token, expiresIn);
+        return {
+          code: 200,
+          message: 'Impersonation started',
+          data: { user: target, expiresIn },
+        };
+      }
+
+      return {
+        code: 200,
+        message: 'Impersonation started',
+        data: { user: target, token, expiresIn },
+      };
+    }),
+
+  /**
+   * Stop impersonating: revokes the impersonation token
+   * Token clients go back to their own token; cookie clients refresh to get theirs back
    */
-  refreshToken: protectedProcedure.mutation(async ({ ctx }) => {
-    if (!ctx.user) {
+  stopImpersonation: protectedProcedure.mutation(async ({ ctx }) => {
+    if (!ctx.actor || !ctx.claims) {
       throw new TRPCError({
-        code: 'UNAUTHORIZED',
-        message: 'No user found',
+        code: 'BAD_REQUEST',
+        message: 'Not impersonating',
       });
     }
 
-    // Generate new JWT token
-    const signOptions: SignOptions = { expiresIn: JWT_EXPIRES_IN_SECONDS };
-    const token = jwt.sign(
-      {
-        id: ctx.user.id,
-        name: ctx.user.name,
-        email: ctx.user.email,
-        role: ctx.user.role,
-      },
-      process.env.JWT_SECRET || 'default-secret-key',
-      signOptions
-    );
+    await revokeAccessToken(ctx.claims);
+    await recordActivity({
+      user: ctx.actor.name,
+      userId: ctx.actor.id,
+      action: 'Impersonation Ended',
+      target: ctx.user.email,
+    });
+
+    if (ctx.authMethod === 'cookie') {
+      clearAccessTokenCookie(ctx.res);
+    }
 
     return {
       code: 200,
-      message: 'Token refreshed successfully',
+      message: 'Impersonation ended',
+      data: { actor: ctx.actor },
+    };
+  }),
+
+  /**
+   * Create an API key for machine clients
+   * The key is returned only once; permissions must be a subset of the caller's
+   */
+  createApiKey: protectedProcedure
+    .input(
+      z.object({
+        name: z.string().min(1, 'Name is required').max(100),
+        permissions: z.array(z.string()).min(1, 'At least one permission is required'),
+        expiresAt: z.string().datetime().optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      assertNotApiKey(ctx.apiKeyId);
+
+      const notGranted = input.permissions.filter(
+        (p) => !grantsPermission(ctx.user.role.permissions, p)
+      );
+      if (notGranted.length > 0) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: `Cannot grant permissions you do not have: ${notGranted.join(', ')}`,
+        });
+      }
+
+      if (input.expiresAt && new Date(input.expiresAt) <= new Date()) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Expiry must be in the future',
+        });
+      }
+
+      const { key, record } = await createApiKey(ctx.user.id, input);
+
+      return {
+        code: 200,
+        message: 'API key created successfully',
+        data: { ...toApiKeySummary(record), key },
+      };
+    }),
+
+  /**
+   * List API keys of the current user
+   */
+  listApiKeys: protectedProcedure.query(async ({ ctx }) => {
+    const keys = await apiKeyStore.listByUser(ctx.user.id);
+
+    return {
+      code: 200,
+      message: 'success',
+      data: keys.filter((k) => !k.revokedAt).map(toApiKeySummary),
+    };
+  }),
+
+  /**
+   * Revoke an API key of the current user
+   */
+  revokeApiKey: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      assertNotApiKey(ctx.apiKeyId);
+
+      const record = await apiKeyStore.findById(input.id);
+      if (!record || record.userId !== ctx.user.id || record.revokedAt) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `API key with ID ${input.id} not found`,
+        });
+      }
+
+      await apiKeyStore.update(record.id, { revokedAt: new Date().toISOString() });
+
+      return {
+        code: 200,
+        message: 'API key revoked successfully',
+        data: { id: record.id },
+      };
+    }),
+
+  /**
+   * Start TOTP enrollment: returns a new secret to add to an authenticator app
+   */
+  enrollTotp: protectedProcedure.mutation(async ({ ctx }) => {
+    const users = getUserRepository();
+    const record = await users.findById(ctx.user.id);
+
+    if (!record) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'User not found',
+      });
+    }
+
+    if (record.totp?.enabledAt) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Two-factor authentication is already enabled',
+      });
+    }
+
+    const secret = generateTotpSecret();
+    await users.update(record.id, { totp: { secret } });
+
+    return {
+      code: 200,
+      message: 'success',
       data: {
-        token,
-        expiresIn: JWT_EXPIRES_IN_SECONDS,
+        secret,
+        otpauthUrl: buildOtpauthUrl(secret, record.email, process.env.TOTP_ISSUER || 'HaloLight'),
       },
     };
   }),
 
   /**
-   * User logout
+   * Confirm TOTP enrollment with a code from the authenticator app
+   * Returns one-time recovery codes, shown only once
+   */
+  verifyTotp: protectedProcedure
+    .input(
+      z.object({
+        code: z.string().min(1, 'Code is required'),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const users = getUserRepository();
+      const record = await users.findById(ctx.user.id);
+
+      if (!record?.totp || record.totp.enabledAt) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'No pending two-factor enrollment',
+        });
+      }
+
+      const step = verifyTotp(record.totp.secret, input.code);
+      if (step === null) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Invalid verification code',
+        });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await users.update(record.id, {
+        totp: {
+          secret: record.totp.secret,
+          enabledAt: new Date().toISOString(),
+          lastUsedStep: step,
+        },
+        recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+      });
+
+      return {
+        code: 200,
+        message: 'Two-factor authentication enabled',
+        data: { recoveryCodes },
+      };
+    }),
+
+  /**
+   * Replace all recovery codes (requires a current TOTP or recovery code)
+   */
+  regenerateRecoveryCodes: protectedProcedure
+    .input(
+      z.object({
+        code: z.string().min(1, 'Code is required'),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const users = getUserRepository();
+      const record = await users.findById(ctx.user.id);
+
+      if (!record || !(await verifySecondFactor(record, input.code))) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Invalid verification code',
+        });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await users.update(record.id, { recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode) });
+
+      return {
+        code: 200,
+        message: 'Recovery codes regenerated',
+        data: { recoveryCodes },
+      };
+    }),
+
+  /**
+   * Disable two-factor authentication (requires password and a TOTP or recovery code)
    */
-  logout: protectedProcedure.mutation(async () => {
-    // In a real implementation, you might want to:
-    // - Add token to blacklist
-    // - Clear server-side session
-    // - Log the logout event
+  disableTotp: protectedProcedure
+    .input(
+      z.object({
+        password: z.string().min(1, 'Password is required'),
+        code: z.string().min(1, 'Code is required'),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const users = getUserRepository();
+      const record = await users.findById(ctx.user.id);
+
+      if (!record || !(await verifyPassword(input.password, record.passwordHash))) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Password is incorrect',
+        });
+      }
 
+      if (!(await verifySecondFactor(record, input.code))) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Invalid verification code',
+        });
+      }
+
+      await users.update(record.id, { totp: undefined, recoveryCodeHashes: undefined });
+
+      return {
+        code: 200,
+        message: 'Two-factor authentication disabled',
+        data: null,
+      };
+    }),
+
+  /**
+   * Passkeys (WebAuthn): registration, login and management
+   * begin* returns PublicKeyCredential options for navigator.credentials; finish* takes the result
+   */
+  passkey: router({
+    /**
+     * Start registering a passkey for the current user
+     */
+    beginRegistration: protectedProcedure.mutation(async ({ ctx }) => {
+      assertNotApiKey(ctx.apiKeyId, 'Passkeys');
+      const { rpId, rpName, requireUserVerification } = getWebAuthnConfig();
+      const existing = await passkeyStore.listByUser(ctx.user.id);
+
+      return {
+        code: 200,
+        message: 'success',
+        data: {
+          challenge: createCeremonyChallenge('registration', ctx.user.id),
+          rp: { id: rpId, name: rpName },
+          user: {
+            id: toUserHandle(ctx.user.id),
+            name: ctx.user.email,
+            displayName: ctx.user.name,
+          },
+          pubKeyCredParams: SUPPORTED_ALGORITHMS.map((alg) => ({ type: 'public-key', alg })),
+          timeout: CEREMONY_TIMEOUT_MS,
+          attestation: 'none',
+          authenticatorSelection: {
+            residentKey: 'preferred',
+            userVerification: requireUserVerification ? 'required' : 'preferred',
+          },
+          excludeCredentials: existing.map((passkey) => ({
+            type: 'public-key',
+            id: passkey.id,
+            transports: passkey.transports,
+          })),
+        },
+      };
+    }),
+
+    /**
+     * Verify the authenticator's response and store the new passkey
+     */
+    finishRegistration: protectedProcedure
+      .input(
+        z.object({
+          name: z.string().min(1).max(64).optional(),
+          credential: registrationCredentialSchema,
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        assertNotApiKey(ctx.apiKeyId, 'Passkeys');
+        const { credential } = input;
+        const challenge = readClientDataChallenge(credential.response.clientDataJSON);
+        const pending = challenge ? consumeCeremonyChallenge('registration', challenge) : null;
+
+        if (!challenge || !pending || pending.userId !== ctx.user.id) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Invalid or expired registration, please try again',
+          });
+        }
+
+        const { rpId, origins, requireUserVerification } = getWebAuthnConfig();
+        let verified;
+        try {
+          verified = verifyRegistrationResponse(credential, {
+            challenge,
+            rpId,
+            origins,
+            requireUserVerification,
+          });
+        } catch (error) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Passkey registration failed: ${(error as Error).message}`,
+          });
+        }
+
+        if (await passkeyStore.findById(verified.credentialId)) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: 'This passkey is already registered',
+          });
+        }
+
+        const existing = await passkeyStore.listByUser(ctx.user.id);
+        const record: PasskeyRecord = {
+          id: verified.credentialId,
+          userId: ctx.user.id,
+          name: input.name ?? `Passkey ${existing.length + 1}`,
+          publicKey: verified.publicKey,
+          algorithm: verified.algorithm,
+          signCount: verified.signCount,
+          transports: credential.response.transports,
+          aaguid: verified.aaguid,
+          backedUp: verified.backedUp,
+          createdAt: new Date().toISOString(),
+        };
+        await passkeyStore.save(record);
+
+        return {
+          code: 200,
+          message: 'Passkey registered successfully',
+          data: toPasskeySummary(record),
+        };
+      }),
+
+    /**
+     * Start a passkey login
+     * Without an email the browser offers any discoverable passkey for this site
+     */
+    beginLogin: publicProcedure
+      .input(
+        z
+          .object({
+            email: z.string().email('Invalid email format').optional(),
+          })
+          .optional()
+      )
+      .mutation(async ({ input }) => {
+        const { rpId, requireUserVerification } = getWebAuthnConfig();
+        const record = input?.email ? await getUserRepository().findByEmail(input.email) : null;
+        const passkeys = record ? await passkeyStore.listByUser(record.id) : [];
+
+        return {
+          code: 200,
+          message: 'success',
+          data: {
+            challenge: createCeremonyChallenge('authentication', record?.id),
+            rpId,
+            timeout: CEREMONY_TIMEOUT_MS,
+            userVerification: requireUserVerification ? 'required' : 'preferred',
+            // Empty for unknown emails, so the response does not reveal whether the account exists
+            allowCredentials: passkeys.map((passkey) => ({
+              type: 'public-key',
+              id: passkey.id,
+              transports: passkey.transports,
+            })),
+          },
+        };
+      }),
+
+    /**
+     * Verify a passkey assertion and sign the user in
+     * With user verification (PIN/biometric) the passkey is a second factor in itself; without
+     * it the passkey only proves possession of the device, so a TOTP challenge follows
+     */
+    finishLogin: publicProcedure
+      .input(
+        z.object({
+          credential: authenticationCredentialSchema,
+          sessionMode: sessionModeSchema,
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        const { credential } = input;
+        const challenge = readClientDataChallenge(credential.response.clientDataJSON);
+        const pending = challenge ? consumeCeremonyChallenge('authentication', challenge) : null;
+        const passkey = pending ? await passkeyStore.findById(credential.id) : null;
+        const record = passkey ? await getUserRepository().findById(passkey.userId) : null;
+        const { userHandle } = credential.response;
+
+        if (
+          !challenge ||
+          !passkey ||
+          !record ||
+          (pending?.userId && pending.userId !== passkey.userId) ||
+          (userHandle && userHandle !== toUserHandle(passkey.userId))
+        ) {
+          throw new TRPCError({
+            code: 'UNAUTHORIZED',
+            message: 'Passkey login failed, please try again',
+          });
+        }
+
+        const { rpId, origins, requireUserVerification } = getWebAuthnConfig();
+        let verified;
+        try {
+          verified = verifyAuthenticationResponse(
+            credential,
+            { challenge, rpId, origins, requireUserVerification },
+            passkey
+          );
+        } catch (error) {
+          await recordActivity({
+            user: record.name,
+            userId: record.id,
+            action: 'Passkey Rejected',
+            target: `${passkey.name} (${(error as Error).message})`,
+          });
+          throw new TRPCError({
+            code: 'UNAUTHORIZED',
+            message: 'Passkey login failed, please try again',
+          });
+        }
+
+        await passkeyStore.update(passkey.id, {
+          signCount: verified.signCount,
+          backedUp: verified.backedUp,
+          lastUsedAt: new Date().toISOString(),
+        });
+
+        if (!verified.userVerified) {
+          return finishFirstFactor(record, ctx, input.sessionMode);
+        }
+
+        return {
+          code: 200,
+          message: 'Login successful',
+          data: await completeLogin(record, ctx, input.sessionMode),
+        };
+      }),
+
+    /**
+     * List the current user's passkeys
+     */
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const passkeys = await passkeyStore.listByUser(ctx.user.id);
+
+      return {
+        code: 200,
+        message: 'success',
+        data: passkeys.map(toPasskeySummary),
+      };
+    }),
+
+    /**
+     * Remove one of the current user's passkeys
+     */
+    remove: protectedProcedure
+      .input(
+        z.object({
+          id: z.string(),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        assertNotApiKey(ctx.apiKeyId, 'Passkeys');
+
+        const passkey = await passkeyStore.findById(input.id);
+        if (!passkey || passkey.userId !== ctx.user.id) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: `Passkey with ID ${input.id} not found`,
+          });
+        }
+
+        await passkeyStore.delete(passkey.id);
+
+        return {
+          code: 200,
+          message: 'Passkey removed successfully',
+          data: { id: passkey.id },
+        };
+      }),
+  }),
+
+  /**
+   * Password requirements, so clients can show them before submitting
+   */
+  getPasswordPolicy: publicProcedure.query(() => {
     return {
       code: 200,
-      message: 'Logout successful',
-      data: null,
+      message: 'success',
+      data: getPasswordPolicy(),
     };
   }),
 
   /**
    * Change password
+   * The new password must satisfy the password policy, including history
    */
   changePassword: protectedProcedure
     .input(
       z.object({
-        currentPassword: z.string().min(6),
-        newPassword: z.string().min(8, 'New password must be at least 8 characters'),
+        currentPassword: z.string().min(1, 'Current password is required'),
+        newPassword: z.string().min(1, 'New password is required'),
       })
     )
-    .mutation(async ({ input: _input }) => {
-      // TODO: Replace with actual implementation
-      // - Verify current password (_input.currentPassword)
-      // - Hash new password (_input.newPassword)
-      // - Update in database for user (ctx.user.id)
+    .mutation(async ({ input, ctx }) => {
+      const users = getUserRepository();
+      const record = await users.findById(ctx.user.id);
+
+      if (!record || !(await verifyPassword(input.currentPassword, record.passwordHash))) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Current password is incorrect',
+        });
+      }
+
+      await assertPasswordAllowed(input.newPassword, { record }, 'newPassword');
+      await users.update(record.id, await buildPasswordUpdate(input.newPassword, record));
+
+      // Sign out everywhere, including this session
+      await revokeAllUserTokens(record.id);
 
       return {
         code: 200,
@@ -184,35 +1405,57 @@ export const authRouter = router({
         email: z.string().email('Invalid email format'),
       })
     )
-    .mutation(async ({ input: _input }) => {
-      // TODO: Replace with actual implementation
-      // - Check if user exists (_input.email)
-      // - Generate reset token
-      // - Send reset email
+    .mutation(async ({ input }) => {
+      // Runs after the response: the lookup, token and email would otherwise make
+      // registered addresses measurably slower to answer
+      setImmediate(() => {
+        sendPasswordResetLink(input.email).catch((error) => {
+          console.error('Failed to send password reset email:', error);
+        });
+      });
 
+      // Same response whether or not the email is registered
       return {
         code: 200,
-        message: 'Password reset email sent',
+        message: 'If the email is registered, a password reset link has been sent',
         data: null,
       };
     }),
 
   /**
    * Reset password with token
+   * The token is only used up once the new password passes the policy
    */
   resetPassword: publicProcedure
     .input(
       z.object({
         token: z.string(),
-        newPassword: z.string().min(8, 'Password must be at least 8 characters'),
+        newPassword: z.string().min(1, 'New password is required'),
       })
     )
-    .mutation(async ({ input: _input }) => {
-      // TODO: Replace with actual implementation
-      // - Verify reset token (_input.token)
-      // - Hash new password (_input.newPassword)
-      // - Update in database
-      // - Invalidate token
+    .mutation(async ({ input }) => {
+      const users = getUserRepository();
+      const resetToken = await findOneTimeToken('password_reset', input.token);
+      const record = resetToken ? await users.findById(resetToken.userId) : null;
+      const invalidToken = new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Invalid or expired reset token',
+      });
+
+      if (!record) {
+        throw invalidToken;
+      }
+
+      await assertPasswordAllowed(input.newPassword, { record }, 'newPassword');
+
+      if (!(await consumeOneTimeToken('password_reset', input.token))) {
+        throw invalidToken;
+      }
+
+      await users.update(record.id, await buildPasswordUpdate(input.newPassword, record));
+
+      // Anyone holding the old password may have active sessions
+      await revokeAllUserTokens(record.id);
 
       return {
         code: 200,
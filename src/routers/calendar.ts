@@ -119,7 +119,7 @@ export const calendarRouter = router({
         })
         .optional()
     )
-    .query(async ({ input }) => {
+    .query(async ({ input, ctx }) => {
       const { start, end, search } = input || {};
       let data = [...mockEvents];
 
@@ -147,6 +147,8 @@ export const calendarRouter = router({
         data: {
           list: data,
           total: data.length,
+          // Times are UTC; clients render them in the user's preferred time zone
+          timezone: ctx.user.preferences.timezone,
         },
       };
     }),
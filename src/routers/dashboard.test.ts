@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { recordActivity } from '../services';
+import { createBearerCaller, createTestUser, loginAs } from '../test/helpers';
+
+describe('dashboard.getActivities', () => {
+  it('shows recorded events of other users to admins only', async () => {
+    const viewer = await createTestUser({ name: 'Feed Viewer' });
+    await createTestUser({ name: 'Feed Admin', roleId: 'role-admin' });
+    await recordActivity({
+      user: 'victim@example.com',
+      action: 'Account Locked',
+      target: '5 failed login attempts from 198.51.100.7',
+    });
+    await recordActivity({
+      user: viewer.name,
+      userId: viewer.id,
+      action: 'Passkey Rejected',
+      target: 'Laptop (Invalid assertion signature)',
+    });
+
+    const admin = await createBearerCaller((await loginAs('feed.admin@example.com')).token);
+    const { data: all } = await admin.dashboard.getActivities({ limit: 20 });
+    expect(all.map((activity) => activity.action)).toEqual(
+      expect.arrayContaining(['Account Locked', 'Passkey Rejected'])
+    );
+
+    const own = await createBearerCaller((await loginAs(viewer.email)).token);
+    const { data } = await own.dashboard.getActivities({ limit: 20 });
+    expect(data.filter((activity) => activity.action === 'Account Locked')).toEqual([]);
+    expect(data[0]).toMatchObject({ userId: viewer.id, action: 'Passkey Rejected' });
+  });
+});
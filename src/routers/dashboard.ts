@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { router, protectedProcedure } from '../trpc';
+import { activityLogStore } from '../services';
 
 /**
  * Dashboard router
@@ -36,12 +37,13 @@ export const dashboardRouter = router({
     .input(
       z
         .object({
-          days: z.number().min(1).max(90).default(30),
+          days: z.number().min(1).max(90).optional(),
         })
         .optional()
     )
-    .query(async ({ input }) => {
-      const { days = 30 } = input || {};
+    .query(async ({ input, ctx }) => {
+      // Defaults to the range chosen in the user's preferences
+      const days = input?.days ?? ctx.user.preferences.dashboardRangeDays;
 
       // TODO: Replace with actual database query
       const mockVisits = Array.from({ length: days }, (_, i) => {
@@ -170,6 +172,8 @@ export const dashboardRouter = router({
 
   /**
    * Get user activities
+   * Recorded events name other users' emails and IP addresses, so only admins see all of
+   * them; other users see their own
    */
   getActivities: protectedProcedure
     .input(
@@ -179,12 +183,18 @@ export const dashboardRouter = router({
         })
         .optional()
     )
-    .query(async ({ input }) => {
+    .query(async ({ input, ctx }) => {
       const { limit = 20 } = input || {};
 
+      // Recorded security events (lockouts, unlocks) come first
+      const recorded =
+        ctx.user.role.name === 'admin'
+          ? await activityLogStore.listRecent(limit)
+          : await activityLogStore.listByUser(ctx.user.id, limit);
+
       // TODO: Replace with actual database query
       const actions = ['Login', 'Create Order', 'Update Profile', 'Upload File', 'Comment', 'Share'];
-      const mockActivities = Array.from({ length: limit }, (_, i) => ({
+      const mockActivities = Array.from({ length: limit - recorded.length }, (_, i) => ({
         id: `activity-${i}`,
         user: `User ${i + 1}`,
         avatar: `https://api.dicebear.com/7.x/avataaars/svg?seed=${i}`,
@@ -196,7 +206,7 @@ export const dashboardRouter = router({
       return {
         code: 200,
         message: 'success',
-        data: mockActivities,
+        data: [...recorded, ...mockActivities],
       };
     }),
 
@@ -0,0 +1,141 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { setUserStatus } from '../services';
+import { createBearerCaller, createTestUser, loginAs } from '../test/helpers';
+
+type Caller = Awaited<ReturnType<typeof createBearerCaller>>;
+
+/**
+ * Engineering (head: CTO, member: Director) > Platform (head: Platform Lead, members: everyone else)
+ * Developer reports to Team Lead, who reports to Director; New Hire has no manager
+ */
+async function createOrg(admin: Caller) {
+  const [cto, platformLead, director, teamLead, developer, newHire] = await Promise.all(
+    [
+      'Org Cto',
+      'Org Platform Lead',
+      'Org Director',
+      'Org Team Lead',
+      'Org Developer',
+      'Org New Hire',
+    ].map((name) => createTestUser({ name }))
+  );
+
+  const { data: engineering } = await admin.departments.create({
+    name: 'Engineering',
+    headId: cto.id,
+  });
+  const { data: platform } = await admin.departments.create({
+    name: 'Platform',
+    parentId: engineering.id,
+    headId: platformLead.id,
+  });
+
+  for (const user of [platformLead, developer, teamLead, newHire]) {
+    await admin.users.updateDepartment({ id: user.id, departmentId: platform.id });
+  }
+  await admin.users.updateDepartment({ id: director.id, departmentId: engineering.id });
+  await admin.users.updateManager({ id: teamLead.id, managerId: director.id });
+  await admin.users.updateManager({ id: developer.id, managerId: teamLead.id });
+
+  return { engineering, platform, cto, platformLead, director, teamLead, developer, newHire };
+}
+
+describe('departments', () => {
+  let admin: Caller;
+  let org: Awaited<ReturnType<typeof createOrg>>;
+
+  beforeAll(async () => {
+    await createTestUser({ name: 'Org Admin', roleId: 'role-admin' });
+    admin = await createBearerCaller((await loginAs('org.admin@example.com')).token);
+    org = await createOrg(admin);
+  });
+
+  const ids = (users: Array<{ id: string }>) => users.map((user) => user.id);
+
+  describe('getApprovers', () => {
+    it('follows the management chain, nearest first', async () => {
+      const { data } = await admin.departments.getApprovers({
+        userId: org.developer.id,
+        levels: 2,
+      });
+      expect(ids(data)).toEqual([org.teamLead.id, org.director.id]);
+
+      const { data: nearest } = await admin.departments.getApprovers({
+        userId: org.developer.id,
+      });
+      expect(ids(nearest)).toEqual([org.teamLead.id]);
+    });
+
+    it('falls back to department heads up the tree when the chain is too short', async () => {
+      const { data } = await admin.departments.getApprovers({
+        userId: org.developer.id,
+        levels: 4,
+      });
+      expect(ids(data)).toEqual([
+        org.teamLead.id,
+        org.director.id,
+        org.platformLead.id,
+        org.cto.id,
+      ]);
+
+      const { data: withoutManager } = await admin.departments.getApprovers({
+        userId: org.newHire.id,
+        levels: 3,
+      });
+      expect(ids(withoutManager)).toEqual([org.platformLead.id, org.cto.id]);
+    });
+
+    it('skips suspended approvers and never returns the user themselves', async () => {
+      const { data } = await admin.departments.getApprovers({
+        userId: org.platformLead.id,
+        levels: 2,
+      });
+      expect(ids(data)).toEqual([org.cto.id]);
+
+      await setUserStatus(org.director.id, 'suspended');
+      try {
+        const { data: skipped } = await admin.departments.getApprovers({
+          userId: org.teamLead.id,
+          levels: 2,
+        });
+        expect(ids(skipped)).toEqual([org.platformLead.id, org.cto.id]);
+      } finally {
+        await setUserStatus(org.director.id, 'active');
+      }
+    });
+
+    it('returns NOT_FOUND for an unknown user', async () => {
+      await expect(admin.departments.getApprovers({ userId: 'missing' })).rejects.toMatchObject({
+        code: 'NOT_FOUND',
+      });
+    });
+  });
+
+  it('includes subdepartments by default in getMembers and users.list alike', async () => {
+    const engineeringIds = [
+      org.director,
+      org.platformLead,
+      org.teamLead,
+      org.developer,
+      org.newHire,
+    ].map((user) => user.id);
+
+    const { data: members } = await admin.departments.getMembers({
+      departmentId: org.engineering.id,
+    });
+    const { data: listed } = await admin.users.list({ departmentId: org.engineering.id });
+    expect(ids(members.list).sort()).toEqual([...engineeringIds].sort());
+    expect(ids(listed.list).sort()).toEqual([...engineeringIds].sort());
+
+    const { data: direct } = await admin.departments.getMembers({
+      departmentId: org.engineering.id,
+      includeSubDepartments: false,
+    });
+    const { data: directListed } = await admin.users.list({
+      departmentId: org.engineering.id,
+      includeSubDepartments: false,
+    });
+    expect(ids(direct.list)).toEqual([org.director.id]);
+    expect(ids(directListed.list)).toEqual([org.director.id]);
+  });
+});
@@ -0,0 +1,371 @@
+import { z } from 'zod';
+import { router, protectedProcedure, adminProcedure } from '../trpc';
+import { TRPCError } from '@trpc/server';
+import {
+  departmentStore,
+  getDepartmentPath,
+  getDepartmentSubtreeIds,
+  wouldCreateDepartmentCycle,
+  getUserRepository,
+  getApprovers,
+  toUserView,
+  DepartmentRecord,
+} from '../services';
+
+/**
+ * Department with its head and direct member count, as returned to clients
+ */
+interface DepartmentSummary extends DepartmentRecord {
+  head: { id: string; name: string; email: string } | null;
+  memberCount: number;
+}
+
+/**
+ * Department tree node
+ */
+interface DepartmentTreeNode extends DepartmentSummary {
+  children: DepartmentTreeNode[];
+}
+
+/**
+ * Load a department or throw NOT_FOUND
+ */
+async function findDepartment(id: string): Promise<DepartmentRecord> {
+  const department = await departmentStore.findById(id);
+  if (!department) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: `Department with ID ${id} not found`,
+    });
+  }
+  return department;
+}
+
+/**
+ * Department names are unique among siblings (case-insensitive)
+ */
+async function assertUniqueName(name: string, parentId?: string, excludeId?: string) {
+  const siblings = (await departmentStore.list()).filter(
+    (d) => d.parentId === parentId && d.id !== excludeId
+  );
+  if (siblings.some((d) => d.name.toLowerCase() === name.toLowerCase())) {
+    throw new TRPCError({
+      code: 'CONFLICT',
+      message: `Department "${name}" already exists at this level`,
+    });
+  }
+}
+
+/**
+ * Check a new parent exists and is not the department itself or one of its subdepartments
+ */
+async function assertValidParent(parentId: string, departmentId?: string) {
+  if (!(await departmentStore.findById(parentId))) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Parent department ${parentId} does not exist`,
+    });
+  }
+  if (departmentId && (await wouldCreateDepartmentCycle(departmentId, parentId))) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'A department cannot be moved under itself or one of its subdepartments',
+    });
+  }
+}
+
+/**
+ * Check a department head is an existing user
+ */
+async function assertHeadExists(headId: string) {
+  if (!(await getUserRepository().findById(headId))) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `User ${headId} does not exist`,
+    });
+  }
+}
+
+/**
+ * Build client summaries for departments from the current users (heads and member counts)
+ */
+async function summarize(departments: DepartmentRecord[]): Promise<DepartmentSummary[]> {
+  const users = await getUserRepository().list();
+  const usersById = new Map(users.map((user) => [user.id, user]));
+  const memberCounts = new Map<string, number>();
+  for (const user of users) {
+    if (user.departmentId) {
+      memberCounts.set(user.departmentId, (memberCounts.get(user.departmentId) ?? 0) + 1);
+    }
+  }
+
+  return departments.map((department) => {
+    const head = department.headId ? usersById.get(department.headId) : undefined;
+    return {
+      ...department,
+      head: head ? { id: head.id, name: head.name, email: head.email } : null,
+      memberCount: memberCounts.get(department.id) ?? 0,
+    };
+  });
+}
+
+const byName = (a: { name: string }, b: { name: string }) =>
+  a.name.localeCompare(b.name, undefined, { sensitivity: 'base', numeric: true });
+
+/**
+ * Departments router
+ * Departments form a tree (parentId); users belong to one through departmentId
+ */
+export const departmentsRouter = router({
+  /**
+   * List departments (flat) with pagination and search
+   */
+  list: protectedProcedure
+    .input(
+      z
+        .object({
+          page: z.number().int().min(1).default(1),
+          limit: z.number().int().min(1).max(100).default(20),
+          search: z.string().optional(),
+          parentId: z.string().optional(),
+        })
+        .optional()
+    )
+    .query(async ({ input }) => {
+      const { page = 1, limit = 20, search, parentId } = input || {};
+      const searchLower = search?.trim().toLowerCase();
+
+      const departments = (await departmentStore.list())
+        .filter(
+          (d) =>
+            (!parentId || d.parentId === parentId) &&
+            (!searchLower ||
+              d.name.toLowerCase().includes(searchLower) ||
+              d.description?.toLowerCase().includes(searchLower))
+        )
+        .sort(byName);
+
+      const total = departments.length;
+      const start = (page - 1) * limit;
+
+      return {
+        code: 200,
+        message: 'success',
+        data: {
+          list: await summarize(departments.slice(start, start + limit)),
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit),
+        },
+      };
+    }),
+
+  /**
+   * Get the whole department tree, top-level departments first, children sorted by name
+   */
+  getTree: protectedProcedure.query(async () => {
+    const summaries = await summarize(await departmentStore.list());
+    const nodes = new Map<string, DepartmentTreeNode>(
+      summaries.map((summary) => [summary.id, { ...summary, children: [] }])
+    );
+
+    const roots: DepartmentTreeNode[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+      (parent ? parent.children : roots).push(node);
+    }
+
+    const sortTree = (list: DepartmentTreeNode[]) => {
+      list.sort(byName).forEach((node) => sortTree(node.children));
+    };
+    sortTree(roots);
+
+    return {
+      code: 200,
+      message: 'success',
+      data: roots,
+    };
+  }),
+
+  /**
+   * Get a department with its head and path from the top of the tree
+   */
+  getById: protectedProcedure.input(z.object({ id: z.string() })).query(async ({ input }) => {
+    const department = await findDepartment(input.id);
+    const [summary] = await summarize([department]);
+    const path = (await getDepartmentPath(department.id))
+      .reverse()
+      .map(({ id, name }) => ({ id, name }));
+
+    return {
+      code: 200,
+      message: 'success',
+      data: { ...summary, path },
+    };
+  }),
+
+  /**
+   * Create a department (Admin only)
+   */
+  create: adminProcedure
+    .input(
+      z.object({
+        name: z.string().trim().min(1, 'Name is required'),
+        description: z.string().optional(),
+        parentId: z.string().optional(),
+        headId: z.string().optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      if (input.parentId) await assertValidParent(input.parentId);
+      if (input.headId) await assertHeadExists(input.headId);
+      await assertUniqueName(input.name, input.parentId);
+
+      const created = await departmentStore.create(input);
+      const [summary] = await summarize([created]);
+
+      return {
+        code: 200,
+        message: 'Department created successfully',
+        data: summary,
+      };
+    }),
+
+  /**
+   * Update a department (Admin only)
+   * parentId or headId set to null moves the department to the top level or removes its head
+   */
+  update: adminProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        name: z.string().trim().min(1, 'Name is required').optional(),
+        description: z.string().optional(),
+        parentId: z.string().nullable().optional(),
+        headId: z.string().nullable().optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const { id, parentId, headId, ...updates } = input;
+      const existing = await findDepartment(id);
+
+      if (parentId) await assertValidParent(parentId, id);
+      if (headId) await assertHeadExists(headId);
+
+      const newParentId = parentId === undefined ? existing.parentId : (parentId ?? undefined);
+      if (updates.name !== undefined || parentId !== undefined) {
+        await assertUniqueName(updates.name ?? existing.name, newParentId, id);
+      }
+
+      const updated = await departmentStore.update(id, {
+        ...updates,
+        ...(parentId !== undefined ? { parentId: parentId ?? undefined } : {}),
+        ...(headId !== undefined ? { headId: headId ?? undefined } : {}),
+      });
+      const [summary] = await summarize([updated ?? existing]);
+
+      return {
+        code: 200,
+        message: 'Department updated successfully',
+        data: summary,
+      };
+    }),
+
+  /**
+   * Delete a department (Admin only)
+   * Only departments without subdepartments or members can be deleted
+   */
+  delete: adminProcedure.input(z.object({ id: z.string() })).mutation(async ({ input }) => {
+    await findDepartment(input.id);
+
+    if ((await departmentStore.list()).some((d) => d.parentId === input.id)) {
+      throw new TRPCError({
+        code: 'CONFLICT',
+        message: 'Move or delete the subdepartments first',
+      });
+    }
+    if ((await getUserRepository().list()).some((u) => u.departmentId === input.id)) {
+      throw new TRPCError({
+        code: 'CONFLICT',
+        message: 'Move the department members to another department first',
+      });
+    }
+
+    await departmentStore.delete(input.id);
+
+    return {
+      code: 200,
+      message: 'Department deleted successfully',
+      data: { id: input.id, deleted: true },
+    };
+  }),
+
+  /**
+   * List the members of a department, including its subdepartments unless
+   * includeSubDepartments is false (same default as the users.list filter)
+   */
+  getMembers: protectedProcedure
+    .input(
+      z.object({
+        departmentId: z.string(),
+        includeSubDepartments: z.boolean().default(true),
+        page: z.number().int().min(1).default(1),
+        limit: z.number().int().min(1).max(100).default(20),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      const { departmentId, includeSubDepartments, page, limit } = input;
+      await findDepartment(departmentId);
+
+      const departmentIds = includeSubDepartments
+        ? await getDepartmentSubtreeIds(departmentId)
+        : new Set([departmentId]);
+      const members = (await getUserRepository().list())
+        .filter((user) => user.departmentId && departmentIds.has(user.departmentId))
+        .sort(byName);
+
+      const total = members.length;
+      const start = (page - 1) * limit;
+
+      return {
+        code: 200,
+        message: 'success',
+        data: {
+          departmentId,
+          list: members.slice(start, start + limit).map((record) => toUserView(record, ctx.user)),
+          total,
+          page,
+          limit,
+        },
+      };
+    }),
+
+  /**
+   * Approvers for a request raised by a user, nearest first
+   * Managers up the reporting chain, then department heads up the tree when there are too few
+   */
+  getApprovers: protectedProcedure
+    .input(
+      z.object({
+        userId: z.string(),
+        levels: z.number().int().min(1).max(10).default(1),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      if (!(await getUserRepository().findById(input.userId))) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `User with ID ${input.userId} not found`,
+        });
+      }
+
+      const approvers = await getApprovers(input.userId, input.levels);
+
+      return {
+        code: 200,
+        message: 'success',
+        data: approvers.map((record) => toUserView(record, ctx.user)),
+      };
+    }),
+});
@@ -5,6 +5,7 @@ import { dashboardRouter } from './dashboard';
 import { permissionsRouter } from './permissions';
 import { rolesRouter } from './roles';
 import { teamsRouter } from './teams';
+import { departmentsRouter } from './departments';
 import { foldersRouter } from './folders';
 import { filesRouter } from './files';
 import { documentsRouter } from './documents';
@@ -23,6 +24,7 @@ import { messagesRouter } from './messages';
  * - permissions: Permission management
  * - roles: Role management
  * - teams: Team management
+ * - departments: Department tree and heads
  * - folders: Folder management
  * - files: File management
  * - documents: Document management
@@ -37,6 +39,7 @@ export const appRouter = router({
   permissions: permissionsRouter,
   roles: rolesRouter,
   teams: teamsRouter,
+  departments: departmentsRouter,
   folders: foldersRouter,
   files: filesRouter,
   documents: documentsRouter,
@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { router, protectedProcedure } from '../trpc';
 import { TRPCError } from '@trpc/server';
+import { getDeletedUserIds } from '../services';
 
 /**
  * Conversation participant schema
@@ -163,6 +164,19 @@ const mockMessages: Record<string, Message[]> = {
   ],
 };
 
+/**
+ * Hide deleted users from a conversation's participants
+ */
+function withoutDeletedParticipants(
+  conversation: Conversation,
+  deletedUserIds: Set<string>
+): Conversation {
+  return {
+    ...conversation,
+    participants: conversation.participants.filter((p) => !deletedUserIds.has(p.userId)),
+  };
+}
+
 /**
  * Messages router
  */
@@ -182,7 +196,8 @@ export const messagesRouter = router({
     )
     .query(async ({ input }) => {
       const { page = 1, limit = 20, search } = input || {};
-      let data = [...mockConversations];
+      const deletedUserIds = await getDeletedUserIds();
+      let data = mockConversations.map((c) => withoutDeletedParticipants(c, deletedUserIds));
 
       if (search) {
         const searchLower = search.toLowerCase();
@@ -236,7 +251,7 @@ export const messagesRouter = router({
       return {
         code: 200,
         message: 'success',
-        data: conversation,
+        data: withoutDeletedParticipants(conversation, await getDeletedUserIds()),
       };
     }),
 
@@ -484,6 +499,14 @@ export const messagesRouter = router({
       const { title, type, participantIds } = input;
       const now = new Date().toISOString();
 
+      const deletedUserIds = await getDeletedUserIds();
+      if (participantIds.some((userId) => deletedUserIds.has(userId))) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Deleted users cannot be added to a conversation',
+        });
+      }
+
       // Add current user to participants
       const allParticipantIds = [...new Set([ctx.user?.id || 'unknown', ...participantIds])];
 
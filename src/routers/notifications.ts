@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { router, protectedProcedure } from '../trpc';
 import { TRPCError } from '@trpc/server';
+import { isNotificationEnabled } from '../services';
 
 /**
  * Notification schema
@@ -79,7 +80,7 @@ const mockNotifications: Notification[] = [
  */
 export const notificationsRouter = router({
   /**
-   * List notifications with pagination
+   * List notifications with pagination (types the user turned off for in-app delivery are hidden)
    */
   list: protectedProcedure
     .input(
@@ -92,9 +93,11 @@ export const notificationsRouter = router({
         })
         .optional()
     )
-    .query(async ({ input }) => {
+    .query(async ({ input, ctx }) => {
       const { page = 1, limit = 20, unreadOnly, type } = input || {};
-      let data = [...mockNotifications];
+      let data = mockNotifications.filter((n) =>
+        isNotificationEnabled(ctx.user.preferences, 'inApp', n.type)
+      );
 
       if (unreadOnly) {
         data = data.filter((n) => !n.read);
@@ -127,8 +130,10 @@ export const notificationsRouter = router({
   /**
    * Get unread notification count
    */
-  getUnreadCount: protectedProcedure.query(async () => {
-    const count = mockNotifications.filter((n) => !n.read).length;
+  getUnreadCount: protectedProcedure.query(async ({ ctx }) => {
+    const count = mockNotifications.filter(
+      (n) => !n.read && isNotificationEnabled(ctx.user.preferences, 'inApp', n.type)
+    ).length;
 
     return {
       code: 200,
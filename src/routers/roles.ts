@@ -1,68 +1,10 @@
 import { z } from 'zod';
 import { router, protectedProcedure, adminProcedure } from '../trpc';
 import { TRPCError } from '@trpc/server';
+import { roleStore, invalidateRoleCache, Role } from '../services';
 
-/**
- * Role schema
- */
-export const roleSchema = z.object({
-  id: z.string(),
-  name: z.string(),
-  label: z.string(),
-  description: z.string().optional(),
-  permissions: z.array(z.string()),
-  isSystem: z.boolean().optional(),
-  createdAt: z.string(),
-  updatedAt: z.string(),
-});
-
-export type Role = z.infer<typeof roleSchema>;
-
-/**
- * Mock roles data
- */
-const mockRoles: Role[] = [
-  {
-    id: 'role-admin',
-    name: 'admin',
-    label: 'Super Admin',
-    description: 'Full access to all modules and actions',
-    permissions: ['*'],
-    isSystem: true,
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-  },
-  {
-    id: 'role-editor',
-    name: 'editor',
-    label: 'Editor',
-    description: 'Can manage content and view users',
-    permissions: ['dashboard:view', 'users:view', 'documents:*', 'files:*'],
-    isSystem: false,
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-  },
-  {
-    id: 'role-viewer',
-    name: 'viewer',
-    label: 'Viewer',
-    description: 'Read-only access to dashboard and documents',
-    permissions: ['dashboard:view', 'documents:view', 'files:view'],
-    isSystem: false,
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-  },
-  {
-    id: 'role-manager',
-    name: 'manager',
-    label: 'Manager',
-    description: 'Can manage teams and users',
-    permissions: ['dashboard:view', 'users:*', 'teams:*', 'documents:view'],
-    isSystem: false,
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-  },
-];
+export { roleSchema } from '../services';
+export type { Role } from '../services';
 
 /**
  * Roles router
@@ -83,7 +25,7 @@ export const rolesRouter = router({
     )
     .query(async ({ input }) => {
       const { page = 1, limit = 10, search } = input || {};
-      let data = [...mockRoles];
+      let data = roleStore.list();
 
       if (search) {
         const searchLower = search.toLowerCase();
@@ -118,7 +60,7 @@ export const rolesRouter = router({
   getById: protectedProcedure
     .input(z.object({ id: z.string() }))
     .query(async ({ input }) => {
-      const item = mockRoles.find((r) => r.id === input.id);
+      const item = roleStore.findById(input.id);
 
       if (!item) {
         throw new TRPCError({
@@ -140,7 +82,7 @@ export const rolesRouter = router({
   getByName: protectedProcedure
     .input(z.object({ name: z.string() }))
     .query(async ({ input }) => {
-      const item = mockRoles.find((r) => r.name === input.name);
+      const item = roleStore.findByName(input.name);
 
       if (!item) {
         throw new TRPCError({
@@ -170,7 +112,7 @@ export const rolesRouter = router({
     )
     .mutation(async ({ input }) => {
       // Check for duplicate name
-      const existing = mockRoles.find((r) => r.name === input.name);
+      const existing = roleStore.findByName(input.name);
       if (existing) {
         throw new TRPCError({
           code: 'BAD_REQUEST',
@@ -191,7 +133,8 @@ export const rolesRouter = router({
       };
 
       // TODO: Save to database
-      mockRoles.push(created);
+      roleStore.insert(created);
+      invalidateRoleCache();
 
       return {
         code: 200,
@@ -214,17 +157,15 @@ export const rolesRouter = router({
     )
     .mutation(async ({ input }) => {
       const { id, ...updates } = input;
-      const existingIndex = mockRoles.findIndex((r) => r.id === id);
+      const existing = roleStore.findById(id);
 
-      if (existingIndex === -1) {
+      if (!existing) {
         throw new TRPCError({
           code: 'NOT_FOUND',
           message: `Role with ID ${id} not found`,
         });
       }
 
-      const existing = mockRoles[existingIndex];
-
       // Prevent modifying system roles' core properties
       if (existing.isSystem && updates.permissions) {
         throw new TRPCError({
@@ -240,7 +181,8 @@ export const rolesRouter = router({
       };
 
       // TODO: Update in database
-      mockRoles[existingIndex] = updated;
+      roleStore.replace(updated);
+      invalidateRoleCache();
 
       return {
         code: 200,
@@ -255,17 +197,15 @@ export const rolesRouter = router({
   delete: adminProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ input }) => {
-      const existingIndex = mockRoles.findIndex((r) => r.id === input.id);
+      const role = roleStore.findById(input.id);
 
-      if (existingIndex === -1) {
+      if (!role) {
         throw new TRPCError({
           code: 'NOT_FOUND',
           message: `Role with ID ${input.id} not found`,
         });
       }
 
-      const role = mockRoles[existingIndex];
-
       // Prevent deleting system roles
       if (role.isSystem) {
         throw new TRPCError({
@@ -276,7 +216,8 @@ export const rolesRouter = router({
 
       // TODO: Check if role is assigned to any users before deletion
       // TODO: Delete from database
-      mockRoles.splice(existingIndex, 1);
+      roleStore.remove(input.id);
+      invalidateRoleCache();
 
       return {
         code: 200,
@@ -297,17 +238,15 @@ export const rolesRouter = router({
     )
     .mutation(async ({ input }) => {
       const { id, permissions } = input;
-      const existingIndex = mockRoles.findIndex((r) => r.id === id);
+      const existing = roleStore.findById(id);
 
-      if (existingIndex === -1) {
+      if (!existing) {
         throw new TRPCError({
           code: 'NOT_FOUND',
           message: `Role with ID ${id} not found`,
         });
       }
 
-      const existing = mockRoles[existingIndex];
-
       // Prevent modifying system roles
       if (existing.isSystem) {
         throw new TRPCError({
@@ -323,7 +262,8 @@ export const rolesRouter = router({
       };
 
       // TODO: Update in database
-      mockRoles[existingIndex] = updated;
+      roleStore.replace(updated);
+      invalidateRoleCache();
 
       return {
         code: 200,
@@ -339,7 +279,7 @@ export const rolesRouter = router({
     return {
       code: 200,
       message: 'success',
-      data: mockRoles.map((r) => ({
+      data: roleStore.list().map((r) => ({
         id: r.id,
         name: r.name,
         label: r.label,
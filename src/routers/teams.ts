@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { router, protectedProcedure, adminProcedure } from '../trpc';
 import { TRPCError } from '@trpc/server';
+import { getDeletedUserIds } from '../services';
 
 /**
  * Team schema
@@ -89,6 +90,39 @@ const mockMembers: Record<string, TeamMember[]> = {
   })),
 };
 
+/**
+ * Whether a team exists
+ */
+export function teamExists(teamId: string): boolean {
+  return mockTeams.some((t) => t.id === teamId);
+}
+
+/**
+ * Add a user to a team and update its member count
+ * Returns null if the team does not exist or the user is already a member
+ */
+export function addTeamMember(
+  teamId: string,
+  user: Pick<TeamMember, 'userId' | 'name' | 'email' | 'avatar'>,
+  role: TeamMember['role'] = 'member'
+): TeamMember | null {
+  const team = mockTeams.find((t) => t.id === teamId);
+  const members = (mockMembers[teamId] ??= []);
+  if (!team || members.some((m) => m.userId === user.userId)) {
+    return null;
+  }
+
+  const member: TeamMember = {
+    id: `member-${Date.now()}-${members.length}`,
+    ...user,
+    role,
+    joinedAt: new Date().toISOString(),
+  };
+  members.push(member);
+  team.memberCount++;
+  return member;
+}
+
 /**
  * Teams router
  */
@@ -298,7 +332,9 @@ export const teamsRouter = router({
         });
       }
 
-      const members = mockMembers[teamId] || [];
+      // Deleted users stay in the team until purged but are not listed
+      const deletedUserIds = await getDeletedUserIds();
+      const members = (mockMembers[teamId] || []).filter((m) => !deletedUserIds.has(m.userId));
       const total = members.length;
       const start = (page - 1) * limit;
       const list = members.slice(start, start + limit);
@@ -348,25 +384,11 @@ export const teamsRouter = router({
         });
       }
 
-      const newMember: TeamMember = {
-        id: `member-${Date.now()}`,
-        userId,
-        name: `User ${userId}`,
-        email: `${userId}@example.com`,
-        role,
-        joinedAt: new Date().toISOString(),
-      };
-
-      if (!mockMembers[teamId]) {
-        mockMembers[teamId] = [];
-      }
-      mockMembers[teamId].push(newMember);
-
-      // Update member count
-      const teamIndex = mockTeams.findIndex((t) => t.id === teamId);
-      if (teamIndex !== -1) {
-        mockTeams[teamIndex].memberCount++;
-      }
+      const newMember = addTeamMember(
+        teamId,
+        { userId, name: `User ${userId}`, email: `${userId}@example.com` },
+        role
+      );
 
       return {
         code: 200,
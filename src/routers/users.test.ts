@@ -0,0 +1,213 @@
+import { once } from 'events';
+import type { AddressInfo } from 'net';
+import { describe, expect, it } from 'vitest';
+import { createServer } from '../server';
+import { activityLogStore, DEFAULT_USER_PREFERENCES, MAX_CSV_IMPORT_BYTES } from '../services';
+import { createBearerCaller, createTestUser, loginAs } from '../test/helpers';
+
+const ADMIN_ONLY_FIELDS = ['pendingEmail', 'ssoIdentities', 'reactivateAt', 'deletedBy'];
+
+describe('user profiles', () => {
+  async function createManagedUser(name: string) {
+    return createTestUser({
+      name,
+      pendingEmail: 'managed.new@example.com',
+      ssoIdentities: [{ issuer: 'https://idp.example.com', subject: 'managed-sub' }],
+      reactivateAt: '2099-01-01T00:00:00.000Z',
+    });
+  }
+
+  it('hides account administration details from other users', async () => {
+    const target = await createManagedUser('Managed Profile');
+    await createTestUser({ name: 'Curious Viewer' });
+    const viewer = await createBearerCaller((await loginAs('curious.viewer@example.com')).token);
+
+    const { data: profile } = await viewer.users.getById({ id: target.id });
+    const { data: page } = await viewer.users.list({ search: 'Managed Profile' });
+
+    for (const user of [profile, page.list.find((entry) => entry.id === target.id)]) {
+      expect(user).toMatchObject({ id: target.id, email: target.email });
+      for (const field of ADMIN_ONLY_FIELDS) expect(user).not.toHaveProperty(field);
+    }
+  });
+
+  it('shows them to admins and to the user themselves', async () => {
+    const target = await createManagedUser('Managed Self');
+    await createTestUser({ name: 'Profile Admin', roleId: 'role-admin' });
+    const admin = await createBearerCaller((await loginAs('profile.admin@example.com')).token);
+    const self = await createBearerCaller((await loginAs(target.email)).token);
+
+    for (const caller of [admin, self]) {
+      const { data } = await caller.users.getById({ id: target.id });
+      expect(data).toMatchObject({
+        pendingEmail: 'managed.new@example.com',
+        ssoIdentities: [{ issuer: 'https://idp.example.com', subject: 'managed-sub' }],
+        reactivateAt: '2099-01-01T00:00:00.000Z',
+      });
+      expect(data).not.toHaveProperty('passwordHash');
+    }
+  });
+});
+
+describe('preferences', () => {
+  /**
+   * Sign in and return a factory for fresh callers, so each call sees the stored preferences
+   */
+  async function signedIn(name: string) {
+    const user = await createTestUser({ name });
+    const { token } = await loginAs(user.email);
+    return () => createBearerCaller(token);
+  }
+
+  it('starts from the defaults and merges partial updates', async () => {
+    const me = await signedIn('Preferences User');
+    expect((await (await me()).users.getPreferences()).data).toEqual(DEFAULT_USER_PREFERENCES);
+
+    await (await me()).users.updatePreferences({ theme: 'dark', timezone: 'Asia/Shanghai' });
+    const { data } = await (
+      await me()
+    ).users.updatePreferences({
+      notifications: { push: { enabled: true } },
+    });
+
+    expect(data).toEqual({
+      ...DEFAULT_USER_PREFERENCES,
+      theme: 'dark',
+      timezone: 'Asia/Shanghai',
+      notifications: {
+        ...DEFAULT_USER_PREFERENCES.notifications,
+        push: { ...DEFAULT_USER_PREFERENCES.notifications.push, enabled: true },
+      },
+    });
+    expect((await (await me()).users.getPreferences()).data).toEqual(data);
+  });
+
+  it('rejects unknown locales, time zones and out-of-range values', async () => {
+    const me = await signedIn('Invalid Preferences');
+
+    for (const update of [
+      { locale: 'not a locale' },
+      { timezone: 'Mars/Olympus_Mons' },
+      { dashboardRangeDays: 365 },
+    ]) {
+      await expect((await me()).users.updatePreferences(update)).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+      });
+    }
+    expect((await (await me()).users.getPreferences()).data).toEqual(DEFAULT_USER_PREFERENCES);
+  });
+
+  it('apply to the dashboard range and in-app notifications', async () => {
+    const me = await signedIn('Applied Preferences');
+    await (
+      await me()
+    ).users.updatePreferences({
+      dashboardRangeDays: 7,
+      notifications: { inApp: { types: ['warning'] } },
+    });
+
+    expect((await (await me()).dashboard.getVisits()).data).toHaveLength(7);
+    expect((await (await me()).dashboard.getVisits({ days: 14 })).data).toHaveLength(14);
+    const { data } = await (await me()).notifications.list({ limit: 100 });
+    expect(data.list.length).toBeGreaterThan(0);
+    expect(data.list.every((notification) => notification.type === 'warning')).toBe(true);
+    expect((await (await me()).notifications.getUnreadCount()).data).toEqual({
+      count: data.list.filter((notification) => !notification.read).length,
+    });
+  });
+});
+
+describe('users.importCsv', () => {
+  async function adminCaller(name: string) {
+    const admin = await createTestUser({ name, roleId: 'role-admin' });
+    return { admin, caller: await createBearerCaller((await loginAs(admin.email)).token) };
+  }
+
+  it('signs out users whose status an upsert changes, and audits the change', async () => {
+    const { admin, caller } = await adminCaller('Import Admin');
+    const target = await createTestUser({ name: 'Imported Status' });
+    const { token } = await loginAs(target.email);
+
+    const { data } = await caller.users.importCsv({
+      csv: `name,email,status\nImported Status,${target.email},suspended\n`,
+      onExisting: 'upsert',
+    });
+
+    expect(data).toMatchObject({ updated: 1, failed: 0 });
+    await expect((await createBearerCaller(token)).auth.getCurrentUser()).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+    });
+    expect(await activityLogStore.listRecent(10)).toContainEqual(
+      expect.objectContaining({
+        userId: admin.id,
+        action: 'Updated User Status',
+        target: `${target.email} (suspended)`,
+      })
+    );
+  });
+
+  it('accepts a CSV up to the import limit over HTTP', async () => {
+    process.env.LOG_LEVEL = 'silent';
+    const { admin } = await adminCaller('Http Import Admin');
+    const { token } = await loginAs(admin.email);
+    const server = createServer().app.listen(0, '127.0.0.1');
+    await once(server, 'listening');
+
+    try {
+      // About 1 MB of quoted cells, well over express.json's 100 kB default
+      const rows = Array.from(
+        { length: 2000 },
+        (_, i) => `"Row ${i}",row.${i}@example.com,"${'x'.repeat(500)}"`
+      );
+      const response = await fetch(
+        `http://127.0.0.1:${(server.address() as AddressInfo).port}/trpc/users.importCsv`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+          body: JSON.stringify({
+            json: { csv: ['name,email,position', ...rows].join('\n'), dryRun: true },
+          }),
+        }
+      );
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { result: { data: { json: { data: object } } } };
+      expect(body.result.data.json.data).toMatchObject({ dryRun: true, created: 2000, failed: 0 });
+    } finally {
+      server.close();
+    }
+  });
+
+  it('keeps the default body limit for every other procedure', async () => {
+    process.env.LOG_LEVEL = 'silent';
+    const server = createServer().app.listen(0, '127.0.0.1');
+    await once(server, 'listening');
+
+    try {
+      const response = await fetch(
+        `http://127.0.0.1:${(server.address() as AddressInfo).port}/trpc/auth.login`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            json: { email: 'nobody@example.com', password: 'x'.repeat(200 * 1024) },
+          }),
+        }
+      );
+      expect(response.status).toBe(413);
+    } finally {
+      server.close();
+    }
+  });
+
+  it('rejects a CSV over the limit', async () => {
+    const { caller } = await adminCaller('Large Import Admin');
+
+    await expect(
+      caller.users.importCsv({ csv: `name,email\n${'é'.repeat(MAX_CSV_IMPORT_BYTES / 2)}` })
+    ).rejects.toMatchObject({
+      code: 'BAD_REQUEST',
+      message: expect.stringContaining('CSV is too large'),
+    });
+  });
+});
@@ -1,6 +1,345 @@
 import { z } from 'zod';
 import { router, protectedProcedure, adminProcedure } from '../trpc';
 import { TRPCError } from '@trpc/server';
+import {
+  getUserRepository,
+  assertPasswordAllowed,
+  buildPasswordUpdate,
+  roleStore,
+  toAdminUser,
+  toUserView,
+  unlockLogin,
+  recordActivity,
+  requestEmailVerification,
+  checkPassword,
+  MAX_CSV_IMPORT_BYTES,
+  MAX_CSV_IMPORT_ROWS,
+  parseCsv,
+  formatCsvRow,
+  unescapeCsvCell,
+  invitationStore,
+  createInvitation,
+  sendInvitation,
+  restoreInvitee,
+  removeInvitee,
+  getInvitationStatus,
+  softDeleteUser,
+  restoreUser,
+  getPurgeDate,
+  mergePreferences,
+  userPreferencesUpdateSchema,
+  saveAvatar,
+  deleteAvatar,
+  setUserStatus,
+  departmentStore,
+  getDepartmentSubtreeIds,
+  getManagementChain,
+  wouldCreateManagerCycle,
+  getDirectReports,
+  UserRecord,
+  UserStatus,
+  InvitationRecord,
+} from '../services';
+import { teamExists } from './teams';
+import type { User } from '../context';
+import { sortSchema, dateRangeSchema, DateRange, SortDirection } from '../schemas';
+
+// Columns users.list can be sorted by
+const USER_SORT_FIELDS = [
+  'name',
+  'email',
+  'phone',
+  'role',
+  'status',
+  'department',
+  'position',
+  'createdAt',
+  'updatedAt',
+  'lastLoginAt',
+] as const;
+
+type UserSortField = (typeof USER_SORT_FIELDS)[number];
+
+const DEFAULT_USER_SORT: { field: UserSortField; direction: SortDirection } = {
+  field: 'createdAt',
+  direction: 'desc',
+};
+
+/**
+ * Filters accepted by users.list
+ */
+interface UserListFilters {
+  search?: string;
+  role?: string;
+  status?: UserStatus;
+  createdAt?: DateRange;
+  lastLoginAt?: DateRange;
+  /** Departments whose members match (a department and its subdepartments) */
+  departmentIds?: Set<string>;
+  managerId?: string;
+}
+
+/**
+ * Whether a timestamp falls inside an inclusive range; unset timestamps never match a range
+ */
+function isInRange(value: string | undefined, range: DateRange | undefined): boolean {
+  if (!range) return true;
+  if (!value) return false;
+  const time = Date.parse(value);
+  return (
+    (!range.from || time >= Date.parse(range.from)) && (!range.to || time <= Date.parse(range.to))
+  );
+}
+
+/**
+ * Apply users.list filters
+ * search matches name, email, phone and department (case-insensitive);
+ * role matches a role ID or name
+ */
+function filterUsers(records: UserRecord[], filters: UserListFilters): UserRecord[] {
+  const search = filters.search?.trim().toLowerCase();
+  const roleId = filters.role ? (roleStore.resolve(filters.role)?.id ?? filters.role) : undefined;
+
+  return records.filter(
+    (record) =>
+      (!search ||
+        [record.name, record.email, record.phone, record.department].some((value) =>
+          value?.toLowerCase().includes(search)
+        )) &&
+      (!roleId || record.roleId === roleId) &&
+      (!filters.status || record.status === filters.status) &&
+      (!filters.departmentIds ||
+        (!!record.departmentId && filters.departmentIds.has(record.departmentId))) &&
+      (!filters.managerId || record.managerId === filters.managerId) &&
+      isInRange(record.createdAt, filters.createdAt) &&
+      isInRange(record.lastLoginAt, filters.lastLoginAt)
+  );
+}
+
+/**
+ * Comparator for users.list sorting
+ * Missing values sort last in either direction; ties fall back to ID for a stable order
+ */
+function compareUsersBy(sort: { field: UserSortField; direction: SortDirection }) {
+  const valueOf = (record: UserRecord): string | undefined =>
+    sort.field === 'role'
+      ? (roleStore.resolve(record.roleId)?.name ?? record.roleId)
+      : record[sort.field];
+  const factor = sort.direction === 'desc' ? -1 : 1;
+
+  return (a: UserRecord, b: UserRecord): number => {
+    const left = valueOf(a);
+    const right = valueOf(b);
+    let result = 0;
+    if (left && right) {
+      result =
+        factor * left.localeCompare(right, undefined, { sensitivity: 'base', numeric: true });
+    } else if (left || right) {
+      result = left ? -1 : 1;
+    }
+    return result || a.id.localeCompare(b.id);
+  };
+}
+
+/**
+ * Search, filter and sort options shared by users.list and users.exportCsv
+ */
+const userListQuerySchema = z.object({
+  search: z.string().optional(),
+  role: z.string().optional(),
+  status: z.enum(['pending', 'active', 'inactive', 'suspended']).optional(),
+  createdAt: dateRangeSchema.optional(),
+  lastLoginAt: dateRangeSchema.optional(),
+  /** Members of a department, including its subdepartments unless includeSubDepartments is false */
+  departmentId: z.string().optional(),
+  includeSubDepartments: z.boolean().optional(),
+  /** Direct reports of a manager */
+  managerId: z.string().optional(),
+  sort: sortSchema.extend({ field: z.enum(USER_SORT_FIELDS) }).optional(),
+});
+
+/**
+ * Load the users matching a list query, sorted
+ */
+async function findUsers({
+  sort = DEFAULT_USER_SORT,
+  departmentId,
+  includeSubDepartments = true,
+  ...filters
+}: z.infer<typeof userListQuerySchema>): Promise<UserRecord[]> {
+  const departmentIds = departmentId
+    ? includeSubDepartments
+      ? await getDepartmentSubtreeIds(departmentId)
+      : new Set([departmentId])
+    : undefined;
+
+  return filterUsers(await getUserRepository().list(), { ...filters, departmentIds }).sort(
+    compareUsersBy(sort)
+  );
+}
+
+/**
+ * Multipart avatar upload: the image file and, for admins, the target user ID
+ */
+const avatarUploadSchema = z
+  .instanceof(FormData)
+  .transform((form) => ({ id: form.get('id') ?? undefined, file: form.get('file') }))
+  .pipe(
+    z.object({
+      id: z.string().min(1).optional(),
+      file: z.instanceof(Blob, { message: 'An image file is required' }),
+    })
+  );
+
+/**
+ * Load a user the caller may edit
+ * Users can only update their own profile unless they're admin
+ */
+async function findEditableUser(id: string, user: User): Promise<UserRecord> {
+  if (user.id !== id && user.role.name !== 'admin') {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'You can only update your own profile',
+    });
+  }
+
+  const record = await getUserRepository().findById(id);
+  if (!record) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: `User with ID ${id} not found`,
+    });
+  }
+  return record;
+}
+
+// Columns written by users.exportCsv
+const EXPORT_COLUMNS = [
+  'id',
+  'name',
+  'email',
+  'phone',
+  'role',
+  'status',
+  'department',
+  'position',
+  'createdAt',
+  'lastLoginAt',
+] as const;
+
+// Rows per streamed chunk of users.exportCsv
+const EXPORT_CHUNK_ROWS = 200;
+
+/**
+ * Format a user as a users.exportCsv row (roles by name)
+ */
+function toExportRow(record: UserRecord): string {
+  return formatCsvRow(
+    EXPORT_COLUMNS.map((column) =>
+      column === 'role' ? (roleStore.resolve(record.roleId)?.name ?? record.roleId) : record[column]
+    )
+  );
+}
+
+// Fields users.importCsv can read; columns default to headers with the same name
+const IMPORT_FIELDS = [
+  'name',
+  'email',
+  'phone',
+  'role',
+  'status',
+  'department',
+  'position',
+  'password',
+] as const;
+
+type ImportField = (typeof IMPORT_FIELDS)[number];
+
+/**
+ * Validation for one imported row (empty cells are treated as missing)
+ */
+const importRowSchema = z.object({
+  name: z.string().min(2, 'Name must be at least 2 characters'),
+  email: z.string().email('Invalid email format'),
+  phone: z.string().optional(),
+  role: z.string().optional(),
+  status: z.enum(['active', 'inactive', 'suspended']).optional(),
+  department: z.string().optional(),
+  position: z.string().optional(),
+  password: z.string().optional(),
+});
+
+/**
+ * Outcome of one imported row
+ */
+interface ImportRowResult {
+  /** Spreadsheet row number (the header is row 1) */
+  row: number;
+  email?: string;
+  action: 'create' | 'update' | 'skip' | 'error';
+  errors?: Record<string, string[]>;
+}
+
+/**
+ * Map CSV header cells to import fields
+ * Throws BAD_REQUEST when a mapped column or a required column is missing
+ */
+function resolveImportColumns(
+  header: string[],
+  mapping: Partial<Record<ImportField, string>> = {}
+): Partial<Record<ImportField, number>> {
+  const normalized = header.map((cell) => cell.trim().toLowerCase());
+  const columns: Partial<Record<ImportField, number>> = {};
+  const missing: string[] = [];
+
+  IMPORT_FIELDS.forEach((field) => {
+    const column = mapping[field] ?? field;
+    const index = normalized.indexOf(column.trim().toLowerCase());
+    if (index !== -1) {
+      columns[field] = index;
+    } else if (mapping[field] || field === 'name' || field === 'email') {
+      missing.push(column);
+    }
+  });
+
+  if (missing.length > 0) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `CSV is missing column(s): ${missing.join(', ')}`,
+    });
+  }
+  return columns;
+}
+
+/**
+ * Client-safe view of an invitation (never includes the token hash)
+ */
+function toInvitationSummary(record: InvitationRecord) {
+  const { tokenHash: _tokenHash, ...summary } = record;
+  return { ...summary, status: getInvitationStatus(record) };
+}
+
+/**
+ * Load an invitation that can still be resent or revoked (not accepted or revoked)
+ */
+async function findOpenInvitation(id: string): Promise<InvitationRecord> {
+  const record = await invitationStore.findById(id);
+  if (!record) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: `Invitation with ID ${id} not found`,
+    });
+  }
+
+  const status = getInvitationStatus(record);
+  if (status === 'accepted' || status === 'revoked') {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Invitation has already been ${status}`,
+    });
+  }
+  return record;
+}
 
 /**
  * Users router
@@ -8,57 +347,225 @@ import { TRPCError } from '@trpc/server';
  */
 export const usersRouter = router({
   /**
-   * Get all users with pagination
+   * Get users with search, filters, sorting and pagination
    */
   list: protectedProcedure
     .input(
-      z
-        .object({
+      userListQuerySchema
+        .extend({
           page: z.number().min(1).default(1),
           limit: z.number().min(1).max(100).default(10),
-          search: z.string().optional(),
-          role: z.string().optional(),
-          status: z.enum(['active', 'inactive', 'suspended']).optional(),
         })
         .optional()
     )
-    .query(async ({ input }) => {
-      const { page = 1, limit = 10 } = input || {};
-      // TODO: Apply filters: input?.search, input?.role, input?.status
-
-      // TODO: Replace with actual database query
-      // Mock implementation
-      const mockUsers = Array.from({ length: limit }, (_, i) => ({
-        id: `user-${page}-${i}`,
-        name: `User ${page * limit + i}`,
-        email: `user${page * limit + i}@example.com`,
-        phone: `1390000${String(page * limit + i).padStart(4, '0')}`,
-        avatar: `https://api.dicebear.com/7.x/avataaars/svg?seed=${page * limit + i}`,
-        role: {
-          id: 'viewer',
-          name: 'viewer',
-          label: 'Viewer',
-          permissions: ['dashboard:view'],
-        },
-        status: 'active' as const,
-        department: 'Engineering',
-        position: 'Developer',
-        createdAt: new Date().toISOString(),
-        lastLoginAt: new Date().toISOString(),
-      }));
+    .query(async ({ input, ctx }) => {
+      const { page = 1, limit = 10, ...query } = input || {};
+
+      const matches = await findUsers(query);
+
+      const total = matches.length;
+      const list = matches
+        .slice((page - 1) * limit, page * limit)
+        .map((record) => toUserView(record, ctx.user));
 
       return {
         code: 200,
         message: 'success',
         data: {
-          list: mockUsers,
-          total: 100,
+          list,
+          total,
           page,
           limit,
+          totalPages: Math.ceil(total / limit),
         },
       };
     }),
 
+  /**
+   * Export the users matching a list query as CSV (Admin only)
+   * Streams chunks of CSV text (header first); clients read it with httpBatchStreamLink
+   */
+  exportCsv: adminProcedure.input(userListQuerySchema.optional()).query(async function* ({
+    input,
+  }) {
+    const matches = await findUsers(input ?? {});
+
+    yield formatCsvRow([...EXPORT_COLUMNS]);
+    for (let start = 0; start < matches.length; start += EXPORT_CHUNK_ROWS) {
+      yield matches
+        .slice(start, start + EXPORT_CHUNK_ROWS)
+        .map(toExportRow)
+        .join('');
+    }
+  }),
+
+  /**
+   * Create or update users from CSV (Admin only)
+   * Every row is validated and reported; with dryRun nothing is written.
+   * Existing emails are skipped, or updated with onExisting: 'upsert' (passwords only apply to new users).
+   * Rows without a password create accounts that sign in via password reset, magic link or SSO.
+   */
+  importCsv: adminProcedure
+    .input(
+      z.object({
+        csv: z
+          .string()
+          .min(1, 'CSV is required')
+          .refine((csv) => Buffer.byteLength(csv) <= MAX_CSV_IMPORT_BYTES, 'CSV is too large'),
+        /** Field -> CSV header, for headers that differ from the field names */
+        mapping: z.record(z.enum(IMPORT_FIELDS), z.string().min(1)).optional(),
+        onExisting: z.enum(['skip', 'upsert']).default('skip'),
+        dryRun: z.boolean().default(false),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      let records: string[][];
+      try {
+        records = parseCsv(input.csv);
+      } catch (error) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Invalid CSV: ${(error as Error).message}`,
+        });
+      }
+
+      const [header, ...rows] = records;
+      if (!header) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'CSV is empty',
+        });
+      }
+      if (rows.length > MAX_CSV_IMPORT_ROWS) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `CSV has ${rows.length} rows, at most ${MAX_CSV_IMPORT_ROWS} can be imported at once`,
+        });
+      }
+
+      const columns = resolveImportColumns(header, input.mapping);
+      const users = getUserRepository();
+      const seenEmails = new Set<string>();
+      const results: ImportRowResult[] = [];
+
+      for (const [index, cells] of rows.entries()) {
+        const row = index + 2;
+        const values: Partial<Record<ImportField, string>> = {};
+        IMPORT_FIELDS.forEach((field) => {
+          const column = columns[field];
+          const cell = column === undefined ? '' : unescapeCsvCell(cells[column] ?? '').trim();
+          if (cell) values[field] = cell;
+        });
+
+        const parsed = importRowSchema.safeParse(values);
+        const errors: Record<string, string[]> = parsed.success
+          ? {}
+          : { ...parsed.error.flatten().fieldErrors };
+        const email = values.email?.toLowerCase();
+
+        const role = values.role ? roleStore.resolve(values.role) : undefined;
+        if (values.role && !role) {
+          errors.role = [`Role "${values.role}" does not exist`];
+        }
+        if (email && seenEmails.has(email)) {
+          errors.email = ['Duplicate email in this file'];
+        }
+        if (email) seenEmails.add(email);
+
+        if (!parsed.success || Object.keys(errors).length > 0) {
+          results.push({ row, email, action: 'error', errors });
+          continue;
+        }
+
+        const { password, role: _role, email: _email, status, ...profile } = parsed.data;
+        const existing = await users.findByEmail(parsed.data.email, { includeDeleted: true });
+
+        if (existing?.deletedAt) {
+          results.push({
+            row,
+            email,
+            action: 'error',
+            errors: { email: ['Email belongs to a deleted user'] },
+          });
+          continue;
+        }
+
+        if (existing && input.onExisting === 'skip') {
+          results.push({ row, email, action: 'skip' });
+          continue;
+        }
+
+        if (!existing && password) {
+          const reasons = await checkPassword(password, parsed.data);
+          if (reasons.length > 0) {
+            results.push({ row, email, action: 'error', errors: { password: reasons } });
+            continue;
+          }
+        }
+
+        const action = existing ? 'update' : 'create';
+        if (!input.dryRun) {
+          try {
+            if (existing) {
+              await users.update(existing.id, {
+                ...profile,
+                ...(role ? { roleId: role.id } : {}),
+              });
+              // Same path as users.updateStatus: sessions end and the change is audited.
+              // An imported status replaces any scheduled reactivation
+              if (status && (status !== existing.status || existing.reactivateAt)) {
+                await setUserStatus(existing.id, status, undefined, ctx.user);
+              }
+            } else {
+              await users.create({
+                ...profile,
+                email: parsed.data.email,
+                ...(password ? await buildPasswordUpdate(password) : { passwordHash: '' }),
+                roleId: role?.id ?? (process.env.DEFAULT_USER_ROLE || 'role-viewer'),
+                status: status ?? 'active',
+              });
+            }
+          } catch (error) {
+            results.push({
+              row,
+              email,
+              action: 'error',
+              errors: { row: [(error as Error).message] },
+            });
+            continue;
+          }
+        }
+
+        results.push({ row, email, action });
+      }
+
+      const count = (action: ImportRowResult['action']) =>
+        results.filter((result) => result.action === action).length;
+      const summary = {
+        dryRun: input.dryRun,
+        total: results.length,
+        created: count('create'),
+        updated: count('update'),
+        skipped: count('skip'),
+        failed: count('error'),
+      };
+
+      if (!input.dryRun && summary.created + summary.updated > 0) {
+        await recordActivity({
+          user: ctx.user.name,
+          userId: ctx.user.id,
+          action: 'Imported Users',
+          target: `${summary.created} created, ${summary.updated} updated`,
+        });
+      }
+
+      return {
+        code: 200,
+        message: input.dryRun ? 'Import validated (dry run)' : 'Import completed',
+        data: { ...summary, rows: results },
+      };
+    }),
+
   /**
    * Get user by ID
    */
@@ -68,34 +575,20 @@ export const usersRouter = router({
         id: z.string(),
       })
     )
-    .query(async ({ input }) => {
-      const { id } = input;
+    .query(async ({ input, ctx }) => {
+      const record = await getUserRepository().findById(input.id);
 
-      // TODO: Replace with actual database query
-      const mockUser = {
-        id,
-        name: 'John Doe',
-        email: 'john@example.com',
-        phone: '13900001234',
-        avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=john',
-        role: {
-          id: 'admin',
-          name: 'admin',
-          label: 'Super Admin',
-          permissions: ['*'],
-        },
-        status: 'active' as const,
-        department: 'Engineering',
-        position: 'CTO',
-        bio: 'Experienced software engineer with 10+ years in the industry.',
-        createdAt: new Date().toISOString(),
-        lastLoginAt: new Date().toISOString(),
-      };
+      if (!record) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `User with ID ${input.id} not found`,
+        });
+      }
 
       return {
         code: 200,
         message: 'success',
-        data: mockUser,
+        data: toUserView(record, ctx.user),
       };
     }),
 
@@ -107,7 +600,7 @@ export const usersRouter = router({
       z.object({
         name: z.string().min(2, 'Name must be at least 2 characters'),
         email: z.string().email('Invalid email format'),
-        password: z.string().min(8, 'Password must be at least 8 characters'),
+        password: z.string().min(1, 'Password is required'),
         phone: z.string().optional(),
         role: z.string(),
         department: z.string().optional(),
@@ -115,26 +608,170 @@ export const usersRouter = router({
       })
     )
     .mutation(async ({ input }) => {
-      const { name, email } = input;
-      // TODO: Use input.password for hashing, input.role for role assignment
+      const { password, role, ...profile } = input;
+      const users = getUserRepository();
+
+      const assignedRole = roleStore.resolve(role);
+      if (!assignedRole) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Role "${role}" does not exist`,
+        });
+      }
+
+      if (await users.findByEmail(profile.email)) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: `A user with email ${profile.email} already exists`,
+        });
+      }
 
-      // TODO: Replace with actual database operations
-      // - Check if email already exists
-      // - Hash password
-      // - Create user in database
+      await assertPasswordAllowed(password, profile);
+
+      const created = await users.create({
+        ...profile,
+        ...(await buildPasswordUpdate(password)),
+        roleId: assignedRole.id,
+      });
 
       return {
         code: 200,
         message: 'User created successfully',
         data: {
-          id: 'new-user-id',
-          name,
-          email,
-          createdAt: new Date().toISOString(),
+          id: created.id,
+          name: created.name,
+          email: created.email,
+          createdAt: created.createdAt,
         },
       };
     }),
 
+  /**
+   * Invite a user by email (Admin only)
+   * Creates a pending account and emails a link where the invitee sets their own password
+   */
+  invite: adminProcedure
+    .input(
+      z.object({
+        email: z.string().email('Invalid email format'),
+        name: z.string().min(2, 'Name must be at least 2 characters').optional(),
+        roleId: z.string(),
+        teamIds: z.array(z.string()).default([]),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const role = roleStore.resolve(input.roleId);
+      if (!role) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Role "${input.roleId}" does not exist`,
+        });
+      }
+
+      const unknownTeams = input.teamIds.filter((teamId) => !teamExists(teamId));
+      if (unknownTeams.length > 0) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Team(s) not found: ${unknownTeams.join(', ')}`,
+        });
+      }
+
+      if (await getUserRepository().findByEmail(input.email)) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: `A user with email ${input.email} already exists`,
+        });
+      }
+
+      const invitation = await createInvitation(
+        { ...input, roleId: role.id, teamIds: [...new Set(input.teamIds)] },
+        ctx.user
+      );
+
+      await recordActivity({
+        user: ctx.user.name,
+        userId: ctx.user.id,
+        action: 'Invited User',
+        target: invitation.email,
+      });
+
+      return {
+        code: 200,
+        message: 'Invitation sent successfully',
+        data: toInvitationSummary(invitation),
+      };
+    }),
+
+  /**
+   * List invitations, newest first (Admin only)
+   */
+  listInvites: adminProcedure
+    .input(
+      z
+        .object({
+          status: z.enum(['pending', 'accepted', 'expired', 'revoked']).optional(),
+        })
+        .optional()
+    )
+    .query(async ({ input }) => {
+      const invitations = (await invitationStore.list())
+        .map(toInvitationSummary)
+        .filter((invitation) => !input?.status || invitation.status === input.status)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+      return {
+        code: 200,
+        message: 'success',
+        data: invitations,
+      };
+    }),
+
+  /**
+   * Send a new invitation link with a fresh expiry (Admin only)
+   * Links sent earlier stop working
+   */
+  resendInvite: adminProcedure
+    .input(
+      z.object({
+        id: z.string(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      // The placeholder user is removed when an invitation expires
+      const invitation = await sendInvitation(
+        await restoreInvitee(await findOpenInvitation(input.id)),
+        ctx.user
+      );
+
+      return {
+        code: 200,
+        message: 'Invitation resent successfully',
+        data: toInvitationSummary(invitation),
+      };
+    }),
+
+  /**
+   * Revoke an invitation and remove the invitee's pending account (Admin only)
+   */
+  revokeInvite: adminProcedure
+    .input(
+      z.object({
+        id: z.string(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const invitation = await findOpenInvitation(input.id);
+
+      await invitationStore.update(invitation.id, { revokedAt: new Date().toISOString() });
+      await removeInvitee(invitation);
+
+      return {
+        code: 200,
+        message: 'Invitation revoked successfully',
+        data: { id: invitation.id, status: 'revoked' as const },
+      };
+    }),
+
   /**
    * Update user
    */
@@ -145,32 +782,140 @@ export const usersRouter = router({
         name: z.string().min(2).optional(),
         email: z.string().email().optional(),
         phone: z.string().optional(),
-        avatar: z.string().optional(),
         department: z.string().optional(),
         position: z.string().optional(),
         bio: z.string().optional(),
       })
     )
     .mutation(async ({ input, ctx }) => {
-      const { id, ...updates } = input;
+      const { id, email, ...updates } = input;
+      const existing = await findEditableUser(id, ctx.user);
+      const users = getUserRepository();
 
-      // Users can only update their own profile unless they're admin
-      if (ctx.user.id !== id && ctx.user.role.name !== 'admin') {
+      // A new email only replaces the current one after it has been verified
+      const newEmail = email?.trim().toLowerCase();
+      const emailChanged = !!newEmail && newEmail !== existing.email;
+      if (emailChanged && (await users.findByEmail(newEmail))) {
         throw new TRPCError({
-          code: 'FORBIDDEN',
-          message: 'You can only update your own profile',
+          code: 'CONFLICT',
+          message: `A user with email ${newEmail} already exists`,
         });
       }
 
-      // TODO: Replace with actual database update
+      const updated = await users.update(id, {
+        ...updates,
+        ...(emailChanged ? { pendingEmail: newEmail } : {}),
+      });
+      if (!updated) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `User with ID ${id} not found`,
+        });
+      }
+
+      if (emailChanged) {
+        await requestEmailVerification(updated, newEmail);
+      }
+
       return {
         code: 200,
-        message: 'User updated successfully',
-        data: {
-          id,
-          ...updates,
-          updatedAt: new Date().toISOString(),
-        },
+        message: emailChanged
+          ? 'User updated successfully, the new email must be verified before it takes effect'
+          : 'User updated successfully',
+        data: toUserView(updated, ctx.user),
+      };
+    }),
+
+  /**
+   * Upload an avatar as multipart form data ("file", plus "id" when an admin sets another user's)
+   * PNG or JPEG; stored as square PNG thumbnails and served from /avatars/:userId
+   */
+  uploadAvatar: protectedProcedure.input(avatarUploadSchema).mutation(async ({ input, ctx }) => {
+    const id = input.id ?? ctx.user.id;
+    const record = await findEditableUser(id, ctx.user);
+
+    const upload = Buffer.from(await input.file.arrayBuffer());
+    const avatarVersion = await saveAvatar(record.id, upload, input.file.type);
+    const updated = await getUserRepository().update(record.id, {
+      avatar: undefined,
+      avatarVersion,
+    });
+
+    return {
+      code: 200,
+      message: 'Avatar uploaded successfully',
+      data: toUserView(updated ?? record, ctx.user),
+    };
+  }),
+
+  /**
+   * Remove the uploaded avatar; the generated identicon is shown instead
+   */
+  removeAvatar: protectedProcedure
+    .input(
+      z
+        .object({
+          id: z.string().optional(),
+        })
+        .optional()
+    )
+    .mutation(async ({ input, ctx }) => {
+      const record = await findEditableUser(input?.id ?? ctx.user.id, ctx.user);
+
+      await deleteAvatar(record.id);
+      const updated = await getUserRepository().update(record.id, {
+        avatar: undefined,
+        avatarVersion: undefined,
+      });
+
+      return {
+        code: 200,
+        message: 'Avatar removed successfully',
+        data: toUserView(updated ?? record, ctx.user),
+      };
+    }),
+
+  /**
+   * Get the current user's preferences (defaults fill anything not yet set)
+   */
+  getPreferences: protectedProcedure.query(async ({ ctx }) => {
+    const record = await getUserRepository().findById(ctx.user.id);
+    if (!record) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'User not found',
+      });
+    }
+
+    return {
+      code: 200,
+      message: 'success',
+      data: mergePreferences(record.preferences),
+    };
+  }),
+
+  /**
+   * Update the current user's preferences; omitted fields keep their current value
+   */
+  updatePreferences: protectedProcedure
+    .input(userPreferencesUpdateSchema)
+    .mutation(async ({ input, ctx }) => {
+      const users = getUserRepository();
+      const record = await users.findById(ctx.user.id);
+      if (!record) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'User not found',
+        });
+      }
+
+      const preferences = mergePreferences(record.preferences, input);
+      await users.update(record.id, { preferences });
+
+      return {
+        code: 200,
+        message: 'Preferences updated successfully',
+        data: preferences,
       };
     }),
 
@@ -187,45 +932,262 @@ export const usersRouter = router({
     .mutation(async ({ input }) => {
       const { id, roleId } = input;
 
-      // TODO: Replace with actual database update
+      const role = roleStore.resolve(roleId);
+      if (!role) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Role "${roleId}" does not exist`,
+        });
+      }
+
+      // Takes effect on the user's next request: permissions are resolved live, and tokens
+      // issued before the change carry the old permission version and must be refreshed
+      const updated = await getUserRepository().update(id, { roleId: role.id });
+      if (!updated) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `User with ID ${id} not found`,
+        });
+      }
+
       return {
         code: 200,
         message: 'User role updated successfully',
         data: {
           id,
-          roleId,
-          updatedAt: new Date().toISOString(),
+          roleId: updated.roleId,
+          permissionVersion: updated.permissionVersion,
+          updatedAt: updated.updatedAt,
         },
       };
     }),
 
   /**
-   * Update user status (Admin only)
+   * Set or clear a user's manager (Admin only)
+   * Rejected when the user would end up managing themselves, directly or through others
    */
-  updateStatus: adminProcedure
+  updateManager: adminProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        managerId: z.string().nullable(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const { id, managerId } = input;
+      const users = getUserRepository();
+
+      if (!(await users.findById(id))) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `User with ID ${id} not found`,
+        });
+      }
+
+      if (managerId) {
+        if (!(await users.findById(managerId))) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Manager ${managerId} does not exist`,
+          });
+        }
+        if (await wouldCreateManagerCycle(id, managerId)) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'A user cannot report to themselves or to someone who reports to them',
+          });
+        }
+      }
+
+      const updated = await users.update(id, { managerId: managerId ?? undefined });
+
+      return {
+        code: 200,
+        message: 'User manager updated successfully',
+        data: {
+          id,
+          managerId: updated?.managerId,
+          updatedAt: updated?.updatedAt,
+        },
+      };
+    }),
+
+  /**
+   * Move a user to a department in the org tree, or clear it with null (Admin only)
+   */
+  updateDepartment: adminProcedure
     .input(
       z.object({
         id: z.string(),
-        status: z.enum(['active', 'inactive', 'suspended']),
+        departmentId: z.string().nullable(),
       })
     )
     .mutation(async ({ input }) => {
-      const { id, status } = input;
+      const { id, departmentId } = input;
+      const users = getUserRepository();
+
+      if (!(await users.findById(id))) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `User with ID ${id} not found`,
+        });
+      }
+
+      if (departmentId && !(await departmentStore.findById(departmentId))) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Department ${departmentId} does not exist`,
+        });
+      }
+
+      const updated = await users.update(id, { departmentId: departmentId ?? undefined });
+
+      return {
+        code: 200,
+        message: 'User department updated successfully',
+        data: {
+          id,
+          departmentId: updated?.departmentId,
+          updatedAt: updated?.updatedAt,
+        },
+      };
+    }),
+
+  /**
+   * List the users who report directly to a user
+   */
+  getDirectReports: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      if (!(await getUserRepository().findById(input.id))) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `User with ID ${input.id} not found`,
+        });
+      }
+
+      const reports = (await getDirectReports(input.id)).sort(
+        compareUsersBy({ field: 'name', direction: 'asc' })
+      );
+
+      return {
+        code: 200,
+        message: 'success',
+        data: reports.map((record) => toUserView(record, ctx.user)),
+      };
+    }),
+
+  /**
+   * Get a user's managers, from the direct manager up to the top of the organization
+   */
+  getManagementChain: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      if (!(await getUserRepository().findById(input.id))) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `User with ID ${input.id} not found`,
+        });
+      }
+
+      return {
+        code: 200,
+        message: 'success',
+        data: (await getManagementChain(input.id)).map((record) => toUserView(record, ctx.user)),
+      };
+    }),
+
+  /**
+   * Update user status (Admin only)
+   * Suspended and inactive users are signed out everywhere and cannot sign in;
+   * reactivateAt schedules them to become active again
+   */
+  updateStatus: adminProcedure
+    .input(
+      z
+        .object({
+          id: z.string(),
+          status: z.enum(['active', 'inactive', 'suspended']),
+          reactivateAt: z
+            .string()
+            .datetime()
+            .refine((value) => Date.parse(value) > Date.now(), 'Must be in the future')
+            .optional(),
+        })
+        .refine((input) => !input.reactivateAt || input.status !== 'active', {
+          message: 'Only suspended or inactive users can be scheduled for reactivation',
+          path: ['reactivateAt'],
+        })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const { id, status, reactivateAt } = input;
+
+      const updated = await setUserStatus(id, status, reactivateAt, ctx.user);
+      if (!updated) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `User with ID ${id} not found`,
+        });
+      }
 
-      // TODO: Replace with actual database update
       return {
         code: 200,
         message: 'User status updated successfully',
         data: {
           id,
-          status,
-          updatedAt: new Date().toISOString(),
+          status: updated.status,
+          reactivateAt: updated.reactivateAt,
+          updatedAt: updated.updatedAt,
         },
       };
     }),
 
   /**
-   * Delete user (Admin only)
+   * Lift a login lockout caused by repeated failed attempts (Admin only)
+   */
+  unlock: adminProcedure
+    .input(
+      z.object({
+        id: z.string(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const record = await getUserRepository().findById(input.id);
+      if (!record) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `User with ID ${input.id} not found`,
+        });
+      }
+
+      const wasLocked = await unlockLogin(record.email);
+      if (wasLocked) {
+        await recordActivity({
+          user: ctx.user.name,
+          userId: ctx.user.id,
+          action: 'Account Unlocked',
+          target: record.email,
+        });
+      }
+
+      return {
+        code: 200,
+        message: wasLocked ? 'User unlocked successfully' : 'User was not locked',
+        data: { id: record.id, wasLocked },
+      };
+    }),
+
+  /**
+   * Soft delete a user (Admin only)
+   * The user is hidden and signed out, and can be restored until the retention period ends
    */
   delete: adminProcedure
     .input(
@@ -244,11 +1206,103 @@ export const usersRouter = router({
         });
       }
 
-      // TODO: Replace with actual database deletion
+      const record = await softDeleteUser(id, ctx.user.id);
+      if (!record) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `User with ID ${id} not found`,
+        });
+      }
+
+      await recordActivity({
+        user: ctx.user.name,
+        userId: ctx.user.id,
+        action: 'Deleted User',
+        target: record.email,
+      });
+
       return {
         code: 200,
         message: 'User deleted successfully',
-        data: null,
+        data: { id, deletedAt: record.deletedAt, purgeAt: getPurgeDate(record)?.toISOString() },
+      };
+    }),
+
+  /**
+   * List deleted users that can still be restored, most recently deleted first (Admin only)
+   */
+  listDeleted: adminProcedure
+    .input(
+      z
+        .object({
+          page: z.number().min(1).default(1),
+          limit: z.number().min(1).max(100).default(10),
+        })
+        .optional()
+    )
+    .query(async ({ input }) => {
+      const { page = 1, limit = 10 } = input || {};
+
+      const deleted = (await getUserRepository().list({ includeDeleted: true }))
+        .filter((record) => record.deletedAt && !record.purgedAt)
+        .sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''));
+
+      const total = deleted.length;
+      const list = deleted.slice((page - 1) * limit, page * limit).map((record) => ({
+        ...toAdminUser(record),
+        purgeAt: getPurgeDate(record)?.toISOString(),
+      }));
+
+      return {
+        code: 200,
+        message: 'success',
+        data: {
+          list,
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit),
+        },
+      };
+    }),
+
+  /**
+   * Restore a deleted user before it is purged (Admin only)
+   */
+  restore: adminProcedure
+    .input(
+      z.object({
+        id: z.string(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const existing = await getUserRepository().findById(input.id, { includeDeleted: true });
+      if (!existing?.deletedAt) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `Deleted user with ID ${input.id} not found`,
+        });
+      }
+      if (existing.purgedAt) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'User has been purged and can no longer be restored',
+        });
+      }
+
+      const record = (await restoreUser(existing.id)) ?? existing;
+
+      await recordActivity({
+        user: ctx.user.name,
+        userId: ctx.user.id,
+        action: 'Restored User',
+        target: record.email,
+      });
+
+      return {
+        code: 200,
+        message: 'User restored successfully',
+        data: toAdminUser(record),
       };
     }),
 
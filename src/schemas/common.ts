@@ -39,6 +39,19 @@ export const searchFilterSchema = z.object({
   sort: sortSchema.optional(),
 });
 
+/**
+ * Date range filter (ISO 8601 datetimes, both bounds inclusive and optional)
+ */
+export const dateRangeSchema = z
+  .object({
+    from: z.string().datetime().optional(),
+    to: z.string().datetime().optional(),
+  })
+  .refine((range) => !range.from || !range.to || Date.parse(range.from) <= Date.parse(range.to), {
+    message: 'Range start must not be after its end',
+    path: ['from'],
+  });
+
 /**
  * Audit fields schema for tracking entity changes
  */
@@ -125,6 +138,7 @@ export type PaginationResponse = z.infer<typeof paginationResponseSchema>;
 export type Sort = z.infer<typeof sortSchema>;
 export type SortDirection = z.infer<typeof sortDirectionSchema>;
 export type SearchFilter = z.infer<typeof searchFilterSchema>;
+export type DateRange = z.infer<typeof dateRangeSchema>;
 export type AuditFields = z.infer<typeof auditFieldsSchema>;
 export type ApiResponse<T = unknown> = {
   code: number;
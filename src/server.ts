@@ -1,3 +1,4 @@
+import { STATUS_CODES } from 'http';
 import express, { Request, Response } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
@@ -6,11 +7,69 @@ import pinoHttp from 'pino-http';
 import { createExpressMiddleware } from '@trpc/server/adapters/express';
 import { appRouter } from './routers';
 import { createContext } from './context';
-import { serviceRegistry } from './services';
+import {
+  serviceRegistry,
+  signingKeys,
+  oidcClient,
+  getOidcConfig,
+  findOrProvisionOidcUser,
+  issueOneTimeToken,
+  buildAppUrl,
+  AVATAR_SIZES,
+  DEFAULT_AVATAR_SIZE,
+  isAvatarSize,
+  loadAvatar,
+  renderIdenticon,
+  getAvatarMaxBytes,
+  MAX_CSV_IMPORT_BODY_BYTES,
+  setOidcStateCookie,
+  verifyOidcStateCookie,
+  clearOidcStateCookie,
+} from './services';
 
 const APP_VERSION = '1.0.0';
 const APP_NAME = 'HaloLight BFF Gateway';
 
+// Lifetime of the code handed to the frontend after SSO (exchanged via auth.exchangeSsoCode)
+const SSO_LOGIN_CODE_TTL_SECONDS = 60;
+
+/**
+ * CORS options from CORS_ORIGIN (comma-separated allowlist)
+ * Credentialed requests (cookie sessions) are only allowed for listed origins;
+ * "*" allows any origin without credentials
+ */
+function getCorsOptions(): cors.CorsOptions {
+  const origins = (process.env.CORS_ORIGIN || 'http://localhost:3000')
+    .split(',')
+    .map((origin) => origin.trim().replace(/\/$/, ''))
+    .filter(Boolean);
+
+  if (origins.includes('*')) {
+    return { origin: '*', credentials: false };
+  }
+
+  return {
+    origin: (origin, callback) => {
+      // Same-origin and non-browser requests have no Origin header
+      callback(null, !origin || origins.includes(origin));
+    },
+    credentials: true,
+  };
+}
+
+/**
+ * Express "trust proxy" setting from TRUST_PROXY
+ * Behind a reverse proxy, req.ip (login throttling, session IPs) is the proxy's address
+ * unless the proxy is trusted to report the client in X-Forwarded-For
+ * Accepts true/false, a hop count, or a comma-separated list of addresses/subnets
+ */
+function getTrustProxy(): boolean | number | string {
+  const value = process.env.TRUST_PROXY?.trim();
+  if (!value || value === 'false') return false;
+  if (value === 'true') return true;
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
 /**
  * Generate HTML homepage
  */
@@ -229,7 +288,7 @@ function getHomePage(): string {
     <div class="max-w-7xl mx-auto px-6">
       <div class="text-center mb-16">
         <h2 class="text-4xl font-bold mb-4">API 模块</h2>
-        <p class="text-slate-400 text-lg max-w-2xl mx-auto">12 个核心业务模块，覆盖企业应用场景</p>
+        <p class="text-slate-400 text-lg max-w-2xl mx-auto">13 个核心业务模块，覆盖企业应用场景</p>
       </div>
       <div class="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
         <a href="/docs#auth" class="p-5 bg-slate-800/50 border border-slate-700/50 rounded-xl flex items-center gap-4 transition-all module-hover no-underline">
@@ -256,6 +315,10 @@ function getHomePage(): string {
           <div class="text-2xl">🏢</div>
           <div><h4 class="font-semibold text-white">Teams</h4><span class="text-sm text-slate-400">9 个端点</span></div>
         </a>
+        <a href="/docs#departments" class="p-5 bg-slate-800/50 border border-slate-700/50 rounded-xl flex items-center gap-4 transition-all module-hover no-underline">
+          <div class="text-2xl">🌳</div>
+          <div><h4 class="font-semibold text-white">Departments</h4><span class="text-sm text-slate-400">8 个端点</span></div>
+        </a>
         <a href="/docs#folders" class="p-5 bg-slate-800/50 border border-slate-700/50 rounded-xl flex items-center gap-4 transition-all module-hover no-underline">
           <div class="text-2xl">📂</div>
           <div><h4 class="font-semibold text-white">Folders</h4><span class="text-sm text-slate-400">8 个端点</span></div>
@@ -334,13 +397,39 @@ const API_DOCS = {
     name: 'Authentication',
     description: 'User authentication and authorization',
     endpoints: [
-      { name: 'login', type: 'mutation', desc: 'User login with email and password', input: '{ email: string, password: string }', output: '{ user, token, expiresIn }' },
+      { name: 'login', type: 'mutation', desc: 'User login with email and password (sessionMode "cookie" sets httpOnly cookies); suspended or inactive accounts get FORBIDDEN', input: '{ email: string, password: string, sessionMode?: "token" | "cookie" }', output: '{ user, token, expiresIn, refreshToken, refreshExpiresIn } | { mfaRequired, challengeToken }' },
+      { name: 'loginWithTotp', type: 'mutation', desc: 'Complete login with MFA challenge and TOTP/recovery code', input: '{ challengeToken: string, code: string }', output: '{ user, token, refreshToken }' },
+      { name: 'requestMagicLink', type: 'mutation', desc: 'Email a single-use sign-in link (low-privilege roles); returns the device nonce', input: '{ email: string }', output: '{ nonce, expiresIn }' },
+      { name: 'consumeMagicLink', type: 'mutation', desc: 'Sign in with a magic link token and the device nonce', input: "{ token: string, nonce: string, sessionMode?: 'token' | 'cookie' }", output: '{ user, token, refreshToken, sessionId } | { mfaRequired, challengeToken }' },
+      { name: 'exchangeSsoCode', type: 'mutation', desc: 'Finish SSO login with the code from /auth/oidc/callback', input: '{ code: string }', output: '{ user, token, refreshToken }' },
       { name: 'register', type: 'mutation', desc: 'Register a new user account', input: '{ name: string, email: string, password: string }', output: '{ user, token }' },
-      { name: 'logout', type: 'mutation', desc: 'Logout current user', input: 'void', output: '{ success: boolean }' },
-      { name: 'refreshToken', type: 'mutation', desc: 'Refresh JWT token', input: 'void', output: '{ token, expiresIn }' },
+      { name: 'logout', type: 'mutation', desc: 'Logout current user and revoke its tokens', input: '{ refreshToken?: string }', output: '{ success: boolean }' },
+      { name: 'listSessions', type: 'query', desc: 'List active sessions of current user', input: 'void', output: 'Session[]' },
+      { name: 'revokeSession', type: 'mutation', desc: 'End one session or all other sessions', input: '{ sessionId: string } | { allOthers: true }', output: '{ revoked: string[] }' },
+      { name: 'revokeAllForUser', type: 'mutation', desc: 'Revoke all tokens of a user (Admin)', input: '{ userId: string }', output: '{ userId }' },
+      { name: 'refreshToken', type: 'mutation', desc: 'Rotate refresh token (from input or cookie) and issue a new access token', input: '{ refreshToken?: string }', output: '{ token, expiresIn, refreshToken, refreshExpiresIn }' },
+      { name: 'acceptInvite', type: 'mutation', desc: 'Accept an invitation, set a password and sign in', input: "{ token: string, password: string, name?: string, sessionMode?: 'token' | 'cookie' }", output: '{ user, token, refreshToken, sessionId }' },
+      { name: 'verifyEmail', type: 'mutation', desc: 'Confirm email address with verification token', input: '{ token: string }', output: '{ id, email, status }' },
+      { name: 'resendVerification', type: 'mutation', desc: 'Resend the email verification link', input: '{ email: string }', output: '{ success: boolean }' },
       { name: 'getCurrentUser', type: 'query', desc: 'Get current authenticated user', input: 'void', output: '{ user }' },
-      { name: 'forgotPassword', type: 'mutation', desc: 'Request password reset email', input: '{ email: string }', output: '{ success: boolean }' },
-      { name: 'resetPassword', type: 'mutation', desc: 'Reset password with token', input: '{ token: string, password: string }', output: '{ success: boolean }' },
+      { name: 'requestPasswordReset', type: 'mutation', desc: 'Request password reset email', input: '{ email: string }', output: '{ success: boolean }' },
+      { name: 'resetPassword', type: 'mutation', desc: 'Reset password with single-use token', input: '{ token: string, newPassword: string }', output: '{ success: boolean }' },
+      { name: 'impersonate', type: 'mutation', desc: 'Act as another user (users:impersonate permission)', input: '{ userId: string }', output: '{ user, token, expiresIn }' },
+      { name: 'stopImpersonation', type: 'mutation', desc: 'End impersonation and revoke its token', input: 'void', output: '{ actor }' },
+      { name: 'createApiKey', type: 'mutation', desc: 'Create an API key (sent as X-Api-Key header)', input: '{ name: string, permissions: string[], expiresAt?: string }', output: '{ id, prefix, key, permissions, expiresAt }' },
+      { name: 'listApiKeys', type: 'query', desc: 'List API keys of current user', input: 'void', output: 'ApiKey[]' },
+      { name: 'revokeApiKey', type: 'mutation', desc: 'Revoke an API key', input: '{ id: string }', output: '{ id }' },
+      { name: 'enrollTotp', type: 'mutation', desc: 'Start TOTP two-factor enrollment', input: 'void', output: '{ secret, otpauthUrl }' },
+      { name: 'verifyTotp', type: 'mutation', desc: 'Confirm TOTP enrollment', input: '{ code: string }', output: '{ recoveryCodes: string[] }' },
+      { name: 'regenerateRecoveryCodes', type: 'mutation', desc: 'Replace 2FA recovery codes', input: '{ code: string }', output: '{ recoveryCodes: string[] }' },
+      { name: 'disableTotp', type: 'mutation', desc: 'Disable two-factor authentication', input: '{ password: string, code: string }', output: '{ success: boolean }' },
+      { name: 'passkey.beginRegistration', type: 'mutation', desc: 'Start passkey registration (WebAuthn creation options)', input: 'none', output: '{ challenge, rp, user, pubKeyCredParams, excludeCredentials, ... }' },
+      { name: 'passkey.finishRegistration', type: 'mutation', desc: 'Verify attestation and store the passkey', input: '{ name?: string, credential: RegistrationResponseJSON }', output: '{ id, name, createdAt, ... }' },
+      { name: 'passkey.beginLogin', type: 'mutation', desc: 'Start passkey login (WebAuthn request options)', input: '{ email?: string }', output: '{ challenge, rpId, allowCredentials, ... }' },
+      { name: 'passkey.finishLogin', type: 'mutation', desc: 'Verify assertion (signature, sign count) and sign in', input: "{ credential: AuthenticationResponseJSON, sessionMode?: 'token' | 'cookie' }", output: '{ user, token, refreshToken, sessionId }' },
+      { name: 'passkey.list', type: 'query', desc: "List current user's passkeys", input: 'none', output: '{ id, name, transports, backedUp, createdAt, lastUsedAt }[]' },
+      { name: 'passkey.remove', type: 'mutation', desc: 'Remove a passkey', input: '{ id: string }', output: '{ id }' },
+      { name: 'getPasswordPolicy', type: 'query', desc: 'Password requirements (length, character classes, history, max age)', input: 'none', output: '{ minLength, maxLength, requireLowercase, requireUppercase, requireDigit, requireSymbol, historyCount, maxAgeDays }' },
       { name: 'changePassword', type: 'mutation', desc: 'Change current user password', input: '{ currentPassword: string, newPassword: string }', output: '{ success: boolean }' },
     ],
   },
@@ -348,13 +437,30 @@ const API_DOCS = {
     name: 'Users',
     description: 'User management operations',
     endpoints: [
-      { name: 'list', type: 'query', desc: 'List users with pagination', input: '{ page?, limit?, search?, role?, status? }', output: '{ list: User[], total, page, limit }' },
+      { name: 'list', type: 'query', desc: 'List users with search (name/email/phone/department), filters, sorting and pagination', input: "{ page?, limit?, search?, role?, status?, createdAt?: { from?, to? }, lastLoginAt?: { from?, to? }, departmentId?, includeSubDepartments?: boolean, managerId?, sort?: { field, direction?: 'asc' | 'desc' } }", output: '{ list: User[], total, page, limit, totalPages }' },
+      { name: 'exportCsv', type: 'query', desc: 'Stream users matching the list filters as CSV chunks (admin, httpBatchStreamLink)', input: '{ search?, role?, status?, createdAt?, lastLoginAt?, sort? }', output: 'AsyncIterable<string>' },
+      { name: 'importCsv', type: 'mutation', desc: 'Create or update users from CSV with per-row validation report (admin)', input: "{ csv: string, mapping?: { [field]: header }, onExisting?: 'skip' | 'upsert', dryRun?: boolean }", output: '{ dryRun, total, created, updated, skipped, failed, rows: { row, email, action, errors? }[] }' },
       { name: 'getById', type: 'query', desc: 'Get user by ID', input: '{ id: string }', output: '{ user }' },
       { name: 'create', type: 'mutation', desc: 'Create a new user', input: '{ name, email, password, role? }', output: '{ user }' },
-      { name: 'update', type: 'mutation', desc: 'Update user information', input: '{ id, name?, email?, avatar? }', output: '{ user }' },
-      { name: 'delete', type: 'mutation', desc: 'Delete a user', input: '{ id: string }', output: '{ success: boolean }' },
+      { name: 'invite', type: 'mutation', desc: 'Invite a user by email; creates a pending account (admin)', input: '{ email: string, name?: string, roleId: string, teamIds?: string[] }', output: '{ id, email, roleId, teamIds, status, expiresAt }' },
+      { name: 'listInvites', type: 'query', desc: 'List invitations (admin)', input: "{ status?: 'pending' | 'accepted' | 'expired' | 'revoked' }", output: 'Invitation[]' },
+      { name: 'resendInvite', type: 'mutation', desc: 'Send a new invitation link with a fresh expiry (admin)', input: '{ id: string }', output: 'Invitation' },
+      { name: 'revokeInvite', type: 'mutation', desc: 'Revoke an invitation and remove the pending account (admin)', input: '{ id: string }', output: '{ id, status }' },
+      { name: 'update', type: 'mutation', desc: 'Update user information (email changes require verification)', input: '{ id, name?, email?, phone?, department?, position?, bio? }', output: '{ user }' },
+      { name: 'uploadAvatar', type: 'mutation', desc: 'Upload a PNG/JPEG avatar as multipart form data; stored as square thumbnails served from /avatars/:userId', input: 'FormData { file: Blob, id?: string }', output: '{ user }' },
+      { name: 'removeAvatar', type: 'mutation', desc: 'Remove the uploaded avatar (falls back to the generated identicon)', input: '{ id?: string }', output: '{ user }' },
+      { name: 'getPreferences', type: 'query', desc: "Get the current user's preferences (defaults fill unset fields)", input: 'void', output: '{ locale, timezone, theme, dateFormat, dashboardRangeDays, notifications }' },
+      { name: 'updatePreferences', type: 'mutation', desc: "Update the current user's preferences (partial)", input: "{ locale?, timezone?, theme?: 'light' | 'dark' | 'system', dateFormat?, dashboardRangeDays?, notifications?: { email?, inApp?, push?: { enabled?, types? } } }", output: 'Preferences' },
+      { name: 'delete', type: 'mutation', desc: 'Soft delete a user and end their sessions (admin)', input: '{ id: string }', output: '{ id, deletedAt, purgeAt }' },
+      { name: 'listDeleted', type: 'query', desc: 'List deleted users that can still be restored (admin)', input: '{ page?, limit? }', output: '{ list: (User & { purgeAt })[], total, page, limit, totalPages }' },
+      { name: 'restore', type: 'mutation', desc: 'Restore a deleted user before the retention purge (admin)', input: '{ id: string }', output: '{ user }' },
       { name: 'updateRole', type: 'mutation', desc: 'Update user role', input: '{ id: string, roleId: string }', output: '{ user }' },
-      { name: 'updateStatus', type: 'mutation', desc: 'Update user status', input: '{ id: string, status: string }', output: '{ user }' },
+      { name: 'updateManager', type: 'mutation', desc: 'Set or clear a user\'s manager (reporting cycles are rejected)', input: '{ id: string, managerId: string | null }', output: '{ id, managerId, updatedAt }' },
+      { name: 'updateDepartment', type: 'mutation', desc: 'Move a user to a department in the org tree', input: '{ id: string, departmentId: string | null }', output: '{ id, departmentId, updatedAt }' },
+      { name: 'getDirectReports', type: 'query', desc: 'Users reporting directly to a user', input: '{ id: string }', output: 'User[]' },
+      { name: 'getManagementChain', type: 'query', desc: 'A user\'s managers, from the direct manager upwards', input: '{ id: string }', output: 'User[]' },
+      { name: 'updateStatus', type: 'mutation', desc: 'Update user status; suspending or deactivating ends all sessions, reactivateAt schedules reactivation', input: '{ id: string, status: "active" | "inactive" | "suspended", reactivateAt?: string }', output: '{ id, status, reactivateAt, updatedAt }' },
+      { name: 'unlock', type: 'mutation', desc: 'Lift a login lockout (Admin)', input: '{ id: string }', output: '{ id, wasLocked }' },
       { name: 'batchDelete', type: 'mutation', desc: 'Delete multiple users', input: '{ ids: string[] }', output: '{ deletedCount: number }' },
     ],
   },
@@ -415,6 +521,20 @@ const API_DOCS = {
       { name: 'updateMemberRole', type: 'mutation', desc: 'Update member role', input: '{ teamId, userId, role }', output: '{ member }' },
     ],
   },
+  departments: {
+    name: 'Departments',
+    description: 'Department tree and heads',
+    endpoints: [
+      { name: 'list', type: 'query', desc: 'List departments (flat) with search', input: '{ page?, limit?, search?, parentId? }', output: '{ list: Department[], total, page, limit, totalPages }' },
+      { name: 'getTree', type: 'query', desc: 'Get the department tree with heads and member counts', input: 'none', output: 'DepartmentNode[]' },
+      { name: 'getById', type: 'query', desc: 'Get a department with its path from the top', input: '{ id: string }', output: '{ department, path }' },
+      { name: 'create', type: 'mutation', desc: 'Create a department', input: '{ name, description?, parentId?, headId? }', output: '{ department }' },
+      { name: 'update', type: 'mutation', desc: 'Update, move (parentId) or change the head of a department', input: '{ id, name?, description?, parentId?: string | null, headId?: string | null }', output: '{ department }' },
+      { name: 'delete', type: 'mutation', desc: 'Delete a department without subdepartments or members', input: '{ id: string }', output: '{ id, deleted }' },
+      { name: 'getMembers', type: 'query', desc: 'List department members, including subdepartments unless includeSubDepartments is false', input: '{ departmentId, includeSubDepartments?, page?, limit? }', output: '{ list: User[], total, page, limit }' },
+      { name: 'getApprovers', type: 'query', desc: 'Approvers for a user, nearest first: managers, then department heads up the tree', input: '{ userId: string, levels?: number }', output: 'User[]' },
+    ],
+  },
   folders: {
     name: 'Folders',
     description: 'Folder management',
@@ -464,7 +584,7 @@ const API_DOCS = {
     name: 'Calendar',
     description: 'Calendar and events',
     endpoints: [
-      { name: 'list', type: 'query', desc: 'List events in range', input: '{ start: string, end: string }', output: '{ events: Event[] }' },
+      { name: 'list', type: 'query', desc: 'List events in range', input: '{ start: string, end: string }', output: '{ list: Event[], total, timezone }' },
       { name: 'getById', type: 'query', desc: 'Get event by ID', input: '{ id: string }', output: '{ event }' },
       { name: 'create', type: 'mutation', desc: 'Create an event', input: '{ title, start, end, location?, recurrence? }', output: '{ event }' },
       { name: 'update', type: 'mutation', desc: 'Update an event', input: '{ id, title?, start?, end?, location? }', output: '{ event }' },
@@ -480,7 +600,7 @@ const API_DOCS = {
     name: 'Notifications',
     description: 'User notifications',
     endpoints: [
-      { name: 'list', type: 'query', desc: 'List notifications', input: '{ page?, limit?, unreadOnly? }', output: '{ list: Notification[], total }' },
+      { name: 'list', type: 'query', desc: 'List notifications (respects in-app notification preferences)', input: '{ page?, limit?, unreadOnly? }', output: '{ list: Notification[], total }' },
       { name: 'getById', type: 'query', desc: 'Get notification by ID', input: '{ id: string }', output: '{ notification }' },
       { name: 'markAsRead', type: 'mutation', desc: 'Mark as read', input: '{ id: string }', output: '{ notification }' },
       { name: 'markAllAsRead', type: 'mutation', desc: 'Mark all as read', input: 'void', output: '{ updatedCount: number }' },
@@ -728,6 +848,7 @@ curl -X POST ${baseUrl}/trpc/${router}.${endpoint.name} \\
  */
 export function createServer() {
   const app = express();
+  app.set('trust proxy', getTrustProxy());
 
   // Logger configuration - different transports for dev/prod
   const isDevelopment = process.env.NODE_ENV !== 'production';
@@ -774,14 +895,10 @@ export function createServer() {
   );
 
   // CORS configuration
-  app.use(
-    cors({
-      origin: process.env.CORS_ORIGIN || '*',
-      credentials: true,
-    })
-  );
+  app.use(cors(getCorsOptions()));
 
-  // Body parser
+  // Body parser; only users.importCsv, which sends the CSV as JSON, accepts large bodies
+  app.use('/trpc/users.importCsv', express.json({ limit: MAX_CSV_IMPORT_BODY_BYTES }));
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
 
@@ -831,6 +948,81 @@ export function createServer() {
     });
   });
 
+  // Public signing keys so backend services can verify forwarded tokens
+  app.get('/.well-known/jwks.json', (_req: Request, res: Response) => {
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    res.json(signingKeys.getJwks());
+  });
+
+  // OIDC single sign-on: redirect to the identity provider (authorization code + PKCE)
+  app.get('/auth/oidc/login', async (req: Request, res: Response) => {
+    const config = getOidcConfig();
+    if (!config) {
+      res.status(404).json({ code: 404, error: 'Not Found', message: 'Single sign-on is not configured' });
+      return;
+    }
+
+    // Only same-origin paths, to avoid an open redirect
+    const returnTo = typeof req.query.returnTo === 'string' && /^\/(?!\/)/.test(req.query.returnTo)
+      ? req.query.returnTo
+      : undefined;
+
+    const { url, state, expiresIn } = await oidcClient.createAuthorizationUrl(config, returnTo);
+    setOidcStateCookie(res, state, expiresIn);
+    res.redirect(url);
+  });
+
+  // OIDC callback: validate the ID token, then hand the frontend a short-lived login code
+  // Only the browser that started the login (holding the state cookie) can complete it
+  app.get('/auth/oidc/callback', async (req: Request, res: Response) => {
+    const config = getOidcConfig();
+    const { code, state, error } = req.query;
+    clearOidcStateCookie(res);
+    if (!config || error || typeof code !== 'string' || typeof state !== 'string') {
+      logger.warn({ error: error ?? 'invalid_request' }, 'OIDC login failed');
+      res.redirect(buildAppUrl('/login', { error: 'sso_failed' }));
+      return;
+    }
+    if (!verifyOidcStateCookie(req, state)) {
+      logger.warn('OIDC login failed: state does not match this browser');
+      res.redirect(buildAppUrl('/login', { error: 'sso_failed' }));
+      return;
+    }
+
+    try {
+      const { claims, returnTo } = await oidcClient.handleCallback(config, { code, state });
+      const user = await findOrProvisionOidcUser(claims, config);
+      const loginCode = await issueOneTimeToken('sso_login', user.id, SSO_LOGIN_CODE_TTL_SECONDS);
+
+      res.redirect(
+        buildAppUrl('/auth/sso/callback', { code: loginCode, ...(returnTo ? { returnTo } : {}) })
+      );
+    } catch (err) {
+      logger.warn({ err }, 'OIDC login failed');
+      res.redirect(buildAppUrl('/login', { error: 'sso_failed' }));
+    }
+  });
+
+  // Avatar thumbnails uploaded via users.uploadAvatar, with a generated identicon as fallback
+  // Public so <img> tags can load them; the v query parameter changes with every upload
+  app.get('/avatars/:userId', async (req: Request, res: Response) => {
+    const size = req.query.size === undefined ? DEFAULT_AVATAR_SIZE : Number(req.query.size);
+    if (!isAvatarSize(size)) {
+      res.status(400).json({ code: 400, error: 'Bad Request', message: `size must be one of ${AVATAR_SIZES.join(', ')}` });
+      return;
+    }
+
+    const userId = String(req.params.userId);
+    const avatar = await loadAvatar(userId, size);
+    res.setHeader('Content-Type', 'image/png');
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    res.setHeader(
+      'Cache-Control',
+      avatar && req.query.v ? 'public, max-age=31536000, immutable' : 'public, max-age=300'
+    );
+    res.send(avatar ?? (await renderIdenticon(userId, size)));
+  });
+
   // API info endpoint
   app.get('/api', (_req: Request, res: Response) => {
     res.json({
@@ -843,6 +1035,9 @@ export function createServer() {
         home: '/',
         health: '/health',
         healthServices: '/health/services',
+        jwks: '/.well-known/jwks.json',
+        oidcLogin: '/auth/oidc/login',
+        avatars: '/avatars/:userId',
         api: '/api',
         trpc: '/trpc',
       },
@@ -853,6 +1048,7 @@ export function createServer() {
         permissions: { endpoints: 7, description: 'Permission Management' },
         roles: { endpoints: 8, description: 'Role Management' },
         teams: { endpoints: 9, description: 'Team Management' },
+        departments: { endpoints: 8, description: 'Department Management' },
         folders: { endpoints: 8, description: 'Folder Management' },
         files: { endpoints: 9, description: 'File Management' },
         documents: { endpoints: 10, description: 'Document Management' },
@@ -860,16 +1056,24 @@ export function createServer() {
         notifications: { endpoints: 7, description: 'Notifications' },
         messages: { endpoints: 9, description: 'Messaging' },
       },
-      totalEndpoints: 102,
+      totalEndpoints: 110,
     });
   });
 
   // tRPC middleware
   app.use(
     '/trpc',
+    // express.json() defines req.body on every request, which makes the adapter skip the
+    // request stream; multipart bodies (avatar uploads) must be read by tRPC itself
+    (req: Request, _res: Response, next: express.NextFunction) => {
+      if (req.is('multipart/form-data')) delete req.body;
+      next();
+    },
     createExpressMiddleware({
       router: appRouter,
       createContext,
+      // JSON bodies are capped by express.json; this bounds multipart uploads (avatars)
+      maxBodySize: getAvatarMaxBytes() + 64 * 1024,
       onError({ error, type, path, input }) {
         logger.error(
           {
@@ -891,12 +1095,19 @@ export function createServer() {
       code: 404,
       error: 'Not Found',
       message: 'The requested endpoint does not exist',
-      availableEndpoints: ['/', '/health', '/health/services', '/api', '/trpc'],
+      availableEndpoints: ['/', '/health', '/health/services', '/.well-known/jwks.json', '/auth/oidc/login', '/api', '/trpc'],
     });
   });
 
   // Global error handler
   app.use((err: Error, _req: Request, res: Response, _next: express.NextFunction) => {
+    // Client errors from the body parsers (malformed JSON, body over the limit)
+    const status = (err as Error & { status?: number }).status;
+    if (status && status >= 400 && status < 500) {
+      res.status(status).json({ code: status, error: STATUS_CODES[status], message: err.message });
+      return;
+    }
+
     logger.error(err, 'Unhandled error');
     res.status(500).json({
       code: 500,
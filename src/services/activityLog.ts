@@ -0,0 +1,71 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * Activity feed entry (same shape as dashboard.getActivities items)
+ */
+export interface ActivityRecord {
+  id: string;
+  /** Display name of the actor (user name, email or IP address) */
+  user: string;
+  avatar?: string;
+  action: string;
+  target: string;
+  time: string;
+  userId?: string;
+}
+
+/**
+ * Activity log persistence contract
+ */
+export interface ActivityLogStore {
+  append(record: ActivityRecord): Promise<void>;
+  /** Most recent entries first */
+  listRecent(limit: number): Promise<ActivityRecord[]>;
+  /** Most recent entries of one user first */
+  listByUser(userId: string, limit: number): Promise<ActivityRecord[]>;
+}
+
+// Entries kept by the in-memory store
+const MAX_IN_MEMORY_ACTIVITIES = 1000;
+
+/**
+ * Create an in-memory activity log (oldest entries are dropped beyond a fixed size)
+ */
+export function createInMemoryActivityLogStore(): ActivityLogStore {
+  const records: ActivityRecord[] = [];
+
+  return {
+    async append(record) {
+      records.unshift(record);
+      records.splice(MAX_IN_MEMORY_ACTIVITIES);
+    },
+
+    async listRecent(limit) {
+      return records.slice(0, limit);
+    },
+
+    async listByUser(userId, limit) {
+      return records.filter((record) => record.userId === userId).slice(0, limit);
+    },
+  };
+}
+
+/**
+ * Singleton instance
+ */
+export const activityLogStore = createInMemoryActivityLogStore();
+
+/**
+ * Record an activity for the dashboard feed
+ */
+export async function recordActivity(
+  activity: Omit<ActivityRecord, 'id' | 'time'>
+): Promise<ActivityRecord> {
+  const record: ActivityRecord = {
+    ...activity,
+    id: randomUUID(),
+    time: new Date().toISOString(),
+  };
+  await activityLogStore.append(record);
+  return record;
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { getUserRepository } from './userRepository';
+import { createBearerCaller, createTestCaller, createTestUser, loginAs } from '../test/helpers';
+
+/**
+ * Sign in and create an API key with the given permissions
+ * Returns the bearer token, the created key and a fresh caller (new request) for the key
+ */
+async function createKey(email: string, permissions: string[]) {
+  const { token } = await loginAs(email);
+  const { data } = await (
+    await createBearerCaller(token)
+  ).auth.createApiKey({
+    name: 'ci',
+    permissions,
+  });
+  return { token, key: data, withKey: () => createTestCaller({ 'x-api-key': data.key }) };
+}
+
+describe('API keys', () => {
+  it('act with the granted subset of the owner permissions only', async () => {
+    const admin = await createTestUser({ name: 'Key Admin', roleId: 'role-admin' });
+    const { withKey } = await createKey(admin.email, ['users:*', 'dashboard:view']);
+
+    const { data } = await (await withKey()).auth.getCurrentUser();
+    expect(data.role.permissions).toEqual(['users:*', 'dashboard:view']);
+    // A narrowed key does not pass role-name checks such as adminProcedure
+    await expect((await withKey()).users.listInvites()).rejects.toMatchObject({
+      code: 'FORBIDDEN',
+    });
+
+    const { withKey: fullKey } = await createKey(admin.email, ['*']);
+    await expect((await fullKey()).users.listInvites()).resolves.toHaveProperty('code', 200);
+  });
+
+  it('are narrowed when the owner is downgraded', async () => {
+    const editor = await createTestUser({ name: 'Key Editor', roleId: 'role-editor' });
+    const { withKey } = await createKey(editor.email, ['dashboard:view', 'users:view']);
+
+    await getUserRepository().update(editor.id, { roleId: 'role-viewer' });
+
+    const { data } = await (await withKey()).auth.getCurrentUser();
+    expect(data.role.name).toBe('viewer:api-key');
+    expect(data.role.permissions).toEqual(['dashboard:view']);
+  });
+
+  it('cannot grant permissions the owner does not have', async () => {
+    const viewer = await createTestUser({ name: 'Key Viewer' });
+    await expect(createKey(viewer.email, ['users:*'])).rejects.toMatchObject({
+      code: 'FORBIDDEN',
+      message: 'Cannot grant permissions you do not have: users:*',
+    });
+  });
+
+  it('stop working once revoked', async () => {
+    const owner = await createTestUser({ name: 'Key Owner' });
+    const { token, key, withKey } = await createKey(owner.email, ['dashboard:view']);
+    await expect((await withKey()).auth.getCurrentUser()).resolves.toHaveProperty(
+      'data.id',
+      owner.id
+    );
+
+    await (await createBearerCaller(token)).auth.revokeApiKey({ id: key.id });
+
+    await expect((await withKey()).auth.getCurrentUser()).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+    });
+    const { data: listed } = await (await createBearerCaller(token)).auth.listApiKeys();
+    expect(listed.map((summary) => summary.id)).not.toContain(key.id);
+    await expect(
+      (await createBearerCaller(token)).auth.revokeApiKey({ id: key.id })
+    ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it("cannot revoke another user's key", async () => {
+    const owner = await createTestUser({ name: 'Guarded Key Owner' });
+    const other = await createTestUser({ name: 'Other Key Owner' });
+    const { key, withKey } = await createKey(owner.email, ['dashboard:view']);
+
+    const intruder = await createBearerCaller((await loginAs(other.email)).token);
+    await expect(intruder.auth.revokeApiKey({ id: key.id })).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+    });
+    await expect((await withKey()).auth.getCurrentUser()).resolves.toHaveProperty(
+      'data.id',
+      owner.id
+    );
+  });
+
+  it('cannot manage credentials', async () => {
+    const owner = await createTestUser({ name: 'Credential Key Owner', roleId: 'role-admin' });
+    const { key, withKey } = await createKey(owner.email, ['*']);
+
+    await expect(
+      (await withKey()).auth.createApiKey({ name: 'minted', permissions: ['*'] })
+    ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect((await withKey()).auth.revokeApiKey({ id: key.id })).rejects.toMatchObject({
+      code: 'FORBIDDEN',
+      message: 'API keys cannot be managed with an API key',
+    });
+  });
+});
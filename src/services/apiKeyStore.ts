@@ -0,0 +1,155 @@
+import { randomBytes, randomUUID } from 'crypto';
+import type { User } from '../context';
+import { hashToken } from './tokenService';
+import { getAccountStatusDenial, getUserRepository, toContextUser } from './userRepository';
+
+/**
+ * Stored API key (only the hash of the key is kept)
+ */
+export interface ApiKeyRecord {
+  id: string;
+  userId: string;
+  name: string;
+  /** First characters of the key, shown so users can tell keys apart */
+  prefix: string;
+  keyHash: string;
+  /** Subset of the owner's permissions granted to the key */
+  permissions: string[];
+  createdAt: string;
+  expiresAt?: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+/**
+ * API key persistence contract
+ */
+export interface ApiKeyStore {
+  save(record: ApiKeyRecord): Promise<void>;
+  findById(id: string): Promise<ApiKeyRecord | null>;
+  findByHash(keyHash: string): Promise<ApiKeyRecord | null>;
+  update(id: string, updates: Partial<ApiKeyRecord>): Promise<void>;
+  listByUser(userId: string): Promise<ApiKeyRecord[]>;
+}
+
+// Keys are recognizable in logs and secret scanners by this prefix
+const API_KEY_PREFIX = 'hlk_';
+
+// Minimum interval between lastUsedAt writes (1 minute in milliseconds)
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Create an in-memory API key store
+ */
+export function createInMemoryApiKeyStore(): ApiKeyStore {
+  const records = new Map<string, ApiKeyRecord>();
+
+  return {
+    async save(record) {
+      records.set(record.id, record);
+    },
+
+    async findById(id) {
+      return records.get(id) ?? null;
+    },
+
+    async findByHash(keyHash) {
+      return Array.from(records.values()).find((r) => r.keyHash === keyHash) ?? null;
+    },
+
+    async update(id, updates) {
+      const existing = records.get(id);
+      if (existing) {
+        records.set(id, { ...existing, ...updates });
+      }
+    },
+
+    async listByUser(userId) {
+      return Array.from(records.values()).filter((r) => r.userId === userId);
+    },
+  };
+}
+
+/**
+ * Singleton instance
+ */
+export const apiKeyStore = createInMemoryApiKeyStore();
+
+/**
+ * Check whether a permission list grants a permission ("*", "module:*" or exact match)
+ */
+export function grantsPermission(granted: string[], permission: string): boolean {
+  if (granted.includes('*') || granted.includes(permission)) return true;
+  const [module] = permission.split(':');
+  return granted.includes(`${module}:*`);
+}
+
+/**
+ * Create an API key for a user
+ * Returns the raw key, which is only available at creation time
+ */
+export async function createApiKey(
+  userId: string,
+  options: { name: string; permissions: string[]; expiresAt?: string }
+): Promise<{ key: string; record: ApiKeyRecord }> {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const record: ApiKeyRecord = {
+    id: randomUUID(),
+    userId,
+    name: options.name,
+    prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+    keyHash: hashToken(key),
+    permissions: options.permissions,
+    createdAt: new Date().toISOString(),
+    expiresAt: options.expiresAt,
+  };
+
+  await apiKeyStore.save(record);
+  return { key, record };
+}
+
+/**
+ * Resolve an API key into the user it acts for
+ * The key's permissions are intersected with the owner's current role, so
+ * downgrading the owner also narrows their keys. Returns null for unknown,
+ * revoked or expired keys and for owners that are suspended or inactive.
+ */
+export async function resolveApiKey(
+  key: string
+): Promise<{ user: User; record: ApiKeyRecord } | null> {
+  if (!key.startsWith(API_KEY_PREFIX)) return null;
+
+  const record = await apiKeyStore.findByHash(hashToken(key));
+  const now = new Date();
+  if (!record || record.revokedAt || (record.expiresAt && new Date(record.expiresAt) <= now)) {
+    return null;
+  }
+
+  // Same status rule as tokens, including a scheduled reactivation that has passed
+  const owner = await getUserRepository().findById(record.userId);
+  if (!owner || getAccountStatusDenial(owner)) return null;
+
+  if (
+    !record.lastUsedAt ||
+    now.getTime() - new Date(record.lastUsedAt).getTime() >= LAST_USED_UPDATE_INTERVAL_MS
+  ) {
+    await apiKeyStore.update(record.id, { lastUsedAt: now.toISOString() });
+  }
+
+  const user = toContextUser(owner);
+  const permissions = record.permissions.filter((p) => grantsPermission(user.role.permissions, p));
+  const fullScope = user.role.permissions.every((p) => grantsPermission(permissions, p));
+
+  return {
+    user: {
+      ...user,
+      role: {
+        ...user.role,
+        // Role-name checks (adminProcedure, hasRole) must not bypass a narrowed key
+        name: fullScope ? user.role.name : `${user.role.name}:api-key`,
+        permissions,
+      },
+    },
+    record,
+  };
+}
@@ -0,0 +1,115 @@
+import { sendMail } from './mailer';
+
+/**
+ * Build a link into the frontend application (APP_URL)
+ */
+export function buildAppUrl(pathname: string, params: Record<string, string> = {}): string {
+  const url = new URL(pathname, process.env.APP_URL || 'http://localhost:3000');
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+  return url.toString();
+}
+
+/**
+ * Send the password reset link
+ */
+export function sendPasswordResetEmail(
+  to: { name: string; email: string },
+  token: string,
+  ttlSeconds: number
+): Promise<void> {
+  const link = buildAppUrl('/reset-password', { token });
+  const minutes = Math.round(ttlSeconds / 60);
+
+  return sendMail({
+    to: to.email,
+    subject: 'Reset your HaloLight password',
+    text: [
+      `Hi ${to.name},`,
+      '',
+      'We received a request to reset your password. Use the link below to choose a new one:',
+      link,
+      '',
+      `The link expires in ${minutes} minutes and can only be used once.`,
+      "If you didn't request this, you can ignore this email.",
+    ].join('\n'),
+  });
+}
+
+/**
+ * Send the email address verification link
+ */
+export function sendVerificationEmail(
+  to: { name: string; email: string },
+  token: string,
+  ttlSeconds: number
+): Promise<void> {
+  const link = buildAppUrl('/verify-email', { token });
+  const hours = Math.round(ttlSeconds / 3600);
+
+  return sendMail({
+    to: to.email,
+    subject: 'Verify your HaloLight email address',
+    text: [
+      `Hi ${to.name},`,
+      '',
+      'Please confirm your email address by opening the link below:',
+      link,
+      '',
+      `The link expires in ${hours} hours and can only be used once.`,
+      "If you didn't create an account or change your email, you can ignore this email.",
+    ].join('\n'),
+  });
+}
+
+/**
+ * Send a passwordless sign-in link
+ */
+export function sendMagicLinkEmail(
+  to: { name: string; email: string },
+  token: string,
+  ttlSeconds: number
+): Promise<void> {
+  const link = buildAppUrl('/auth/magic-link', { token });
+  const minutes = Math.round(ttlSeconds / 60);
+
+  return sendMail({
+    to: to.email,
+    subject: 'Your HaloLight sign-in link',
+    text: [
+      `Hi ${to.name},`,
+      '',
+      'Use the link below to sign in. Open it in the same browser you requested it from:',
+      link,
+      '',
+      `The link expires in ${minutes} minutes and can only be used once.`,
+      "If you didn't try to sign in, you can ignore this email.",
+    ].join('\n'),
+  });
+}
+
+/**
+ * Send an invitation to join HaloLight
+ */
+export function sendInvitationEmail(
+  email: string,
+  inviterName: string,
+  token: string,
+  ttlSeconds: number
+): Promise<void> {
+  const link = buildAppUrl('/accept-invite', { token });
+  const days = Math.round(ttlSeconds / 86400);
+
+  return sendMail({
+    to: email,
+    subject: `${inviterName} invited you to HaloLight`,
+    text: [
+      'Hi,',
+      '',
+      `${inviterName} has invited you to join HaloLight. Open the link below to set your password:`,
+      link,
+      '',
+      `The invitation expires in ${days} days and can only be used once.`,
+      "If you weren't expecting this invitation, you can ignore this email.",
+    ].join('\n'),
+  });
+}
@@ -0,0 +1,116 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { AVATAR_SIZES, loadAvatar, renderIdenticon, saveAvatar } from './avatar';
+
+const fixture = (name: string): Buffer =>
+  readFileSync(path.join(__dirname, '../test/fixtures/images', name));
+
+/**
+ * RGBA value of one pixel of a stored PNG thumbnail
+ */
+async function pixelAt(png: Buffer, x: number, y: number): Promise<number[]> {
+  const { data, info } = await sharp(png).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  const offset = (y * info.width + x) * 4;
+  return [...data.subarray(offset, offset + 4)];
+}
+
+const isRed = ([r, g, b]: number[]) => r > 200 && g < 60 && b < 60;
+const isBlue = ([r, g, b]: number[]) => b > 200 && r < 60 && g < 60;
+
+describe('saveAvatar', () => {
+  it('stores center-cropped PNG thumbnails in every size', async () => {
+    await saveAvatar('user-jpeg', fixture('landscape.jpg'), 'image/jpeg');
+
+    for (const size of AVATAR_SIZES) {
+      const thumbnail = (await loadAvatar('user-jpeg', size))!;
+      expect(await sharp(thumbnail).metadata()).toMatchObject({
+        format: 'png',
+        width: size,
+        height: size,
+      });
+    }
+
+    // 128x64, red | blue: the centered square keeps both halves side by side
+    const thumbnail = (await loadAvatar('user-jpeg', 64))!;
+    expect(isRed(await pixelAt(thumbnail, 8, 32))).toBe(true);
+    expect(isBlue(await pixelAt(thumbnail, 56, 32))).toBe(true);
+  });
+
+  it('turns JPEGs upright according to their EXIF orientation', async () => {
+    // Same pixels as landscape.jpg, displayed rotated 90 degrees clockwise: red on top
+    await saveAvatar('user-rotated', fixture('orientation-6.jpg'));
+
+    const thumbnail = (await loadAvatar('user-rotated', 64))!;
+    expect(isRed(await pixelAt(thumbnail, 32, 8))).toBe(true);
+    expect(isBlue(await pixelAt(thumbnail, 32, 56))).toBe(true);
+  });
+
+  it('accepts progressive JPEGs', async () => {
+    await saveAvatar('user-progressive', fixture('progressive.jpg'), 'image/jpg');
+
+    expect(await pixelAt((await loadAvatar('user-progressive', 32))!, 16, 16)).toEqual([
+      expect.closeTo(10, -1),
+      expect.closeTo(20, -1),
+      expect.closeTo(30, -1),
+      255,
+    ]);
+  });
+
+  it('keeps PNG transparency', async () => {
+    await saveAvatar('user-png', fixture('transparent.png'), 'image/png');
+
+    const thumbnail = (await loadAvatar('user-png', 32))!;
+    expect((await pixelAt(thumbnail, 4, 16))[3]).toBe(0);
+    expect(await pixelAt(thumbnail, 28, 16)).toEqual([0, 200, 0, 255]);
+  });
+
+  it.each([
+    ['a GIF', fixture('square.gif'), undefined, 'Unsupported image type'],
+    ['random bytes', Buffer.from('not an image at all'), undefined, 'Unsupported image type'],
+    [
+      'a PNG signature followed by garbage',
+      Buffer.concat([fixture('transparent.png').subarray(0, 8), Buffer.alloc(64, 0xab)]),
+      undefined,
+      'Unsupported image type',
+    ],
+    ['a mislabeled JPEG', fixture('landscape.jpg'), 'image/png', 'does not match its type'],
+    ['an image below the minimum size', fixture('too-small.png'), undefined, 'at least 64x64'],
+    ['an image over the maximum size', fixture('too-wide.png'), undefined, 'at most 2048x2048'],
+  ])('rejects %s', async (_label, upload, declaredType, message) => {
+    await expect(saveAvatar('user-rejected', upload, declaredType)).rejects.toMatchObject({
+      code: 'BAD_REQUEST',
+      message: expect.stringContaining(message),
+    });
+    expect(await loadAvatar('user-rejected', 32)).toBeNull();
+  });
+
+  it.each([
+    ['PNG', 'transparent.png'],
+    ['JPEG', 'landscape.jpg'],
+  ])('rejects a truncated %s', async (_label, name) => {
+    const image = fixture(name);
+
+    await expect(
+      saveAvatar('user-truncated', image.subarray(0, Math.floor(image.length * 0.6)))
+    ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    expect(await loadAvatar('user-truncated', 32)).toBeNull();
+  });
+
+  it('rejects uploads over the byte limit before reading them', async () => {
+    await expect(saveAvatar('user-huge', Buffer.alloc(5 * 1024 * 1024 + 1))).rejects.toMatchObject({
+      code: 'PAYLOAD_TOO_LARGE',
+    });
+  });
+});
+
+describe('renderIdenticon', () => {
+  it('renders the same PNG for the same seed', async () => {
+    const first = await renderIdenticon('user-1', 64);
+
+    expect(await sharp(first).metadata()).toMatchObject({ format: 'png', width: 64, height: 64 });
+    expect((await renderIdenticon('user-1', 64)).equals(first)).toBe(true);
+    expect((await renderIdenticon('user-2', 64)).equals(first)).toBe(false);
+  });
+});
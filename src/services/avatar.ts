@@ -0,0 +1,212 @@
+import { TRPCError } from '@trpc/server';
+import { createHash } from 'crypto';
+import sharp, { Metadata } from 'sharp';
+import { getFileStorage } from './fileStorage';
+
+// Square thumbnail sizes generated for every avatar, in pixels
+export const AVATAR_SIZES = [32, 64, 128, 256] as const;
+
+export type AvatarSize = (typeof AVATAR_SIZES)[number];
+
+// Size served when the request does not ask for one
+export const DEFAULT_AVATAR_SIZE: AvatarSize = 128;
+
+// Largest accepted upload (5 MB)
+const DEFAULT_AVATAR_MAX_BYTES = 5 * 1024 * 1024;
+
+// Accepted image dimensions, per side, and in total (decoding is bounded by the total)
+const AVATAR_MIN_DIMENSION = 64;
+const AVATAR_MAX_DIMENSION = 2048;
+const AVATAR_MAX_PIXELS = 2048 * 2048;
+
+// Accepted upload formats, as reported by sharp, and their content types
+const AVATAR_FORMATS: Record<string, string> = { png: 'image/png', jpeg: 'image/jpeg' };
+
+// Identicon colors: light gray background, foreground hue derived from the seed
+const IDENTICON_BACKGROUND = [240, 240, 240];
+
+/**
+ * Largest accepted avatar upload in bytes (AVATAR_MAX_BYTES)
+ */
+export function getAvatarMaxBytes(): number {
+  return Number(process.env.AVATAR_MAX_BYTES) || DEFAULT_AVATAR_MAX_BYTES;
+}
+
+/**
+ * Whether a number is one of the generated thumbnail sizes
+ */
+export function isAvatarSize(size: number): size is AvatarSize {
+  return (AVATAR_SIZES as readonly number[]).includes(size);
+}
+
+const avatarKey = (userId: string, size: AvatarSize): string => `avatars/${userId}/${size}.png`;
+
+// User IDs are UUIDs; anything else cannot have a stored avatar
+const isValidUserId = (userId: string): boolean => /^[\w-]+$/.test(userId);
+
+/**
+ * Public URL of a user's avatar (stored thumbnails or the identicon fallback)
+ * The version changes on every upload so clients and caches pick up the new image
+ */
+export function getAvatarUrl(
+  userId: string,
+  version?: string,
+  size: AvatarSize = DEFAULT_AVATAR_SIZE
+): string {
+  const base = (process.env.PUBLIC_URL || '').replace(/\/+$/, '');
+  const query = new URLSearchParams({ size: String(size), ...(version ? { v: version } : {}) });
+  return `${base}/avatars/${encodeURIComponent(userId)}?${query}`;
+}
+
+const invalidImage = (message: string): TRPCError =>
+  new TRPCError({ code: 'BAD_REQUEST', message });
+
+/**
+ * Open an upload with sharp; decoding runs on the libuv thread pool, not the event loop
+ * Images over AVATAR_MAX_PIXELS are refused before their pixels are decoded, and warnings
+ * (e.g. truncated data) fail the upload
+ */
+const openImage = (upload: Buffer) =>
+  sharp(upload, { limitInputPixels: AVATAR_MAX_PIXELS, failOn: 'warning' });
+
+/**
+ * Check an upload's format and dimensions from its header, before decoding it
+ * The declared content type must match the actual format
+ */
+async function validateAvatarImage(upload: Buffer, declaredType?: string): Promise<Metadata> {
+  if (upload.length > getAvatarMaxBytes()) {
+    throw new TRPCError({
+      code: 'PAYLOAD_TOO_LARGE',
+      message: `Avatar must be at most ${getAvatarMaxBytes()} bytes`,
+    });
+  }
+
+  let info: Metadata;
+  try {
+    info = await openImage(upload).metadata();
+  } catch {
+    throw invalidImage('Unsupported image type, upload a PNG or JPEG image');
+  }
+  const type = AVATAR_FORMATS[info.format];
+  if (!type) {
+    throw invalidImage('Unsupported image type, upload a PNG or JPEG image');
+  }
+
+  const declared = declaredType === 'image/jpg' ? 'image/jpeg' : declaredType;
+  if (declared && declared !== 'application/octet-stream' && declared !== type) {
+    throw invalidImage(`File content (${type}) does not match its type (${declaredType})`);
+  }
+
+  const { width, height } = info;
+  if (Math.min(width, height) < AVATAR_MIN_DIMENSION) {
+    throw invalidImage(
+      `Image must be at least ${AVATAR_MIN_DIMENSION}x${AVATAR_MIN_DIMENSION} pixels`
+    );
+  }
+  if (Math.max(width, height) > AVATAR_MAX_DIMENSION || width * height > AVATAR_MAX_PIXELS) {
+    throw invalidImage(
+      `Image must be at most ${AVATAR_MAX_DIMENSION}x${AVATAR_MAX_DIMENSION} pixels`
+    );
+  }
+  return info;
+}
+
+/**
+ * Validate an uploaded image and store it as square PNG thumbnails in every avatar size
+ * JPEGs are turned upright according to their EXIF orientation first
+ * Returns the new avatar version
+ */
+export async function saveAvatar(
+  userId: string,
+  upload: Buffer,
+  declaredType?: string
+): Promise<string> {
+  await validateAvatarImage(upload, declaredType);
+
+  let thumbnails: Buffer[];
+  try {
+    const image = openImage(upload).autoOrient();
+    thumbnails = await Promise.all(
+      AVATAR_SIZES.map((size) =>
+        image.clone().resize(size, size, { fit: 'cover', position: 'centre' }).png().toBuffer()
+      )
+    );
+  } catch (error) {
+    throw invalidImage(`Image could not be decoded: ${(error as Error).message}`);
+  }
+
+  const storage = getFileStorage();
+  for (const [index, size] of AVATAR_SIZES.entries()) {
+    await storage.put(avatarKey(userId, size), thumbnails[index]);
+  }
+
+  return createHash('sha256').update(upload).digest('base64url').slice(0, 12);
+}
+
+/**
+ * Load a stored avatar thumbnail (PNG), or null if the user has not uploaded one
+ */
+export async function loadAvatar(userId: string, size: AvatarSize): Promise<Buffer | null> {
+  return isValidUserId(userId) ? getFileStorage().get(avatarKey(userId, size)) : null;
+}
+
+/**
+ * Delete all stored thumbnails of a user's avatar
+ */
+export async function deleteAvatar(userId: string): Promise<void> {
+  if (!isValidUserId(userId)) return;
+  const storage = getFileStorage();
+  await Promise.all(AVATAR_SIZES.map((size) => storage.delete(avatarKey(userId, size))));
+}
+
+/**
+ * Convert a hue (0-360) at fixed saturation and lightness to RGB
+ */
+function hueToRgb(hue: number, saturation: number, lightness: number): number[] {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = lightness - chroma / 2;
+  const sectors = [
+    [chroma, x, 0],
+    [x, chroma, 0],
+    [0, chroma, x],
+    [0, x, chroma],
+    [x, 0, chroma],
+    [chroma, 0, x],
+  ];
+  const [r, g, b] = sectors[Math.floor(hue / 60) % 6];
+  return [r, g, b].map((value) => Math.round((value + m) * 255));
+}
+
+/**
+ * Render a deterministic identicon PNG for a seed (the user ID)
+ * A 5x5 grid mirrored around the middle column, colored from a hash of the seed
+ */
+export function renderIdenticon(seed: string, size: AvatarSize): Promise<Buffer> {
+  const hash = createHash('sha256').update(seed).digest();
+  const foreground = hueToRgb(((hash[0] << 8) | hash[1]) % 360, 0.55, 0.5);
+  // Bits for the left three columns; the right two mirror them
+  const filled = (row: number, column: number): boolean =>
+    (hash[2 + row * 3 + (column < 3 ? column : 4 - column)] & 1) === 1;
+
+  const margin = Math.floor(size / 12);
+  const grid = size - 2 * margin;
+  const data = new Uint8Array(size * size * 4);
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const row = Math.floor(((y - margin) * 5) / grid);
+      const column = Math.floor(((x - margin) * 5) / grid);
+      const inGrid = row >= 0 && row < 5 && column >= 0 && column < 5;
+      const color = inGrid && filled(row, column) ? foreground : IDENTICON_BACKGROUND;
+
+      const out = (y * size + x) * 4;
+      data.set(color, out);
+      data[out + 3] = 255;
+    }
+  }
+
+  return sharp(data, { raw: { width: size, height: size, channels: 4 } })
+    .png()
+    .toBuffer();
+}
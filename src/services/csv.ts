@@ -0,0 +1,100 @@
+// Leading characters that make spreadsheet applications evaluate a cell as a formula
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+/**
+ * Limits for a single CSV import (5 MB of UTF-8 text, 5000 data rows)
+ */
+export const MAX_CSV_IMPORT_BYTES = 5 * 1024 * 1024;
+export const MAX_CSV_IMPORT_ROWS = 5000;
+
+/**
+ * Largest users.importCsv request body: a maximal CSV, whose quotes and line breaks at most
+ * double in size when JSON-escaped, plus the rest of the request
+ */
+export const MAX_CSV_IMPORT_BODY_BYTES = 2 * MAX_CSV_IMPORT_BYTES + 64 * 1024;
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, doubled quotes, CRLF or LF line breaks)
+ * Returns one array of cells per record; blank lines are skipped
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let i = 0;
+
+  const endRecord = () => {
+    record.push(cell);
+    if (record.length > 1 || record[0] !== '') records.push(record);
+    record = [];
+    cell = '';
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      i += 1;
+      continue;
+    }
+
+    if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      endRecord();
+      if (char === '\r' && input[i + 1] === '\n') i += 1;
+    } else {
+      cell += char;
+    }
+    i += 1;
+  }
+
+  if (quoted) {
+    throw new Error('Unterminated quoted field');
+  }
+  if (cell !== '' || record.length > 0) endRecord();
+
+  return records;
+}
+
+/**
+ * Format one CSV record, terminated by CRLF
+ * Cells that would be evaluated as formulas are prefixed with a single quote
+ */
+export function formatCsvRow(values: Array<string | number | null | undefined>): string {
+  return (
+    values
+      .map((value) => {
+        let cell = value === null || value === undefined ? '' : String(value);
+        if (FORMULA_PREFIXES.some((prefix) => cell.startsWith(prefix))) {
+          cell = `'${cell}`;
+        }
+        return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+      })
+      .join(',') + '\r\n'
+  );
+}
+
+/**
+ * Undo the formula guard added by formatCsvRow, so exported files can be imported again
+ */
+export function unescapeCsvCell(cell: string): string {
+  return cell.startsWith("'") && FORMULA_PREFIXES.some((prefix) => cell.startsWith(prefix, 1))
+    ? cell.slice(1)
+    : cell;
+}
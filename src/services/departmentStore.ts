@@ -0,0 +1,84 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * Department in the organization tree
+ */
+export interface DepartmentRecord {
+  id: string;
+  name: string;
+  description?: string;
+  /** Parent department; unset for top-level departments */
+  parentId?: string;
+  /** User heading the department (approver for members without a manager) */
+  headId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Fields required to create a department
+ */
+export type NewDepartmentRecord = Omit<DepartmentRecord, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Department persistence contract
+ */
+export interface DepartmentStore {
+  create(department: NewDepartmentRecord): Promise<DepartmentRecord>;
+  findById(id: string): Promise<DepartmentRecord | null>;
+  /** Fields set to undefined are cleared */
+  update(id: string, updates: Partial<NewDepartmentRecord>): Promise<DepartmentRecord | null>;
+  delete(id: string): Promise<boolean>;
+  list(): Promise<DepartmentRecord[]>;
+}
+
+/**
+ * Create an in-memory department store
+ */
+export function createInMemoryDepartmentStore(): DepartmentStore {
+  const records = new Map<string, DepartmentRecord>();
+
+  return {
+    async create(department) {
+      const now = new Date().toISOString();
+      const record: DepartmentRecord = {
+        ...department,
+        id: randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+      };
+      records.set(record.id, record);
+      return record;
+    },
+
+    async findById(id) {
+      return records.get(id) ?? null;
+    },
+
+    async update(id, updates) {
+      const existing = records.get(id);
+      if (!existing) return null;
+
+      const updated: DepartmentRecord = {
+        ...existing,
+        ...updates,
+        updatedAt: new Date().toISOString(),
+      };
+      records.set(id, updated);
+      return updated;
+    },
+
+    async delete(id) {
+      return records.delete(id);
+    },
+
+    async list() {
+      return Array.from(records.values());
+    },
+  };
+}
+
+/**
+ * Singleton instance
+ */
+export const departmentStore = createInMemoryDepartmentStore();
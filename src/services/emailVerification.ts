@@ -0,0 +1,69 @@
+import { consumeOneTimeToken, issueOneTimeToken } from './oneTimeTokenStore';
+import { sendVerificationEmail } from './authEmails';
+import { isAwaitingInvitation } from './invitationStore';
+import { getUserRepository, UserRecord } from './userRepository';
+
+// Verification link lifetime (1 day in seconds)
+const DEFAULT_EMAIL_VERIFICATION_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Verification link lifetime in seconds (EMAIL_VERIFICATION_TTL_SECONDS)
+ */
+function getEmailVerificationTtl(): number {
+  return (
+    Number(process.env.EMAIL_VERIFICATION_TTL_SECONDS) || DEFAULT_EMAIL_VERIFICATION_TTL_SECONDS
+  );
+}
+
+/**
+ * Send a verification link for an address of the user
+ * Defaults to the account email; pass the pending email when the user changes it
+ * Sending is not awaited so response timing does not depend on the mail transport
+ */
+export async function requestEmailVerification(
+  record: UserRecord,
+  email: string = record.email
+): Promise<void> {
+  const ttlSeconds = getEmailVerificationTtl();
+  const token = await issueOneTimeToken('email_verification', record.id, ttlSeconds, { email });
+
+  sendVerificationEmail({ name: record.name, email }, token, ttlSeconds).catch((error) => {
+    console.error('Failed to send verification email:', error);
+  });
+}
+
+/**
+ * Redeem a verification token
+ * Activates a pending account, or applies a pending email change.
+ * Returns null if the token is invalid, the address it was sent to is no longer current,
+ * or the account is waiting for an invitation to be accepted.
+ */
+export async function confirmEmailVerification(token: string): Promise<UserRecord | null> {
+  const verification = await consumeOneTimeToken('email_verification', token);
+  if (!verification?.data?.email) return null;
+
+  const users = getUserRepository();
+  const record = await users.findById(verification.userId);
+  if (!record || (await isAwaitingInvitation(record.id))) return null;
+
+  const email = verification.data.email;
+  const emailVerifiedAt = new Date().toISOString();
+
+  if (email === record.email) {
+    return users.update(record.id, {
+      emailVerifiedAt,
+      ...(record.status === 'pending' ? { status: 'active' as const } : {}),
+    });
+  }
+
+  if (email === record.pendingEmail) {
+    return users.update(record.id, {
+      email,
+      pendingEmail: undefined,
+      emailVerifiedAt,
+      ...(record.status === 'pending' ? { status: 'active' as const } : {}),
+    });
+  }
+
+  return null;
+}
@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Binary object storage addressed by slash-separated keys (e.g. avatars/<userId>/128.png)
+ */
+export interface FileStorage {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  /** Returns false if the key did not exist */
+  delete(key: string): Promise<boolean>;
+}
+
+/**
+ * Reject keys that could escape the storage root
+ */
+function assertValidKey(key: string): void {
+  if (!/^[\w.-]+(\/[\w.-]+)*$/.test(key) || key.split('/').some((part) => /^\.+$/.test(part))) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
+
+/**
+ * Create an in-memory file storage (data is lost on restart)
+ */
+export function createInMemoryFileStorage(): FileStorage {
+  const files = new Map<string, Buffer>();
+
+  return {
+    async put(key, data) {
+      assertValidKey(key);
+      files.set(key, Buffer.from(data));
+    },
+
+    async get(key) {
+      assertValidKey(key);
+      return files.get(key) ?? null;
+    },
+
+    async delete(key) {
+      assertValidKey(key);
+      return files.delete(key);
+    },
+  };
+}
+
+/**
+ * Create a file storage on the local filesystem under a root directory
+ */
+export function createLocalFileStorage(rootDir: string): FileStorage {
+  const root = path.resolve(rootDir);
+  const resolve = (key: string): string => {
+    assertValidKey(key);
+    return path.join(root, ...key.split('/'));
+  };
+  const isMissing = (error: unknown) => (error as { code?: string }).code === 'ENOENT';
+
+  return {
+    async put(key, data) {
+      // Write to a temp file and rename so readers never see a partial file
+      const filePath = resolve(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tmpPath, data);
+      await fs.rename(tmpPath, filePath);
+    },
+
+    async get(key) {
+      try {
+        return await fs.readFile(resolve(key));
+      } catch (error) {
+        if (isMissing(error)) return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      try {
+        await fs.unlink(resolve(key));
+        return true;
+      } catch (error) {
+        if (isMissing(error)) return false;
+        throw error;
+      }
+    },
+  };
+}
+
+let defaultStorage: FileStorage | null = null;
+
+/**
+ * Get the configured file storage
+ * FILE_STORAGE=local stores files under FILE_STORAGE_PATH (default: data/uploads), otherwise in-memory
+ */
+export function getFileStorage(): FileStorage {
+  if (!defaultStorage) {
+    defaultStorage =
+      process.env.FILE_STORAGE === 'local'
+        ? createLocalFileStorage(process.env.FILE_STORAGE_PATH || 'data/uploads')
+        : createInMemoryFileStorage();
+  }
+  return defaultStorage;
+}
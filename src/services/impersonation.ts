@@ -0,0 +1,37 @@
+import type { User } from '../context';
+import { grantsPermission } from './apiKeyStore';
+
+/**
+ * Permission required to impersonate other users
+ * Must be granted explicitly (or through "*"); "users:*" does not include it
+ */
+export const IMPERSONATE_PERMISSION = 'users:impersonate';
+
+// Default lifetime of an impersonation token (15 minutes in seconds)
+const DEFAULT_IMPERSONATION_TTL_SECONDS = 15 * 60;
+
+/**
+ * Impersonation token lifetime in seconds (IMPERSONATION_TTL_SECONDS)
+ */
+export function getImpersonationTtl(): number {
+  return Number(process.env.IMPERSONATION_TTL_SECONDS) || DEFAULT_IMPERSONATION_TTL_SECONDS;
+}
+
+/**
+ * Check whether an actor may impersonate a target user
+ * Returns the reason it is not allowed, or null if it is
+ * Actors cannot gain permissions they do not already hold through impersonation
+ */
+export function getImpersonationDenial(actor: User, target: User): string | null {
+  const { permissions } = actor.role;
+  if (!permissions.includes('*') && !permissions.includes(IMPERSONATE_PERMISSION)) {
+    return `Permission denied: ${IMPERSONATE_PERMISSION} required`;
+  }
+  if (actor.id === target.id) {
+    return 'You cannot impersonate yourself';
+  }
+  if (!target.role.permissions.every((p) => grantsPermission(permissions, p))) {
+    return 'Cannot impersonate a user with permissions you do not have';
+  }
+  return null;
+}
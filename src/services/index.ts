@@ -7,3 +7,291 @@ export {
   getDefaultClient,
 } from './serviceRegistry';
 export type { ServiceKind, ServiceConfig } from './serviceRegistry';
+
+export { roleStore, roleSchema } from './roleStore';
+export type { Role } from './roleStore';
+
+export { hashPassword, verifyPassword, verifyDummyPassword } from './passwordHasher';
+
+export {
+  PasswordPolicyError,
+  getPasswordPolicy,
+  checkPassword,
+  assertPasswordAllowed,
+  buildPasswordUpdate,
+  isPasswordExpired,
+} from './passwordPolicy';
+export type { PasswordPolicy, PasswordContext } from './passwordPolicy';
+
+export {
+  NOTIFICATION_CHANNELS,
+  DEFAULT_USER_PREFERENCES,
+  notificationChannelPreferencesSchema,
+  userPreferencesSchema,
+  userPreferencesUpdateSchema,
+  mergePreferences,
+  isNotificationEnabled,
+} from './userPreferences';
+export type {
+  NotificationChannel,
+  UserPreferences,
+  UserPreferencesUpdate,
+} from './userPreferences';
+
+export {
+  getUserRepository,
+  createInMemoryUserRepository,
+  createFileUserRepository,
+  ensureBootstrapAdmin,
+  toContextUser,
+  loadContextUser,
+  getAccountStatusDenial,
+  toAdminUser,
+  toPublicUser,
+  toUserView,
+} from './userRepository';
+export type {
+  UserRepository,
+  UserLookupOptions,
+  UserRecord,
+  UserStatus,
+  NewUserRecord,
+  UserRecordUpdate,
+} from './userRepository';
+
+export {
+  getUserRetentionDays,
+  getPurgeDate,
+  getDeletedUserIds,
+  softDeleteUser,
+  restoreUser,
+  purgeDeletedUsers,
+} from './userDeletion';
+
+export { setUserStatus, ensureAccountActive, reactivateDueUsers } from './userStatus';
+
+export { departmentStore, createInMemoryDepartmentStore } from './departmentStore';
+export type { DepartmentStore, DepartmentRecord, NewDepartmentRecord } from './departmentStore';
+
+export {
+  getDepartmentPath,
+  getDepartmentSubtreeIds,
+  wouldCreateDepartmentCycle,
+  getManagementChain,
+  wouldCreateManagerCycle,
+  getDirectReports,
+  getApprovers,
+} from './orgHierarchy';
+
+export { refreshTokenStore, createInMemoryRefreshTokenStore } from './refreshTokenStore';
+export type { RefreshTokenStore, RefreshTokenRecord } from './refreshTokenStore';
+
+export { tokenRevocationStore, createInMemoryTokenRevocationStore } from './tokenRevocationStore';
+export type { TokenRevocationStore } from './tokenRevocationStore';
+
+export {
+  sessionStore,
+  createInMemorySessionStore,
+  describeDevice,
+  getRequestMetadata,
+} from './sessionStore';
+export type { SessionStore, SessionRecord } from './sessionStore';
+
+export { signingKeys } from './signingKeys';
+export type { SigningKey, SigningAlgorithm } from './signingKeys';
+
+export {
+  signAccessToken,
+  verifyAccessToken,
+  assertCurrentPermissionVersion,
+  issueTokens,
+  issueRefreshToken,
+  startSession,
+  touchSession,
+  listActiveSessions,
+  endSession,
+  rotateRefreshToken,
+  revokeRefreshTokenFamily,
+  revokeUserRefreshTokens,
+  revokeAccessToken,
+  revokeRefreshToken,
+  revokeAllUserTokens,
+  getAccessTokenTtl,
+  getRefreshTokenTtl,
+  hashToken,
+} from './tokenService';
+export type { AuthTokens, AccessTokenClaims, SessionMetadata } from './tokenService';
+
+export {
+  sendMail,
+  getMailTransport,
+  setMailTransport,
+  createConsoleTransport,
+  createFileOutboxTransport,
+} from './mailer';
+export type { MailMessage, MailTransport } from './mailer';
+
+export {
+  oneTimeTokenStore,
+  createInMemoryOneTimeTokenStore,
+  issueOneTimeToken,
+  findOneTimeToken,
+  consumeOneTimeToken,
+  recordOneTimeTokenFailure,
+  invalidateOneTimeTokens,
+} from './oneTimeTokenStore';
+export type {
+  OneTimeTokenStore,
+  OneTimeTokenRecord,
+  OneTimeTokenPurpose,
+} from './oneTimeTokenStore';
+
+export {
+  buildAppUrl,
+  sendPasswordResetEmail,
+  sendVerificationEmail,
+  sendMagicLinkEmail,
+  sendInvitationEmail,
+} from './authEmails';
+
+export {
+  generateTotpSecret,
+  generateTotp,
+  verifyTotp,
+  buildOtpauthUrl,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  base32Encode,
+  base32Decode,
+} from './totp';
+
+export { oidcClient, getOidcConfig, mapClaimsToRole, findOrProvisionOidcUser } from './oidcClient';
+export type { OidcConfig, OidcIdTokenClaims } from './oidcClient';
+
+export {
+  apiKeyStore,
+  createInMemoryApiKeyStore,
+  createApiKey,
+  resolveApiKey,
+  grantsPermission,
+} from './apiKeyStore';
+export type { ApiKeyStore, ApiKeyRecord } from './apiKeyStore';
+
+export { activityLogStore, createInMemoryActivityLogStore, recordActivity } from './activityLog';
+export type { ActivityLogStore, ActivityRecord } from './activityLog';
+
+export {
+  createInMemoryLoginAttemptStore,
+  getLoginAttemptStore,
+  setLoginAttemptStore,
+  reserveLoginAttempt,
+  recordLoginFailure,
+  releaseLoginAttempt,
+  recordLoginSuccess,
+  unlockLogin,
+} from './loginThrottle';
+export type { LoginAttemptStore } from './loginThrottle';
+
+export { requestEmailVerification, confirmEmailVerification } from './emailVerification';
+
+export {
+  ACCESS_TOKEN_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+  CSRF_COOKIE,
+  CSRF_HEADER,
+  OIDC_STATE_COOKIE,
+  parseCookies,
+  readSessionCookies,
+  setSessionCookies,
+  clearSessionCookies,
+  setAccessTokenCookie,
+  clearAccessTokenCookie,
+  hasSessionCookies,
+  verifyCsrfToken,
+  setOidcStateCookie,
+  verifyOidcStateCookie,
+  clearOidcStateCookie,
+} from './sessionCookies';
+export type { SessionMode } from './sessionCookies';
+
+export { getCachedRole, invalidateRoleCache } from './roleCache';
+
+export {
+  IMPERSONATE_PERMISSION,
+  getImpersonationTtl,
+  getImpersonationDenial,
+} from './impersonation';
+
+export {
+  SUPPORTED_ALGORITHMS,
+  CEREMONY_TIMEOUT_MS,
+  getWebAuthnConfig,
+  readClientDataChallenge,
+  verifyRegistrationResponse,
+  verifyAuthenticationResponse,
+  createCeremonyChallenge,
+  consumeCeremonyChallenge,
+} from './webauthn';
+export type {
+  WebAuthnConfig,
+  RegistrationCredential,
+  AuthenticationCredential,
+  CeremonyExpectation,
+  StoredCredentialKey,
+  VerifiedRegistration,
+  VerifiedAuthentication,
+} from './webauthn';
+
+export { passkeyStore, createInMemoryPasskeyStore } from './passkeyStore';
+export type { PasskeyStore, PasskeyRecord } from './passkeyStore';
+
+export {
+  getMagicLinkTtl,
+  isMagicLinkAllowed,
+  requestMagicLink,
+  consumeMagicLink,
+} from './magicLink';
+
+export {
+  MAX_CSV_IMPORT_BYTES,
+  MAX_CSV_IMPORT_ROWS,
+  MAX_CSV_IMPORT_BODY_BYTES,
+  parseCsv,
+  formatCsvRow,
+  unescapeCsvCell,
+} from './csv';
+
+export {
+  getFileStorage,
+  createInMemoryFileStorage,
+  createLocalFileStorage,
+} from './fileStorage';
+export type { FileStorage } from './fileStorage';
+
+export {
+  AVATAR_SIZES,
+  DEFAULT_AVATAR_SIZE,
+  getAvatarMaxBytes,
+  isAvatarSize,
+  getAvatarUrl,
+  saveAvatar,
+  loadAvatar,
+  deleteAvatar,
+  renderIdenticon,
+} from './avatar';
+export type { AvatarSize } from './avatar';
+
+export {
+  invitationStore,
+  createInMemoryInvitationStore,
+  getInvitationTtl,
+  getInvitationStatus,
+  sendInvitation,
+  createInvitation,
+  findPendingInvitation,
+  isAwaitingInvitation,
+  removeInvitee,
+  restoreInvitee,
+  removeExpiredInvitees,
+} from './invitationStore';
+export type { InvitationStore, InvitationRecord, InvitationStatus } from './invitationStore';
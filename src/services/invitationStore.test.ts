@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getInvitationTtl, removeExpiredInvitees } from './invitationStore';
+import { issueOneTimeToken } from './oneTimeTokenStore';
+import { confirmEmailVerification } from './emailVerification';
+import { MailMessage, setMailTransport } from './mailer';
+import { getUserRepository } from './userRepository';
+import {
+  createBearerCaller,
+  createTestCaller,
+  createTestUser,
+  loginAs,
+  TEST_PASSWORD,
+} from '../test/helpers';
+
+describe('invitations', () => {
+  let sent: MailMessage[];
+
+  beforeEach(() => {
+    sent = [];
+    setMailTransport({ send: async (message) => void sent.push(message) });
+  });
+
+  const tokenFrom = (message: MailMessage) =>
+    new URL(message.text.match(/https?:\/\/\S+/)![0]).searchParams.get('token')!;
+
+  async function invite(email: string) {
+    await createTestUser({
+      name: `Inviter ${email}`,
+      email: `admin.${email}`,
+      roleId: 'role-admin',
+    });
+    const admin = await createBearerCaller((await loginAs(`admin.${email}`)).token);
+    const { data } = await admin.users.invite({ email, roleId: 'role-viewer' });
+    await vi.waitFor(() => expect(sent.some((message) => message.to === email)).toBe(true));
+    return { admin, invitation: data };
+  }
+
+  const afterExpiry = () => new Date(Date.now() + (getInvitationTtl() + 1) * 1000);
+
+  it('removes the placeholder user when the invitation is revoked', async () => {
+    const { admin, invitation } = await invite('revoked.invitee@example.com');
+
+    await admin.users.revokeInvite({ id: invitation.id });
+    expect(await getUserRepository().findById(invitation.userId)).toBeNull();
+  });
+
+  it('removes the placeholder user once the invitation expires', async () => {
+    const { invitation } = await invite('expired.invitee@example.com');
+
+    expect(await removeExpiredInvitees()).toBe(0);
+    expect(await getUserRepository().findById(invitation.userId)).not.toBeNull();
+
+    expect(await removeExpiredInvitees(afterExpiry())).toBe(1);
+    expect(await getUserRepository().findByEmail('expired.invitee@example.com')).toBeNull();
+  });
+
+  it('recreates the placeholder when an expired invitation is resent', async () => {
+    const email = 'resent.invitee@example.com';
+    const { admin, invitation } = await invite(email);
+    await removeExpiredInvitees(afterExpiry());
+    sent = [];
+
+    const { data: resent } = await admin.users.resendInvite({ id: invitation.id });
+    expect(resent.userId).not.toBe(invitation.userId);
+    await vi.waitFor(() => expect(sent).toHaveLength(1));
+
+    const { data } = await (
+      await createTestCaller()
+    ).auth.acceptInvite({ token: tokenFrom(sent[0]), password: TEST_PASSWORD });
+    expect(data.user).toMatchObject({ id: resent.userId, email });
+  });
+
+  it('does not activate invited accounts through email verification', async () => {
+    const email = 'unverified.invitee@example.com';
+    const { invitation } = await invite(email);
+    sent = [];
+
+    await (await createTestCaller()).auth.resendVerification({ email });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(sent).toHaveLength(0);
+
+    // A link issued before the invitation, e.g. by an earlier resend
+    const token = await issueOneTimeToken('email_verification', invitation.userId, 3600, {
+      email,
+    });
+    expect(await confirmEmailVerification(token)).toBeNull();
+    expect((await getUserRepository().findById(invitation.userId))?.status).toBe('pending');
+  });
+});
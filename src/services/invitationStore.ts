@@ -0,0 +1,233 @@
+import { TRPCError } from '@trpc/server';
+import { randomBytes, randomUUID } from 'crypto';
+import { sendInvitationEmail } from './authEmails';
+import { hashToken } from './tokenService';
+import { getUserRepository } from './userRepository';
+
+/**
+ * Stored invitation (only the hash of the invite token is kept)
+ */
+export interface InvitationRecord {
+  id: string;
+  /** Pending user created for the invitee */
+  userId: string;
+  email: string;
+  roleId: string;
+  /** Teams the invitee joins on acceptance */
+  teamIds: string[];
+  /** ID of the admin who sent the invitation */
+  invitedBy: string;
+  tokenHash: string;
+  createdAt: string;
+  /** Expiry of the current token, renewed on resend */
+  expiresAt: string;
+  lastSentAt: string;
+  acceptedAt?: string;
+  revokedAt?: string;
+}
+
+export type InvitationStatus = 'pending' | 'accepted' | 'expired' | 'revoked';
+
+/**
+ * Invitation persistence contract
+ */
+export interface InvitationStore {
+  save(record: InvitationRecord): Promise<void>;
+  findById(id: string): Promise<InvitationRecord | null>;
+  findByTokenHash(tokenHash: string): Promise<InvitationRecord | null>;
+  update(id: string, updates: Partial<InvitationRecord>): Promise<void>;
+  list(): Promise<InvitationRecord[]>;
+}
+
+// Invitation link lifetime (7 days in seconds)
+const DEFAULT_INVITATION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Create an in-memory invitation store
+ */
+export function createInMemoryInvitationStore(): InvitationStore {
+  const records = new Map<string, InvitationRecord>();
+
+  return {
+    async save(record) {
+      records.set(record.id, record);
+    },
+
+    async findById(id) {
+      return records.get(id) ?? null;
+    },
+
+    async findByTokenHash(tokenHash) {
+      return Array.from(records.values()).find((r) => r.tokenHash === tokenHash) ?? null;
+    },
+
+    async update(id, updates) {
+      const existing = records.get(id);
+      if (existing) {
+        records.set(id, { ...existing, ...updates });
+      }
+    },
+
+    async list() {
+      return Array.from(records.values());
+    },
+  };
+}
+
+/**
+ * Singleton instance
+ */
+export const invitationStore = createInMemoryInvitationStore();
+
+/**
+ * Invitation link lifetime in seconds (INVITATION_TTL_SECONDS)
+ */
+export function getInvitationTtl(): number {
+  return Number(process.env.INVITATION_TTL_SECONDS) || DEFAULT_INVITATION_TTL_SECONDS;
+}
+
+/**
+ * Current state of an invitation
+ */
+export function getInvitationStatus(
+  record: InvitationRecord,
+  now: Date = new Date()
+): InvitationStatus {
+  if (record.revokedAt) return 'revoked';
+  if (record.acceptedAt) return 'accepted';
+  return new Date(record.expiresAt) <= now ? 'expired' : 'pending';
+}
+
+/**
+ * Issue a new invite token with a fresh expiry and email it
+ * Earlier tokens for the invitation stop working
+ */
+export async function sendInvitation(
+  record: InvitationRecord,
+  inviter: { name: string }
+): Promise<InvitationRecord> {
+  const token = randomBytes(32).toString('base64url');
+  const ttlSeconds = getInvitationTtl();
+  const now = Date.now();
+  const updates = {
+    tokenHash: hashToken(token),
+    expiresAt: new Date(now + ttlSeconds * 1000).toISOString(),
+    lastSentAt: new Date(now).toISOString(),
+  };
+
+  await invitationStore.update(record.id, updates);
+
+  sendInvitationEmail(record.email, inviter.name, token, ttlSeconds).catch((error) => {
+    console.error('Failed to send invitation email:', error);
+  });
+
+  return { ...record, ...updates };
+}
+
+/**
+ * Create the pending, passwordless placeholder user an invitation is accepted into
+ */
+function createInvitee(input: { email: string; name?: string; roleId: string }) {
+  return getUserRepository().create({
+    name: input.name ?? input.email.split('@')[0],
+    email: input.email,
+    passwordHash: '',
+    roleId: input.roleId,
+    status: 'pending',
+  });
+}
+
+/**
+ * Create a pending user for the invitee and send the invitation
+ * The user has no password until the invitation is accepted
+ */
+export async function createInvitation(
+  input: { email: string; name?: string; roleId: string; teamIds: string[] },
+  inviter: { id: string; name: string }
+): Promise<InvitationRecord> {
+  const user = await createInvitee(input);
+
+  const now = new Date().toISOString();
+  const record: InvitationRecord = {
+    id: randomUUID(),
+    userId: user.id,
+    email: user.email,
+    roleId: input.roleId,
+    teamIds: input.teamIds,
+    invitedBy: inviter.id,
+    tokenHash: '',
+    createdAt: now,
+    expiresAt: now,
+    lastSentAt: now,
+  };
+  await invitationStore.save(record);
+
+  return sendInvitation(record, inviter);
+}
+
+/**
+ * Look up a pending (not accepted, revoked or expired) invitation by its token
+ */
+export async function findPendingInvitation(token: string): Promise<InvitationRecord | null> {
+  const record = await invitationStore.findByTokenHash(hashToken(token));
+  return record && getInvitationStatus(record) === 'pending' ? record : null;
+}
+
+/**
+ * Whether a user is the placeholder of an invitation that has not been accepted
+ * Such accounts are activated only by accepting the invitation, never by email verification
+ */
+export async function isAwaitingInvitation(userId: string): Promise<boolean> {
+  const invitations = await invitationStore.list();
+  return invitations.some((record) => record.userId === userId && !record.acceptedAt);
+}
+
+/**
+ * Delete an invitation's placeholder user, unless it has since been activated
+ * Returns whether a user was removed
+ */
+export async function removeInvitee(record: InvitationRecord): Promise<boolean> {
+  const users = getUserRepository();
+  const invitee = await users.findById(record.userId);
+  if (invitee?.status !== 'pending' || invitee.passwordHash) return false;
+
+  await users.delete(invitee.id);
+  return true;
+}
+
+/**
+ * Recreate the placeholder user of an expired invitation before it is resent
+ * Fails if the email has been registered in the meantime
+ */
+export async function restoreInvitee(record: InvitationRecord): Promise<InvitationRecord> {
+  const users = getUserRepository();
+  if (await users.findById(record.userId)) return record;
+
+  if (await users.findByEmail(record.email)) {
+    throw new TRPCError({
+      code: 'CONFLICT',
+      message: `A user with email ${record.email} already exists`,
+    });
+  }
+
+  const user = await createInvitee(record);
+  await invitationStore.update(record.id, { userId: user.id });
+  return { ...record, userId: user.id };
+}
+
+/**
+ * Delete the placeholder users of expired invitations
+ * The invitations stay listed as expired and can still be resent
+ * Returns the number of users removed
+ */
+export async function removeExpiredInvitees(now: Date = new Date()): Promise<number> {
+  const expired = (await invitationStore.list()).filter(
+    (record) => getInvitationStatus(record, now) === 'expired'
+  );
+
+  let removed = 0;
+  for (const record of expired) {
+    if (await removeInvitee(record)) removed++;
+  }
+  return removed;
+}
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { activityLogStore } from './activityLog';
+import {
+  createInMemoryLoginAttemptStore,
+  recordLoginFailure,
+  recordLoginSuccess,
+  releaseLoginAttempt,
+  reserveLoginAttempt,
+  setLoginAttemptStore,
+  unlockLogin,
+} from './loginThrottle';
+import {
+  createBearerCaller,
+  createTestCaller,
+  createTestUser,
+  loginAs,
+  TEST_PASSWORD,
+} from '../test/helpers';
+
+const tooManyRequests = { code: 'TOO_MANY_REQUESTS' };
+
+/**
+ * One failed login, as the login procedure records it
+ */
+async function fail(email: string, ip?: string) {
+  await reserveLoginAttempt(email, ip);
+  await recordLoginFailure(email, ip);
+}
+
+describe('login throttling', () => {
+  beforeEach(() => {
+    setLoginAttemptStore(createInMemoryLoginAttemptStore());
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * Start a reservation and report whether it is still waiting after the given time
+   */
+  async function isWaitingAfter(ms: number, email: string) {
+    let settled = false;
+    const attempt = reserveLoginAttempt(email).finally(() => (settled = true));
+    await vi.advanceTimersByTimeAsync(ms);
+    const waiting = !settled;
+    await vi.runAllTimersAsync();
+    await attempt;
+    return waiting;
+  }
+
+  it('slows down attempts progressively after failures', async () => {
+    const email = 'slowed@example.com';
+
+    expect(await isWaitingAfter(0, email)).toBe(false);
+    await recordLoginFailure(email);
+
+    // 250ms after one failure, 500ms after two
+    expect(await isWaitingAfter(249, email)).toBe(true);
+    await recordLoginFailure(email);
+    expect(await isWaitingAfter(499, email)).toBe(true);
+    await recordLoginFailure(email);
+
+    await recordLoginSuccess(email);
+    expect(await isWaitingAfter(0, email)).toBe(false);
+  });
+
+  it('locks the email after LOGIN_MAX_FAILURES failures and records it', async () => {
+    const email = 'locked@example.com';
+    for (let i = 0; i < 5; i++) {
+      const failure = fail(email, '198.51.100.1');
+      await vi.runAllTimersAsync();
+      await failure;
+    }
+
+    await expect(reserveLoginAttempt(email, '198.51.100.2')).rejects.toMatchObject({
+      ...tooManyRequests,
+      message: expect.stringContaining('15 minute(s)'),
+    });
+    expect(await activityLogStore.listRecent(1)).toContainEqual(
+      expect.objectContaining({ user: email, action: 'Account Locked' })
+    );
+
+    // The lock ends after LOGIN_LOCKOUT_SECONDS
+    vi.setSystemTime(Date.now() + 15 * 60 * 1000);
+    await expect(reserveLoginAttempt(email)).resolves.toBeUndefined();
+  });
+
+  it('lets at most LOGIN_MAX_FAILURES concurrent attempts through', async () => {
+    const attempts = Array.from({ length: 12 }, () =>
+      reserveLoginAttempt('concurrent@example.com')
+    );
+    const settled = Promise.allSettled(attempts);
+    await vi.runAllTimersAsync();
+
+    const results = await settled;
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(5);
+    expect(results.filter((result) => result.status === 'rejected')).toHaveLength(7);
+  });
+
+  it('lifts a lock with unlockLogin', async () => {
+    const email = 'unlocked@example.com';
+    for (let i = 0; i < 5; i++) {
+      const failure = fail(email);
+      await vi.runAllTimersAsync();
+      await failure;
+    }
+
+    expect(await unlockLogin(email)).toBe(true);
+    expect(await unlockLogin(email)).toBe(false);
+    // Counters are reset too, so there is no delay either
+    expect(await isWaitingAfter(0, email)).toBe(false);
+  });
+
+  it('locks an IP after LOGIN_IP_MAX_FAILURES failures across emails', async () => {
+    const ip = '203.0.113.9';
+    for (let i = 0; i < 20; i++) await fail(`sprayed.${i}@example.com`, ip);
+
+    await expect(reserveLoginAttempt('fresh@example.com', ip)).rejects.toMatchObject(
+      tooManyRequests
+    );
+    await expect(reserveLoginAttempt('fresh@example.com', '203.0.113.10')).resolves.toBeUndefined();
+    expect(await activityLogStore.listRecent(1)).toContainEqual(
+      expect.objectContaining({ user: ip, action: 'IP Address Locked' })
+    );
+  });
+
+  it('does not count successful logins against the IP', async () => {
+    const ip = '203.0.113.20';
+    for (let i = 0; i < 30; i++) {
+      await reserveLoginAttempt(`office.${i}@example.com`, ip);
+      await releaseLoginAttempt(`office.${i}@example.com`, ip);
+    }
+
+    await expect(reserveLoginAttempt('office.last@example.com', ip)).resolves.toBeUndefined();
+  });
+});
+
+describe('auth.login lockout', () => {
+  it('locks out concurrent guesses and is lifted by users.unlock', async () => {
+    const user = await createTestUser({ name: 'Guessed User' });
+    const caller = await createTestCaller();
+
+    const guesses = await Promise.allSettled(
+      Array.from({ length: 8 }, (_, i) =>
+        caller.auth.login({ email: user.email, password: `Wrong${i}guess` })
+      )
+    );
+    const codes = guesses.map((guess) =>
+      guess.status === 'rejected' ? (guess.reason as { code: string }).code : 'OK'
+    );
+    expect(codes.filter((code) => code === 'UNAUTHORIZED')).toHaveLength(5);
+    expect(codes.filter((code) => code === 'TOO_MANY_REQUESTS')).toHaveLength(3);
+
+    await expect(
+      caller.auth.login({ email: user.email, password: TEST_PASSWORD })
+    ).rejects.toMatchObject(tooManyRequests);
+
+    await createTestUser({ name: 'Unlocking Admin', roleId: 'role-admin' });
+    const admin = await createBearerCaller((await loginAs('unlocking.admin@example.com')).token);
+    await admin.users.unlock({ id: user.id });
+
+    await expect(loginAs(user.email)).resolves.toHaveProperty('token');
+  });
+});
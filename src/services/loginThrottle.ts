@@ -0,0 +1,206 @@
+import { TRPCError } from '@trpc/server';
+import { recordActivity } from './activityLog';
+
+/**
+ * Counter storage for failed login attempts
+ * Operations map onto Redis (INCR + EXPIRE, DECR, GET, SETEX, DEL) so a shared store can be plugged in
+ */
+export interface LoginAttemptStore {
+  /** Increment a counter, starting its expiry window on first increment */
+  increment(key: string, ttlSeconds: number): Promise<number>;
+  /** Decrement a live counter, leaving missing or expired ones alone */
+  decrement(key: string): Promise<void>;
+  get(key: string): Promise<number | null>;
+  set(key: string, value: number, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Create an in-memory attempt store (per process, lost on restart)
+ */
+export function createInMemoryLoginAttemptStore(): LoginAttemptStore {
+  const entries = new Map<string, { value: number; expiresAt: number }>();
+
+  const read = (key: string) => {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  return {
+    async increment(key, ttlSeconds) {
+      const entry = read(key);
+      if (entry) {
+        entry.value += 1;
+        return entry.value;
+      }
+      entries.set(key, { value: 1, expiresAt: Date.now() + ttlSeconds * 1000 });
+      return 1;
+    },
+
+    async decrement(key) {
+      const entry = read(key);
+      if (entry && entry.value > 0) entry.value -= 1;
+    },
+
+    async get(key) {
+      return read(key)?.value ?? null;
+    },
+
+    async set(key, value, ttlSeconds) {
+      entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    },
+
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+let attemptStore: LoginAttemptStore = createInMemoryLoginAttemptStore();
+
+/**
+ * Get the attempt store in use
+ */
+export function getLoginAttemptStore(): LoginAttemptStore {
+  return attemptStore;
+}
+
+/**
+ * Replace the attempt store (e.g. with a Redis-backed implementation)
+ */
+export function setLoginAttemptStore(store: LoginAttemptStore): void {
+  attemptStore = store;
+}
+
+/**
+ * Lockout thresholds, read from the environment
+ */
+function getThrottleConfig() {
+  return {
+    maxEmailFailures: Number(process.env.LOGIN_MAX_FAILURES) || 5,
+    maxIpFailures: Number(process.env.LOGIN_IP_MAX_FAILURES) || 20,
+    failureWindowSeconds: Number(process.env.LOGIN_FAILURE_WINDOW_SECONDS) || 15 * 60,
+    lockoutSeconds: Number(process.env.LOGIN_LOCKOUT_SECONDS) || 15 * 60,
+  };
+}
+
+// Progressive delay: 250ms after the first failure, doubling up to 4s
+const BASE_DELAY_MS = 250;
+const MAX_DELAY_MS = 4000;
+
+const keys = {
+  emailFailures: (email: string) => `login:failures:email:${email.trim().toLowerCase()}`,
+  ipFailures: (ip: string) => `login:failures:ip:${ip}`,
+  emailLock: (email: string) => `login:lock:email:${email.trim().toLowerCase()}`,
+  ipLock: (ip: string) => `login:lock:ip:${ip}`,
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function tooManyAttempts(remainingSeconds: number): TRPCError {
+  return new TRPCError({
+    code: 'TOO_MANY_REQUESTS',
+    message: `Too many failed login attempts, try again in ${Math.ceil(remainingSeconds / 60)} minute(s)`,
+  });
+}
+
+/**
+ * Start a login attempt: reject it if the email or IP is locked out, otherwise count it
+ * as a failure until releaseLoginAttempt gives it back, then wait a delay that grows
+ * with the number of earlier attempts for the email
+ * Counting before the password is checked keeps concurrent requests within the limits
+ */
+export async function reserveLoginAttempt(email: string, ip?: string): Promise<void> {
+  const config = getThrottleConfig();
+  const lockedUntil = Math.max(
+    (await attemptStore.get(keys.emailLock(email))) ?? 0,
+    ip ? ((await attemptStore.get(keys.ipLock(ip))) ?? 0) : 0
+  );
+
+  const remainingSeconds = lockedUntil - Math.floor(Date.now() / 1000);
+  if (remainingSeconds > 0) {
+    throw tooManyAttempts(remainingSeconds);
+  }
+
+  const emailAttempts = await attemptStore.increment(
+    keys.emailFailures(email),
+    config.failureWindowSeconds
+  );
+  const ipAttempts = ip
+    ? await attemptStore.increment(keys.ipFailures(ip), config.failureWindowSeconds)
+    : 0;
+
+  // Attempts still in flight when the lock is reached are turned away
+  if (emailAttempts > config.maxEmailFailures || ipAttempts > config.maxIpFailures) {
+    throw tooManyAttempts(config.lockoutSeconds);
+  }
+
+  if (emailAttempts > 1) {
+    await sleep(Math.min(BASE_DELAY_MS * 2 ** (emailAttempts - 2), MAX_DELAY_MS));
+  }
+}
+
+/**
+ * Settle a reserved attempt as failed, locking the email or IP once its threshold is reached
+ * Lockouts are recorded in the activity feed
+ */
+export async function recordLoginFailure(email: string, ip?: string): Promise<void> {
+  const config = getThrottleConfig();
+  const lockedUntil = Math.floor(Date.now() / 1000) + config.lockoutSeconds;
+
+  const emailFailures = (await attemptStore.get(keys.emailFailures(email))) ?? 0;
+  if (emailFailures >= config.maxEmailFailures) {
+    await attemptStore.set(keys.emailLock(email), lockedUntil, config.lockoutSeconds);
+    await attemptStore.delete(keys.emailFailures(email));
+    await recordActivity({
+      user: email,
+      action: 'Account Locked',
+      target: `${emailFailures} failed login attempts${ip ? ` from ${ip}` : ''}`,
+    });
+  }
+
+  if (!ip) return;
+
+  const ipFailures = (await attemptStore.get(keys.ipFailures(ip))) ?? 0;
+  if (ipFailures >= config.maxIpFailures) {
+    await attemptStore.set(keys.ipLock(ip), lockedUntil, config.lockoutSeconds);
+    await attemptStore.delete(keys.ipFailures(ip));
+    await recordActivity({
+      user: ip,
+      action: 'IP Address Locked',
+      target: `${ipFailures} failed login attempts`,
+    });
+  }
+}
+
+/**
+ * Give back a reserved attempt whose factor was correct, without clearing earlier failures
+ * (a correct password still leaves the second factor to go)
+ */
+export async function releaseLoginAttempt(email: string, ip?: string): Promise<void> {
+  await attemptStore.decrement(keys.emailFailures(email));
+  if (ip) await attemptStore.decrement(keys.ipFailures(ip));
+}
+
+/**
+ * Clear the failure counter of an email once a login has completed
+ * The IP counter is kept so one valid account cannot reset it
+ */
+export async function recordLoginSuccess(email: string): Promise<void> {
+  await attemptStore.delete(keys.emailFailures(email));
+}
+
+/**
+ * Lift a lockout on an email (admin action)
+ * Returns whether the email was locked
+ */
+export async function unlockLogin(email: string): Promise<boolean> {
+  const locked = (await attemptStore.get(keys.emailLock(email))) !== null;
+  await attemptStore.delete(keys.emailLock(email));
+  await attemptStore.delete(keys.emailFailures(email));
+  return locked;
+}
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MailMessage, setMailTransport } from './mailer';
+import { getUserRepository } from './userRepository';
+import { createTestCaller, createTestUser } from '../test/helpers';
+
+const invalidLink = {
+  code: 'UNAUTHORIZED',
+  message: 'Invalid or expired sign-in link, please request a new one',
+};
+
+describe('magic links', () => {
+  let sent: MailMessage[];
+
+  beforeEach(() => {
+    sent = [];
+    setMailTransport({ send: async (message) => void sent.push(message) });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  /**
+   * Request a link and return the device nonce and the emailed token (if one was sent)
+   */
+  async function request(email: string) {
+    const before = sent.length;
+    const { data } = await (await createTestCaller()).auth.requestMagicLink({ email });
+    // Sending is not awaited; give it a moment before concluding nothing was sent
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    const message = sent.slice(before).find((m) => m.to === email);
+    const token = message
+      ? new URL(message.text.match(/https?:\/\/\S+/)![0]).searchParams.get('token')
+      : null;
+    return { nonce: data.nonce, token };
+  }
+
+  async function consume(token: string, nonce: string) {
+    return (await createTestCaller()).auth.consumeMagicLink({ token, nonce });
+  }
+
+  it('signs in once, on the device that requested the link', async () => {
+    const user = await createTestUser({ name: 'Magic Viewer' });
+    const { nonce, token } = await request(user.email);
+
+    const { data } = await consume(token!, nonce);
+    expect(data).toHaveProperty('user.id', user.id);
+    await expect(consume(token!, nonce)).rejects.toMatchObject(invalidLink);
+  });
+
+  it('refuses the link with another nonce and invalidates it after repeated attempts', async () => {
+    const user = await createTestUser({ name: 'Phished Viewer' });
+    const { nonce, token } = await request(user.email);
+    // An attacker's own request gives them a valid-looking nonce of their own
+    const { nonce: otherNonce } = await request('attacker@example.com');
+
+    for (let i = 0; i < 3; i++) {
+      await expect(consume(token!, otherNonce)).rejects.toMatchObject(invalidLink);
+    }
+    await expect(consume(token!, nonce)).rejects.toMatchObject(invalidLink);
+  });
+
+  it('only sends links to MAGIC_LINK_ROLES, never to full-access accounts', async () => {
+    const editor = await createTestUser({ name: 'Magic Editor', roleId: 'role-editor' });
+    const admin = await createTestUser({ name: 'Magic Admin', roleId: 'role-admin' });
+
+    const refused = await request(editor.email);
+    expect(refused.token).toBeNull();
+    expect(refused.nonce).toEqual(expect.any(String));
+
+    vi.stubEnv('MAGIC_LINK_ROLES', 'viewer, editor, admin');
+    expect((await request(editor.email)).token).toEqual(expect.any(String));
+    expect((await request(admin.email)).token).toBeNull();
+  });
+
+  it('refuses a link whose user was promoted after it was sent', async () => {
+    const user = await createTestUser({ name: 'Promoted Viewer' });
+    const { nonce, token } = await request(user.email);
+
+    await getUserRepository().update(user.id, { roleId: 'role-editor' });
+
+    await expect(consume(token!, nonce)).rejects.toMatchObject(invalidLink);
+  });
+});
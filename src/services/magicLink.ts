@@ -0,0 +1,90 @@
+import { randomBytes } from 'crypto';
+import {
+  consumeOneTimeToken,
+  findOneTimeToken,
+  issueOneTimeToken,
+  recordOneTimeTokenFailure,
+} from './oneTimeTokenStore';
+import { sendMagicLinkEmail } from './authEmails';
+import { hashToken } from './tokenService';
+import {
+  getAccountStatusDenial,
+  getUserRepository,
+  toContextUser,
+  UserRecord,
+} from './userRepository';
+
+// Magic link lifetime (10 minutes in seconds)
+const DEFAULT_MAGIC_LINK_TTL_SECONDS = 10 * 60;
+
+// Attempts with a wrong device nonce before the link is invalidated
+const MAGIC_LINK_MAX_ATTEMPTS = 3;
+
+/**
+ * Magic link lifetime in seconds (MAGIC_LINK_TTL_SECONDS)
+ */
+export function getMagicLinkTtl(): number {
+  return Number(process.env.MAGIC_LINK_TTL_SECONDS) || DEFAULT_MAGIC_LINK_TTL_SECONDS;
+}
+
+/**
+ * Whether a user may sign in with a magic link
+ * Limited to the low-privilege roles in MAGIC_LINK_ROLES (names or IDs, default: viewer);
+ * accounts holding "*" never qualify
+ */
+export function isMagicLinkAllowed(record: UserRecord): boolean {
+  const roles = (process.env.MAGIC_LINK_ROLES || 'viewer')
+    .split(',')
+    .map((role) => role.trim())
+    .filter(Boolean);
+  const { role } = toContextUser(record);
+
+  return !role.permissions.includes('*') && (roles.includes(role.name) || roles.includes(role.id));
+}
+
+/**
+ * Request a sign-in link for an email address
+ * Always returns a fresh device nonce, whether or not a link was sent, so the response
+ * does not reveal which accounts exist. The link only works together with this nonce.
+ */
+export async function requestMagicLink(
+  email: string
+): Promise<{ nonce: string; expiresIn: number }> {
+  const nonce = randomBytes(32).toString('base64url');
+  const ttlSeconds = getMagicLinkTtl();
+  const record = await getUserRepository().findByEmail(email);
+
+  if (record && !getAccountStatusDenial(record) && isMagicLinkAllowed(record)) {
+    const token = await issueOneTimeToken('magic_link', record.id, ttlSeconds, {
+      nonceHash: hashToken(nonce),
+    });
+
+    // Not awaited so response timing does not reveal whether the account exists
+    sendMagicLinkEmail(record, token, ttlSeconds).catch((error) => {
+      console.error('Failed to send magic link email:', error);
+    });
+  }
+
+  return { nonce, expiresIn: ttlSeconds };
+}
+
+/**
+ * Redeem a magic link from the device that requested it
+ * Returns null if the link is invalid, expired, used, or the nonce does not match
+ */
+export async function consumeMagicLink(token: string, nonce: string): Promise<UserRecord | null> {
+  const link = await findOneTimeToken('magic_link', token);
+  if (!link) return null;
+
+  if (link.data?.nonceHash !== hashToken(nonce)) {
+    await recordOneTimeTokenFailure(link, MAGIC_LINK_MAX_ATTEMPTS);
+    return null;
+  }
+
+  // Single use: a concurrent request with the same link loses
+  if (!(await consumeOneTimeToken('magic_link', token))) return null;
+
+  // The role may have changed since the link was sent
+  const record = await getUserRepository().findById(link.userId);
+  return record && isMagicLinkAllowed(record) ? record : null;
+}
@@ -0,0 +1,80 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Outgoing email
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Mail delivery contract (SMTP, provider API, local outbox...)
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Transport that logs messages to the console (development)
+ */
+export function createConsoleTransport(): MailTransport {
+  return {
+    async send(message) {
+      console.info(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+    },
+  };
+}
+
+/**
+ * Transport that writes each message as a JSON file into a local outbox directory
+ * Useful for development and tests that need to read the delivered content
+ */
+export function createFileOutboxTransport(outboxDir: string): MailTransport {
+  const resolved = path.resolve(outboxDir);
+
+  return {
+    async send(message) {
+      await fs.mkdir(resolved, { recursive: true });
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.json`;
+      await fs.writeFile(
+        path.join(resolved, fileName),
+        JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+      );
+    },
+  };
+}
+
+let transport: MailTransport | null = null;
+
+/**
+ * Get the configured mail transport
+ * MAIL_TRANSPORT=file writes to MAIL_OUTBOX_DIR (default: data/outbox), otherwise console
+ */
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport =
+      process.env.MAIL_TRANSPORT === 'file'
+        ? createFileOutboxTransport(process.env.MAIL_OUTBOX_DIR || 'data/outbox')
+        : createConsoleTransport();
+  }
+  return transport;
+}
+
+/**
+ * Replace the mail transport (e.g. with an SMTP implementation or a test double)
+ */
+export function setMailTransport(next: MailTransport): void {
+  transport = next;
+}
+
+/**
+ * Send an email through the configured transport
+ */
+export function sendMail(message: MailMessage): Promise<void> {
+  return getMailTransport().send(message);
+}
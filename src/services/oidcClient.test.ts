@@ -0,0 +1,281 @@
+import { createHash, generateKeyPairSync, randomBytes } from 'crypto';
+import { once } from 'events';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createServer } from '../server';
+import { activityLogStore } from './activityLog';
+import { getOidcConfig } from './oidcClient';
+import { getUserRepository } from './userRepository';
+import { createTestCaller, createTestUser } from '../test/helpers';
+
+const CLIENT_ID = 'halolight-test';
+const APP_URL = 'http://app.test';
+
+/**
+ * Minimal OpenID provider: discovery, JWKS and a token endpoint that checks PKCE
+ * Codes are handed out by the test, standing in for the user signing in at the provider
+ */
+function createMockIdp() {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const kid = 'mock-key-1';
+  const codes = new Map<string, { challenge: string; nonce: string; claims: object }>();
+  let issuer = '';
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', issuer);
+    const json = (status: number, body: object) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+    };
+
+    if (url.pathname === '/.well-known/openid-configuration') {
+      return json(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+      });
+    }
+    if (url.pathname === '/jwks') {
+      return json(200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid, use: 'sig' }] });
+    }
+    if (url.pathname === '/token' && req.method === 'POST') {
+      let body = '';
+      for await (const chunk of req) body += chunk;
+      const form = new URLSearchParams(body);
+      const grant = codes.get(form.get('code') ?? '');
+      codes.delete(form.get('code') ?? '');
+
+      const verifier = form.get('code_verifier') ?? '';
+      if (!grant || createHash('sha256').update(verifier).digest('base64url') !== grant.challenge) {
+        return json(400, { error: 'invalid_grant' });
+      }
+
+      const idToken = jwt.sign({ nonce: grant.nonce, ...grant.claims }, privateKey, {
+        algorithm: 'RS256',
+        keyid: kid,
+        issuer,
+        audience: CLIENT_ID,
+        expiresIn: 300,
+      });
+      return json(200, { access_token: 'unused', token_type: 'Bearer', id_token: idToken });
+    }
+    json(404, { error: 'not_found' });
+  });
+
+  return {
+    server,
+    async start() {
+      server.listen(0, '127.0.0.1');
+      await once(server, 'listening');
+      issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      return issuer;
+    },
+    /** Approve an authorization request, as if the user signed in with these claims */
+    authorize(authorizationUrl: URL, claims: object): string {
+      const code = randomBytes(16).toString('base64url');
+      codes.set(code, {
+        challenge: authorizationUrl.searchParams.get('code_challenge')!,
+        nonce: authorizationUrl.searchParams.get('nonce')!,
+        claims,
+      });
+      return code;
+    },
+  };
+}
+
+describe('OIDC single sign-on', () => {
+  const idp = createMockIdp();
+  let app: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    process.env.OIDC_ISSUER = await idp.start();
+    process.env.OIDC_CLIENT_ID = CLIENT_ID;
+    process.env.OIDC_ROLE_MAPPING = JSON.stringify({
+      'bff-editors': 'role-editor',
+      'bff-auditors': 'role-auditor',
+    });
+    process.env.APP_URL = APP_URL;
+    process.env.LOG_LEVEL = 'silent';
+
+    app = createServer().app.listen(0, '127.0.0.1');
+    await once(app, 'listening');
+    baseUrl = `http://127.0.0.1:${(app.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    app.close();
+    idp.server.close();
+  });
+
+  /**
+   * Start a login at /auth/oidc/login and approve it at the provider
+   * Returns the callback query and the state cookie the browser received
+   */
+  async function startLogin(claims: object) {
+    const login = await fetch(`${baseUrl}/auth/oidc/login`, { redirect: 'manual' });
+    const authorizationUrl = new URL(login.headers.get('location')!);
+    expect(authorizationUrl.searchParams.get('code_challenge_method')).toBe('S256');
+
+    const code = idp.authorize(authorizationUrl, claims);
+    const state = authorizationUrl.searchParams.get('state')!;
+    const cookie = login.headers.get('set-cookie')!.split(';')[0];
+    return { query: new URLSearchParams({ code, state }), cookie };
+  }
+
+  /**
+   * Send the provider redirect to /auth/oidc/callback and return where it sent the browser
+   */
+  async function callback(query: URLSearchParams, cookie?: string) {
+    const response = await fetch(`${baseUrl}/auth/oidc/callback?${query}`, {
+      redirect: 'manual',
+      headers: cookie ? { Cookie: cookie } : {},
+    });
+    return { redirect: new URL(response.headers.get('location')!), response };
+  }
+
+  /**
+   * Run the browser side of a login: /auth/oidc/login, the provider, then /auth/oidc/callback
+   * Returns where the callback redirected the browser
+   */
+  async function signIn(claims: object): Promise<URL> {
+    const { query, cookie } = await startLogin(claims);
+    return (await callback(query, cookie)).redirect;
+  }
+
+  async function exchange(redirect: URL) {
+    expect(redirect.pathname).toBe('/auth/sso/callback');
+    const caller = await createTestCaller();
+    const { data } = await caller.auth.exchangeSsoCode({
+      code: redirect.searchParams.get('code')!,
+    });
+    return data.user;
+  }
+
+  it('provisions a new user with the mapped role on first login', async () => {
+    const user = await exchange(
+      await signIn({
+        sub: 'new-sub',
+        email: 'new.sso@example.com',
+        email_verified: true,
+        name: 'New Sso',
+        groups: ['bff-editors'],
+      })
+    );
+
+    expect(user).toMatchObject({ email: 'new.sso@example.com', name: 'New Sso' });
+    expect(user.role.id).toBe('role-editor');
+
+    const record = await getUserRepository().findById(user.id);
+    expect(record?.passwordHash).toBe('');
+    expect(record?.ssoIdentities).toEqual([
+      { issuer: process.env.OIDC_ISSUER, subject: 'new-sub' },
+    ]);
+  });
+
+  it('records a mapping to a role that does not exist and uses the default role', async () => {
+    const user = await exchange(
+      await signIn({
+        sub: 'auditor-sub',
+        email: 'auditor.sso@example.com',
+        email_verified: true,
+        groups: ['bff-auditors'],
+      })
+    );
+
+    expect(user.role.id).toBe('role-viewer');
+    expect(await activityLogStore.listRecent(5)).toContainEqual(
+      expect.objectContaining({
+        user: 'auditor.sso@example.com',
+        action: 'SSO Role Not Found',
+        target: expect.stringContaining('"role-auditor"'),
+      })
+    );
+  });
+
+  it('links an existing account when the provider verified the email', async () => {
+    const local = await createTestUser({ name: 'Local Linked', email: 'linked@example.com' });
+
+    const user = await exchange(
+      await signIn({ sub: 'linked-sub', email: 'LINKED@example.com', email_verified: true })
+    );
+    expect(user.id).toBe(local.id);
+
+    // Later logins match on the linked identity, even if the email claim changes
+    const again = await exchange(
+      await signIn({ sub: 'linked-sub', email: 'renamed@example.com', email_verified: false })
+    );
+    expect(again.id).toBe(local.id);
+  });
+
+  it.each([
+    ['is missing', {}],
+    ['is false', { email_verified: false }],
+    ['is not a boolean', { email_verified: 'true' }],
+  ])('refuses to link an existing account when email_verified %s', async (label, verified) => {
+    const local = await createTestUser({
+      name: 'Takeover Target',
+      email: `target.${randomBytes(4).toString('hex')}@example.com`,
+    });
+
+    const redirect = await signIn({ sub: `attacker-${label}`, email: local.email, ...verified });
+
+    expect(`${redirect.origin}${redirect.pathname}`).toBe(`${APP_URL}/login`);
+    expect(redirect.searchParams.get('error')).toBe('sso_failed');
+    expect((await getUserRepository().findById(local.id))?.ssoIdentities).toBeUndefined();
+  });
+
+  it('only completes a login in the browser that started it', async () => {
+    // An attacker starts a login for their own account and sends the callback URL to a victim
+    const { query, cookie } = await startLogin({ sub: 'csrf-sub', email_verified: true });
+    expect(cookie).toMatch(/^hl_oidc_state=/);
+
+    const victim = await callback(query);
+    expect(victim.redirect.searchParams.get('error')).toBe('sso_failed');
+    const otherBrowser = await callback(query, 'hl_oidc_state=someone-elses-state');
+    expect(otherBrowser.redirect.searchParams.get('error')).toBe('sso_failed');
+
+    // The cookie is cleared once the callback has been handled
+    const { query: ownQuery, cookie: ownCookie } = await startLogin({
+      sub: 'own-sub',
+      email: 'own.sso@example.com',
+      email_verified: true,
+    });
+    const own = await callback(ownQuery, ownCookie);
+    expect(own.redirect.pathname).toBe('/auth/sso/callback');
+    expect(own.response.headers.get('set-cookie')).toMatch(
+      /^hl_oidc_state=;.*Expires=Thu, 01 Jan 1970/
+    );
+  });
+
+  it('rejects ID tokens from a replayed or unknown login state', async () => {
+    const { query } = await startLogin({ sub: 'state-sub', email_verified: true });
+    query.set('state', 'forged');
+
+    const { redirect } = await callback(query, 'hl_oidc_state=forged');
+    expect(redirect.searchParams.get('error')).toBe('sso_failed');
+  });
+});
+
+describe('OIDC configuration', () => {
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('refuses an OIDC_ROLE_MAPPING that is not a JSON object of role names', () => {
+    vi.stubEnv('OIDC_ISSUER', 'https://idp.example.com');
+    vi.stubEnv('OIDC_CLIENT_ID', CLIENT_ID);
+
+    vi.stubEnv('OIDC_ROLE_MAPPING', "{'admins': 'role-admin'}");
+    expect(() => getOidcConfig()).toThrow('OIDC_ROLE_MAPPING is not valid JSON');
+    vi.stubEnv('OIDC_ROLE_MAPPING', '["role-admin"]');
+    expect(() => getOidcConfig()).toThrow('OIDC_ROLE_MAPPING must be a JSON object');
+    vi.stubEnv('OIDC_ROLE_MAPPING', '{"admins": 1}');
+    expect(() => getOidcConfig()).toThrow('at "admins"');
+
+    vi.stubEnv('OIDC_ROLE_MAPPING', '{"admins": "role-admin"}');
+    expect(getOidcConfig()?.roleMapping).toEqual({ admins: 'role-admin' });
+  });
+});
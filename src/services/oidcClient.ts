@@ -0,0 +1,386 @@
+import { createHash, createPublicKey, JsonWebKey, KeyObject, randomBytes } from 'crypto';
+import jwt, { Algorithm } from 'jsonwebtoken';
+import { z } from 'zod';
+import { recordActivity } from './activityLog';
+import { getUserRepository, UserRecord } from './userRepository';
+import { roleStore } from './roleStore';
+
+/**
+ * OpenID Connect relying party configuration
+ */
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scopes: string;
+  /** ID token claim holding groups/roles used for role mapping */
+  roleClaim: string;
+  /** Claim value -> role ID or name, evaluated in order */
+  roleMapping: Record<string, string>;
+  defaultRoleId: string;
+}
+
+/**
+ * Subset of the provider discovery document we rely on
+ */
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+/**
+ * Validated ID token claims
+ */
+export interface OidcIdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  preferred_username?: string;
+  [claim: string]: unknown;
+}
+
+/**
+ * Login started by /auth/oidc/login, waiting for the provider callback
+ */
+interface PendingLogin {
+  codeVerifier: string;
+  nonce: string;
+  returnTo?: string;
+  expiresAt: number;
+}
+
+// Pending logins expire after 10 minutes; provider metadata and keys are cached for an hour
+const PENDING_LOGIN_TTL_MS = 10 * 60 * 1000;
+const METADATA_CACHE_TTL_MS = 60 * 60 * 1000;
+const ID_TOKEN_ALGORITHMS: Algorithm[] = ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'PS256'];
+
+const roleMappingSchema = z.record(z.string(), z.string().min(1));
+
+// Last parsed OIDC_ROLE_MAPPING, so the variable is parsed once rather than on every request
+let parsedRoleMapping: { raw: string; value: Record<string, string> } | null = null;
+
+/**
+ * Parse OIDC_ROLE_MAPPING, a JSON object of claim value -> role ID or name
+ * Throws a configuration error naming the variable when it is not valid JSON or not such an object
+ */
+function parseRoleMapping(raw: string): Record<string, string> {
+  if (parsedRoleMapping?.raw === raw) return parsedRoleMapping.value;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (err) {
+    throw new Error(`OIDC_ROLE_MAPPING is not valid JSON: ${(err as Error).message}`);
+  }
+  const result = roleMappingSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length ? ` at "${issue.path.join('.')}"` : '';
+    throw new Error(
+      `OIDC_ROLE_MAPPING must be a JSON object of claim value -> role ID or name ` +
+        `(e.g. {"admins":"role-admin"}): ${issue.message}${path}`
+    );
+  }
+
+  parsedRoleMapping = { raw, value: result.data };
+  return result.data;
+}
+
+/**
+ * Read OIDC settings from the environment, or null if SSO is not configured
+ * Throws when OIDC_ROLE_MAPPING is invalid; the server calls this at startup so it fails early
+ */
+export function getOidcConfig(): OidcConfig | null {
+  const issuer = process.env.OIDC_ISSUER;
+  const clientId = process.env.OIDC_CLIENT_ID;
+  if (!issuer || !clientId) return null;
+
+  return {
+    issuer: issuer.endsWith('/') ? issuer.slice(0, -1) : issuer,
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    redirectUri:
+      process.env.OIDC_REDIRECT_URI ||
+      `http://localhost:${process.env.PORT || 3002}/auth/oidc/callback`,
+    scopes: process.env.OIDC_SCOPES || 'openid email profile',
+    roleClaim: process.env.OIDC_ROLE_CLAIM || 'groups',
+    roleMapping: process.env.OIDC_ROLE_MAPPING
+      ? parseRoleMapping(process.env.OIDC_ROLE_MAPPING)
+      : {},
+    defaultRoleId: process.env.OIDC_DEFAULT_ROLE || 'role-viewer',
+  };
+}
+
+/**
+ * Map IdP claims to a role using the configured mapping
+ * Returns null when no mapping matches
+ */
+export function mapClaimsToRole(claims: OidcIdTokenClaims, config: OidcConfig): string | null {
+  const raw = claims[config.roleClaim];
+  const values = Array.isArray(raw) ? raw.map(String) : raw !== undefined ? [String(raw)] : [];
+
+  const match = Object.keys(config.roleMapping).find((value) => values.includes(value));
+  return match ? config.roleMapping[match] : null;
+}
+
+/**
+ * Find the local user for a validated ID token, creating it on first login
+ * Users are matched by linked identity, then by an email the IdP marked verified; an unverified
+ * email that belongs to an existing account is rejected. The mapped role is synced on every login
+ */
+export async function findOrProvisionOidcUser(
+  claims: OidcIdTokenClaims,
+  config: OidcConfig
+): Promise<UserRecord> {
+  const users = getUserRepository();
+  const identity = { issuer: claims.iss, subject: claims.sub };
+  const mappedRole = mapClaimsToRole(claims, config);
+  const roleId = mappedRole ? roleStore.resolve(mappedRole)?.id : undefined;
+  if (mappedRole && !roleId) {
+    // The login goes on with the current or default role; the log shows the mapping to fix
+    await recordActivity({
+      user: claims.email ?? claims.sub,
+      action: 'SSO Role Not Found',
+      target: `OIDC_ROLE_MAPPING role "${mappedRole}" does not exist`,
+    });
+  }
+
+  const linked = (await users.list()).find((u) =>
+    u.ssoIdentities?.some((i) => i.issuer === identity.issuer && i.subject === identity.subject)
+  );
+  // Only an email the IdP asserts it verified links to an existing account; without
+  // email_verified: true anyone could have set it, and SSO logins skip local TOTP
+  const byEmail = !linked && claims.email ? await users.findByEmail(claims.email) : null;
+  if (byEmail && claims.email_verified !== true) {
+    throw new Error('ID token email is not verified, cannot link it to an existing account');
+  }
+  const existing = linked ?? byEmail;
+
+  if (existing) {
+    const updated = await users.update(existing.id, {
+      ...(roleId ? { roleId } : {}),
+      ...(linked ? {} : { ssoIdentities: [...(existing.ssoIdentities ?? []), identity] }),
+    });
+    return updated ?? existing;
+  }
+
+  if (!claims.email) {
+    throw new Error('ID token has no email claim, cannot provision user');
+  }
+
+  return users.create({
+    name: claims.name || claims.preferred_username || claims.email,
+    email: claims.email,
+    passwordHash: '',
+    roleId: roleId ?? config.defaultRoleId,
+    ssoIdentities: [identity],
+  });
+}
+
+const base64UrlSha256 = (value: string): string =>
+  createHash('sha256').update(value).digest('base64url');
+
+/**
+ * OpenID Connect client (authorization code flow with PKCE)
+ */
+class OidcClient {
+  private metadata: { value: ProviderMetadata; fetchedAt: number } | null = null;
+  private keys: { value: Map<string, { key: KeyObject; alg?: string }>; fetchedAt: number } | null =
+    null;
+  private pending = new Map<string, PendingLogin>();
+
+  /**
+   * Reset cached provider metadata and pending logins (useful for testing)
+   */
+  reset(): void {
+    this.metadata = null;
+    this.keys = null;
+    this.pending.clear();
+  }
+
+  /**
+   * Fetch the provider discovery document
+   */
+  private async getMetadata(config: OidcConfig): Promise<ProviderMetadata> {
+    if (this.metadata && Date.now() - this.metadata.fetchedAt < METADATA_CACHE_TTL_MS) {
+      return this.metadata.value;
+    }
+
+    const response = await fetch(`${config.issuer}/.well-known/openid-configuration`);
+    if (!response.ok) {
+      throw new Error(`OIDC discovery failed with status ${response.status}`);
+    }
+
+    const value = (await response.json()) as ProviderMetadata;
+    if (value.issuer.replace(/\/$/, '') !== config.issuer) {
+      throw new Error(`OIDC discovery issuer mismatch: ${value.issuer}`);
+    }
+
+    this.metadata = { value, fetchedAt: Date.now() };
+    return value;
+  }
+
+  /**
+   * Find the provider key for a kid, refetching the JWKS once on a miss (provider key rotation)
+   */
+  private async getSigningKey(
+    config: OidcConfig,
+    kid: string | undefined
+  ): Promise<{ key: KeyObject; alg?: string }> {
+    const lookup = () => {
+      const keys = this.keys?.value;
+      if (!keys) return undefined;
+      return kid ? keys.get(kid) : keys.size === 1 ? Array.from(keys.values())[0] : undefined;
+    };
+
+    const cached = this.keys && Date.now() - this.keys.fetchedAt < METADATA_CACHE_TTL_MS;
+    if (cached && lookup()) return lookup()!;
+
+    const metadata = await this.getMetadata(config);
+    const response = await fetch(metadata.jwks_uri);
+    if (!response.ok) {
+      throw new Error(`OIDC JWKS fetch failed with status ${response.status}`);
+    }
+
+    const { keys } = (await response.json()) as { keys: Array<JsonWebKey & { kid?: string }> };
+    const value = new Map<string, { key: KeyObject; alg?: string }>();
+    keys
+      .filter((k) => k.use === undefined || k.use === 'sig')
+      .forEach((k, index) => {
+        value.set(k.kid ?? String(index), {
+          key: createPublicKey({ key: k, format: 'jwk' }),
+          alg: k.alg as string | undefined,
+        });
+      });
+    this.keys = { value, fetchedAt: Date.now() };
+
+    const found = lookup();
+    if (!found) {
+      throw new Error(`No OIDC signing key found for kid ${kid}`);
+    }
+    return found;
+  }
+
+  /**
+   * Build the provider authorization URL and remember the PKCE verifier, state and nonce
+   * The state is returned too, to be bound to the browser (expiresIn in seconds)
+   */
+  async createAuthorizationUrl(
+    config: OidcConfig,
+    returnTo?: string
+  ): Promise<{ url: string; state: string; expiresIn: number }> {
+    const metadata = await this.getMetadata(config);
+    const now = Date.now();
+    this.pending.forEach((login, key) => {
+      if (login.expiresAt <= now) this.pending.delete(key);
+    });
+
+    const state = randomBytes(16).toString('base64url');
+    const nonce = randomBytes(16).toString('base64url');
+    const codeVerifier = randomBytes(32).toString('base64url');
+    this.pending.set(state, {
+      codeVerifier,
+      nonce,
+      returnTo,
+      expiresAt: now + PENDING_LOGIN_TTL_MS,
+    });
+
+    const url = new URL(metadata.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: config.clientId,
+      redirect_uri: config.redirectUri,
+      scope: config.scopes,
+      state,
+      nonce,
+      code_challenge: base64UrlSha256(codeVerifier),
+      code_challenge_method: 'S256',
+    }).toString();
+
+    return { url: url.toString(), state, expiresIn: PENDING_LOGIN_TTL_MS / 1000 };
+  }
+
+  /**
+   * Handle the provider callback: exchange the code and validate the ID token
+   */
+  async handleCallback(
+    config: OidcConfig,
+    params: { code: string; state: string }
+  ): Promise<{ claims: OidcIdTokenClaims; returnTo?: string }> {
+    const login = this.pending.get(params.state);
+    this.pending.delete(params.state);
+    if (!login || login.expiresAt <= Date.now()) {
+      throw new Error('Unknown or expired OIDC state');
+    }
+
+    const metadata = await this.getMetadata(config);
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: params.code,
+      redirect_uri: config.redirectUri,
+      client_id: config.clientId,
+      code_verifier: login.codeVerifier,
+    });
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+    if (config.clientSecret) {
+      const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const response = await fetch(metadata.token_endpoint, { method: 'POST', headers, body });
+    if (!response.ok) {
+      throw new Error(`OIDC token exchange failed with status ${response.status}`);
+    }
+
+    const { id_token: idToken } = (await response.json()) as { id_token?: string };
+    if (!idToken) {
+      throw new Error('OIDC token response did not include an id_token');
+    }
+
+    const claims = await this.validateIdToken(config, metadata, idToken, login.nonce);
+    return { claims, returnTo: login.returnTo };
+  }
+
+  /**
+   * Verify ID token signature against the provider JWKS, plus issuer, audience, expiry and nonce
+   */
+  private async validateIdToken(
+    config: OidcConfig,
+    metadata: ProviderMetadata,
+    idToken: string,
+    expectedNonce: string
+  ): Promise<OidcIdTokenClaims> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded) {
+      throw new Error('Malformed ID token');
+    }
+
+    const { key, alg } = await this.getSigningKey(config, decoded.header.kid);
+    const claims = jwt.verify(idToken, key, {
+      algorithms: alg ? [alg as Algorithm] : ID_TOKEN_ALGORITHMS,
+      issuer: metadata.issuer,
+      audience: config.clientId,
+    }) as OidcIdTokenClaims;
+
+    if (claims.nonce !== expectedNonce) {
+      throw new Error('ID token nonce mismatch');
+    }
+
+    return claims;
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const oidcClient = new OidcClient();
@@ -0,0 +1,174 @@
+import { randomBytes } from 'crypto';
+import { hashToken } from './tokenService';
+
+/**
+ * What a one-time token can be used for
+ */
+export type OneTimeTokenPurpose =
+  | 'password_reset'
+  | 'mfa_challenge'
+  | 'sso_login'
+  | 'email_verification'
+  | 'magic_link';
+
+/**
+ * Stored one-time token (only the hash of the token is kept)
+ */
+export interface OneTimeTokenRecord {
+  tokenHash: string;
+  purpose: OneTimeTokenPurpose;
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+  usedAt?: string;
+  failedAttempts?: number;
+  /** Purpose-specific payload */
+  data?: Record<string, string>;
+}
+
+/**
+ * One-time token persistence contract
+ */
+export interface OneTimeTokenStore {
+  save(record: OneTimeTokenRecord): Promise<void>;
+  findByHash(tokenHash: string): Promise<OneTimeTokenRecord | null>;
+  update(tokenHash: string, updates: Partial<OneTimeTokenRecord>): Promise<void>;
+  listByUser(userId: string, purpose: OneTimeTokenPurpose): Promise<OneTimeTokenRecord[]>;
+  /** Drop expired records */
+  prune(now?: Date): Promise<void>;
+}
+
+/**
+ * Create an in-memory one-time token store
+ */
+export function createInMemoryOneTimeTokenStore(): OneTimeTokenStore {
+  const records = new Map<string, OneTimeTokenRecord>();
+
+  return {
+    async save(record) {
+      records.set(record.tokenHash, record);
+    },
+
+    async findByHash(tokenHash) {
+      return records.get(tokenHash) ?? null;
+    },
+
+    async update(tokenHash, updates) {
+      const existing = records.get(tokenHash);
+      if (existing) {
+        records.set(tokenHash, { ...existing, ...updates });
+      }
+    },
+
+    async listByUser(userId, purpose) {
+      return Array.from(records.values()).filter(
+        (r) => r.userId === userId && r.purpose === purpose
+      );
+    },
+
+    async prune(now = new Date()) {
+      records.forEach((record, hash) => {
+        if (new Date(record.expiresAt) <= now) {
+          records.delete(hash);
+        }
+      });
+    },
+  };
+}
+
+/**
+ * Singleton instance
+ */
+export const oneTimeTokenStore = createInMemoryOneTimeTokenStore();
+
+/**
+ * Issue a single-use token that expires after ttlSeconds
+ * Any earlier unused token for the same user and purpose is invalidated
+ */
+export async function issueOneTimeToken(
+  purpose: OneTimeTokenPurpose,
+  userId: string,
+  ttlSeconds: number,
+  data?: Record<string, string>
+): Promise<string> {
+  await oneTimeTokenStore.prune();
+  await invalidateOneTimeTokens(purpose, userId);
+
+  const token = randomBytes(32).toString('base64url');
+  const now = Date.now();
+
+  await oneTimeTokenStore.save({
+    tokenHash: hashToken(token),
+    purpose,
+    userId,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttlSeconds * 1000).toISOString(),
+    data,
+  });
+
+  return token;
+}
+
+/**
+ * Look up a token that is still valid for the purpose, without consuming it
+ */
+export async function findOneTimeToken(
+  purpose: OneTimeTokenPurpose,
+  token: string
+): Promise<OneTimeTokenRecord | null> {
+  const record = await oneTimeTokenStore.findByHash(hashToken(token));
+
+  if (
+    !record ||
+    record.purpose !== purpose ||
+    record.usedAt ||
+    new Date(record.expiresAt) <= new Date()
+  ) {
+    return null;
+  }
+
+  return record;
+}
+
+/**
+ * Redeem a token, returning its record if it is valid for the purpose
+ * A token can only be consumed once
+ */
+export async function consumeOneTimeToken(
+  purpose: OneTimeTokenPurpose,
+  token: string
+): Promise<OneTimeTokenRecord | null> {
+  const record = await findOneTimeToken(purpose, token);
+  if (!record) return null;
+
+  await oneTimeTokenStore.update(record.tokenHash, { usedAt: new Date().toISOString() });
+  return record;
+}
+
+/**
+ * Count a failed attempt against a token, invalidating it after maxAttempts
+ */
+export async function recordOneTimeTokenFailure(
+  record: OneTimeTokenRecord,
+  maxAttempts: number
+): Promise<void> {
+  const failedAttempts = (record.failedAttempts ?? 0) + 1;
+  await oneTimeTokenStore.update(record.tokenHash, {
+    failedAttempts,
+    ...(failedAttempts >= maxAttempts ? { usedAt: new Date().toISOString() } : {}),
+  });
+}
+
+/**
+ * Invalidate every unused token of a user for a purpose
+ */
+export async function invalidateOneTimeTokens(
+  purpose: OneTimeTokenPurpose,
+  userId: string
+): Promise<void> {
+  const usedAt = new Date().toISOString();
+  const records = await oneTimeTokenStore.listByUser(userId, purpose);
+  await Promise.all(
+    records.filter((r) => !r.usedAt).map((r) => oneTimeTokenStore.update(r.tokenHash, { usedAt }))
+  );
+}
@@ -0,0 +1,116 @@
+import { departmentStore, DepartmentRecord } from './departmentStore';
+import { getAccountStatusDenial, getUserRepository, UserRecord } from './userRepository';
+
+/**
+ * A department followed by its parents, up to the top of the tree
+ * Stops at a missing parent or a loop in stored data
+ */
+export async function getDepartmentPath(id: string): Promise<DepartmentRecord[]> {
+  const path: DepartmentRecord[] = [];
+  const seen = new Set<string>();
+  let current = await departmentStore.findById(id);
+
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.push(current);
+    current = current.parentId ? await departmentStore.findById(current.parentId) : null;
+  }
+  return path;
+}
+
+/**
+ * IDs of a department and every department below it
+ */
+export async function getDepartmentSubtreeIds(id: string): Promise<Set<string>> {
+  const children = new Map<string, string[]>();
+  for (const department of await departmentStore.list()) {
+    if (department.parentId) {
+      children.set(department.parentId, [
+        ...(children.get(department.parentId) ?? []),
+        department.id,
+      ]);
+    }
+  }
+
+  const ids = new Set<string>([id]);
+  const queue = [id];
+  while (queue.length > 0) {
+    for (const child of children.get(queue.shift() as string) ?? []) {
+      if (!ids.has(child)) {
+        ids.add(child);
+        queue.push(child);
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * Whether moving a department under parentId would place it below itself
+ */
+export async function wouldCreateDepartmentCycle(id: string, parentId: string): Promise<boolean> {
+  return (await getDepartmentPath(parentId)).some((department) => department.id === id);
+}
+
+/**
+ * A user's managers, from the direct manager upwards
+ * Deleted managers end the chain; a loop in stored data is cut rather than followed
+ */
+export async function getManagementChain(userId: string): Promise<UserRecord[]> {
+  const users = getUserRepository();
+  const chain: UserRecord[] = [];
+  const seen = new Set<string>([userId]);
+  let current = await users.findById(userId);
+
+  while (current?.managerId && !seen.has(current.managerId)) {
+    seen.add(current.managerId);
+    current = await users.findById(current.managerId);
+    if (current) chain.push(current);
+  }
+  return chain;
+}
+
+/**
+ * Whether making managerId the manager of a user would make the user manage themselves
+ */
+export async function wouldCreateManagerCycle(userId: string, managerId: string): Promise<boolean> {
+  return (
+    managerId === userId ||
+    (await getManagementChain(managerId)).some((manager) => manager.id === userId)
+  );
+}
+
+/**
+ * Users whose direct manager is the given user
+ */
+export async function getDirectReports(userId: string): Promise<UserRecord[]> {
+  return (await getUserRepository().list()).filter((record) => record.managerId === userId);
+}
+
+/**
+ * Approvers for a request raised by a user, nearest first, for approval workflows
+ * Managers up the chain come first; when there are fewer than levels, the heads of the
+ * user's department and the departments above it fill the remaining places.
+ * Suspended and inactive accounts are skipped since they cannot act on a request.
+ */
+export async function getApprovers(userId: string, levels: number = 1): Promise<UserRecord[]> {
+  const users = getUserRepository();
+  const record = await users.findById(userId);
+  if (!record) return [];
+
+  const canApprove = (candidate: UserRecord) => !getAccountStatusDenial(candidate);
+  const approvers = (await getManagementChain(userId)).filter(canApprove).slice(0, levels);
+
+  const path = record.departmentId ? await getDepartmentPath(record.departmentId) : [];
+  for (const department of path) {
+    if (approvers.length >= levels) break;
+    const { headId } = department;
+    if (!headId || headId === userId || approvers.some((approver) => approver.id === headId)) {
+      continue;
+    }
+
+    const head = await users.findById(headId);
+    if (head && canApprove(head)) approvers.push(head);
+  }
+  return approvers;
+}
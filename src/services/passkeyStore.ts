@@ -0,0 +1,70 @@
+/**
+ * Stored WebAuthn credential (passkey)
+ */
+export interface PasskeyRecord {
+  /** Credential ID, base64url encoded */
+  id: string;
+  userId: string;
+  name: string;
+  /** SPKI DER public key, base64url encoded */
+  publicKey: string;
+  /** COSE algorithm identifier */
+  algorithm: number;
+  /** Last signature counter reported by the authenticator */
+  signCount: number;
+  transports?: string[];
+  /** Authenticator model identifier */
+  aaguid: string;
+  /** Whether the credential is synced (multi-device) */
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+/**
+ * Passkey persistence contract
+ */
+export interface PasskeyStore {
+  save(record: PasskeyRecord): Promise<void>;
+  findById(id: string): Promise<PasskeyRecord | null>;
+  update(id: string, updates: Partial<PasskeyRecord>): Promise<void>;
+  listByUser(userId: string): Promise<PasskeyRecord[]>;
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Create an in-memory passkey store
+ */
+export function createInMemoryPasskeyStore(): PasskeyStore {
+  const records = new Map<string, PasskeyRecord>();
+
+  return {
+    async save(record) {
+      records.set(record.id, record);
+    },
+
+    async findById(id) {
+      return records.get(id) ?? null;
+    },
+
+    async update(id, updates) {
+      const existing = records.get(id);
+      if (existing) {
+        records.set(id, { ...existing, ...updates });
+      }
+    },
+
+    async listByUser(userId) {
+      return Array.from(records.values()).filter((r) => r.userId === userId);
+    },
+
+    async delete(id) {
+      return records.delete(id);
+    },
+  };
+}
+
+/**
+ * Singleton instance
+ */
+export const passkeyStore = createInMemoryPasskeyStore();
@@ -0,0 +1,71 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+/**
+ * scrypt cost parameters (N = CPU/memory cost, r = block size, p = parallelism)
+ */
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+const MAX_MEMORY = 64 * 1024 * 1024;
+
+/**
+ * Derive a key from a password with scrypt
+ */
+function deriveKey(
+  password: string,
+  salt: Buffer,
+  params: { N: number; r: number; p: number }
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, { ...params, maxmem: MAX_MEMORY }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+/**
+ * Hash a password with a random salt
+ * Format: scrypt$N$r$p$salt$hash (salt and hash base64 encoded)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(password, salt, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+
+  return ['scrypt', N, r, p, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+/**
+ * Verify a password against a stored hash in constant time
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const parts = storedHash.split('$');
+  if (parts.length !== 6 || parts[0] !== 'scrypt') {
+    return false;
+  }
+
+  const [, N, r, p, saltB64, keyB64] = parts;
+  const expected = Buffer.from(keyB64, 'base64');
+  const actual = await deriveKey(password, Buffer.from(saltB64, 'base64'), {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Hash used to keep login timing uniform when the email does not exist
+ */
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * Run a password verification that always fails, to avoid leaking account existence via timing
+ */
+export async function verifyDummyPassword(password: string): Promise<false> {
+  dummyHash ??= hashPassword(randomBytes(SALT_BYTES).toString('hex'));
+  await verifyPassword(password, await dummyHash);
+  return false;
+}
@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { checkPassword } from './passwordPolicy';
+import { getUserRepository } from './userRepository';
+import {
+  createBearerCaller,
+  createTestCaller,
+  createTestUser,
+  TEST_PASSWORD,
+} from '../test/helpers';
+
+/**
+ * Sign in with a password and change it, as the user would
+ */
+async function changePassword(email: string, currentPassword: string, newPassword: string) {
+  const { data } = await (
+    await createTestCaller()
+  ).auth.login({ email, password: currentPassword });
+  if (!('token' in data)) throw new Error('Expected tokens');
+  return (await createBearerCaller(data.token)).auth.changePassword({
+    currentPassword,
+    newPassword,
+  });
+}
+
+describe('password policy', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('checks the length and the configured character classes', async () => {
+    expect(await checkPassword('Ab1!')).toEqual(['Must be at least 8 characters']);
+    expect(await checkPassword('correct horse battery')).toEqual([]);
+
+    vi.stubEnv('PASSWORD_MIN_LENGTH', '12');
+    vi.stubEnv('PASSWORD_REQUIRE_UPPERCASE', 'true');
+    vi.stubEnv('PASSWORD_REQUIRE_DIGIT', 'true');
+    vi.stubEnv('PASSWORD_REQUIRE_SYMBOL', 'true');
+    expect(await checkPassword('lowercase')).toEqual([
+      'Must be at least 12 characters',
+      'Must contain an uppercase letter',
+      'Must contain a digit',
+      'Must contain a symbol',
+    ]);
+    expect(await checkPassword('Tr0ubadour&Horse')).toEqual([]);
+  });
+
+  it('rejects denylisted passwords regardless of case', async () => {
+    for (const password of ['password123', 'QWERTY123']) {
+      expect(await checkPassword(password)).toEqual([
+        'Is too common or has appeared in a data breach',
+      ]);
+    }
+  });
+
+  it("rejects passwords containing the user's name or email name", async () => {
+    const context = { name: 'Margaret Hamilton', email: 'mhamilton@example.com' };
+
+    expect(await checkPassword('ilovemargaret', context)).toEqual([
+      'Must not contain your name or email address',
+    ]);
+    expect(await checkPassword('MHAMILTON-2024', context)).toEqual([
+      'Must not contain your name or email address',
+    ]);
+    expect(await checkPassword('apollo guidance', context)).toEqual([]);
+  });
+
+  it('reports the reasons per field when a change is refused', async () => {
+    const user = await createTestUser({ name: 'Field Errors' });
+
+    await expect(changePassword(user.email, TEST_PASSWORD, 'qwerty123')).rejects.toMatchObject({
+      code: 'BAD_REQUEST',
+      message: 'Password does not meet the password policy',
+      cause: {
+        fieldErrors: { newPassword: ['Is too common or has appeared in a data breach'] },
+      },
+    });
+  });
+
+  it('refuses the last PASSWORD_HISTORY_COUNT passwords', async () => {
+    vi.stubEnv('PASSWORD_HISTORY_COUNT', '3');
+    const user = await createTestUser({ name: 'History User' });
+
+    await changePassword(user.email, TEST_PASSWORD, 'Second2nd');
+    await changePassword(user.email, 'Second2nd', 'Third3rd');
+    for (const reused of ['Third3rd', 'Second2nd', TEST_PASSWORD]) {
+      await expect(changePassword(user.email, 'Third3rd', reused)).rejects.toMatchObject({
+        cause: { fieldErrors: { newPassword: ['Must not match any of your last 3 passwords'] } },
+      });
+    }
+
+    // Older passwords drop out of the history
+    await changePassword(user.email, 'Third3rd', 'Fourth4th');
+    await expect(changePassword(user.email, 'Fourth4th', TEST_PASSWORD)).resolves.toHaveProperty(
+      'code',
+      200
+    );
+    expect((await getUserRepository().findById(user.id))?.passwordHistory).toHaveLength(2);
+  });
+
+  it('limits users with an expired password to changing it', async () => {
+    vi.stubEnv('PASSWORD_MAX_AGE_DAYS', '90');
+    const user = await createTestUser({ name: 'Expired Password' });
+    await getUserRepository().update(user.id, {
+      passwordChangedAt: new Date(Date.now() - 91 * 24 * 60 * 60 * 1000).toISOString(),
+    });
+
+    const { data } = await (
+      await createTestCaller()
+    ).auth.login({ email: user.email, password: TEST_PASSWORD });
+    if (!('token' in data)) throw new Error('Expected tokens');
+    const caller = await createBearerCaller(data.token);
+    await expect(caller.users.list()).rejects.toMatchObject({
+      code: 'FORBIDDEN',
+      message: 'Your password has expired, please change it to continue',
+    });
+
+    await changePassword(user.email, TEST_PASSWORD, 'Renewed2024');
+    const { data: renewed } = await (
+      await createTestCaller()
+    ).auth.login({ email: user.email, password: 'Renewed2024' });
+    if (!('token' in renewed)) throw new Error('Expected tokens');
+    await expect((await createBearerCaller(renewed.token)).users.list()).resolves.toHaveProperty(
+      'code',
+      200
+    );
+  });
+});
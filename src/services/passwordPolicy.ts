@@ -0,0 +1,228 @@
+import { TRPCError } from '@trpc/server';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { hashPassword, verifyPassword } from './passwordHasher';
+import type { UserRecord } from './userRepository';
+
+// Common and breached passwords, one per line ("#" starts a comment)
+const DEFAULT_DENYLIST_PATH = 'config/password-denylist.txt';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Rules every new password must satisfy
+ */
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  requireLowercase: boolean;
+  requireUppercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  /** Number of most recent passwords (including the current one) that cannot be reused; 0 disables */
+  historyCount: number;
+  /** Days after which a password must be changed; 0 disables */
+  maxAgeDays: number;
+}
+
+/**
+ * Information about the account a password is being set for
+ */
+export interface PasswordContext {
+  /** Passwords containing the email name or user name are rejected (default: from record) */
+  email?: string;
+  name?: string;
+  /** Existing account, checked against its password history */
+  record?: UserRecord;
+}
+
+/**
+ * Raised (as the cause of a BAD_REQUEST) when a password violates the policy
+ * Carries the reasons per input field so clients can show them next to the field
+ */
+export class PasswordPolicyError extends Error {
+  readonly fieldErrors: Record<string, string[]>;
+
+  constructor(field: string, reasons: string[]) {
+    super(reasons.join('; '));
+    this.name = 'PasswordPolicyError';
+    this.fieldErrors = { [field]: reasons };
+  }
+}
+
+/**
+ * Read a non-negative number from the environment
+ */
+function readNumber(name: string, fallback: number): number {
+  const configured = process.env[name];
+  if (configured === undefined || configured === '') return fallback;
+  const value = Number(configured);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Current password policy
+ * PASSWORD_MIN_LENGTH, PASSWORD_MAX_LENGTH, PASSWORD_REQUIRE_{LOWERCASE,UPPERCASE,DIGIT,SYMBOL},
+ * PASSWORD_HISTORY_COUNT and PASSWORD_MAX_AGE_DAYS
+ */
+export function getPasswordPolicy(): PasswordPolicy {
+  return {
+    minLength: readNumber('PASSWORD_MIN_LENGTH', 8),
+    maxLength: readNumber('PASSWORD_MAX_LENGTH', 128),
+    requireLowercase: process.env.PASSWORD_REQUIRE_LOWERCASE === 'true',
+    requireUppercase: process.env.PASSWORD_REQUIRE_UPPERCASE === 'true',
+    requireDigit: process.env.PASSWORD_REQUIRE_DIGIT === 'true',
+    requireSymbol: process.env.PASSWORD_REQUIRE_SYMBOL === 'true',
+    historyCount: readNumber('PASSWORD_HISTORY_COUNT', 5),
+    maxAgeDays: readNumber('PASSWORD_MAX_AGE_DAYS', 0),
+  };
+}
+
+let denylist: { file: string; entries: Set<string> } | null = null;
+
+/**
+ * Load the denylist from PASSWORD_DENYLIST_PATH once (entries are compared case-insensitively)
+ * A missing file disables the check with a warning rather than blocking every password change
+ */
+function getDenylist(): Set<string> {
+  const file = path.resolve(process.env.PASSWORD_DENYLIST_PATH || DEFAULT_DENYLIST_PATH);
+  if (denylist?.file === file) return denylist.entries;
+
+  let entries = new Set<string>();
+  try {
+    entries = new Set(
+      readFileSync(file, 'utf8')
+        .split(/\r?\n/)
+        .map((line) => line.trim().toLowerCase())
+        .filter((line) => line && !line.startsWith('#'))
+    );
+  } catch (error) {
+    console.warn(`Password denylist not loaded from ${file}:`, (error as Error).message);
+  }
+
+  denylist = { file, entries };
+  return entries;
+}
+
+/**
+ * Words from the user's email name and display name that a password must not contain
+ */
+function getPersonalTerms({
+  record,
+  email = record?.email,
+  name = record?.name,
+}: PasswordContext): string[] {
+  const sources = [email?.split('@')[0], name].filter((s): s is string => !!s);
+  return sources
+    .flatMap((source) => source.toLowerCase().split(/[\s._+-]+/))
+    .filter((term) => term.length >= 4);
+}
+
+/**
+ * Check a new password against the policy
+ * Returns the reasons it is rejected, or an empty list if it is allowed
+ */
+export async function checkPassword(
+  password: string,
+  context: PasswordContext = {}
+): Promise<string[]> {
+  const policy = getPasswordPolicy();
+  const reasons: string[] = [];
+  const lowered = password.toLowerCase();
+
+  if (password.length < policy.minLength) {
+    reasons.push(`Must be at least ${policy.minLength} characters`);
+  }
+  if (policy.maxLength > 0 && password.length > policy.maxLength) {
+    reasons.push(`Must be at most ${policy.maxLength} characters`);
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    reasons.push('Must contain a lowercase letter');
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    reasons.push('Must contain an uppercase letter');
+  }
+  if (policy.requireDigit && !/[0-9]/.test(password)) {
+    reasons.push('Must contain a digit');
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    reasons.push('Must contain a symbol');
+  }
+  if (getDenylist().has(lowered)) {
+    reasons.push('Is too common or has appeared in a data breach');
+  }
+  if (getPersonalTerms(context).some((term) => lowered.includes(term))) {
+    reasons.push('Must not contain your name or email address');
+  }
+
+  // Hash comparisons are slow, so history is only checked for otherwise valid passwords
+  const { record } = context;
+  if (reasons.length === 0 && record && policy.historyCount > 0) {
+    const recent = [record.passwordHash, ...(record.passwordHistory ?? [])]
+      .filter(Boolean)
+      .slice(0, policy.historyCount);
+    for (const hash of recent) {
+      if (await verifyPassword(password, hash)) {
+        reasons.push(
+          policy.historyCount === 1
+            ? 'Must be different from your current password'
+            : `Must not match any of your last ${policy.historyCount} passwords`
+        );
+        break;
+      }
+    }
+  }
+
+  return reasons;
+}
+
+/**
+ * Reject a password that violates the policy
+ * Throws BAD_REQUEST whose cause lists the reasons under the given input field
+ */
+export async function assertPasswordAllowed(
+  password: string,
+  context: PasswordContext = {},
+  field: string = 'password'
+): Promise<void> {
+  const reasons = await checkPassword(password, context);
+  if (reasons.length > 0) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'Password does not meet the password policy',
+      cause: new PasswordPolicyError(field, reasons),
+    });
+  }
+}
+
+/**
+ * Build the user fields for setting a new password
+ * The replaced hash moves into the password history of an existing account
+ */
+export async function buildPasswordUpdate(
+  password: string,
+  record?: UserRecord
+): Promise<Pick<UserRecord, 'passwordHash' | 'passwordHistory' | 'passwordChangedAt'>> {
+  const keep = Math.max(getPasswordPolicy().historyCount - 1, 0);
+  const history = record
+    ? [record.passwordHash, ...(record.passwordHistory ?? [])].filter(Boolean).slice(0, keep)
+    : [];
+
+  return {
+    passwordHash: await hashPassword(password),
+    passwordHistory: history.length > 0 ? history : undefined,
+    passwordChangedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Whether the account's password is older than PASSWORD_MAX_AGE_DAYS
+ * Accounts without a password (SSO only) never expire
+ */
+export function isPasswordExpired(record: UserRecord): boolean {
+  const { maxAgeDays } = getPasswordPolicy();
+  if (maxAgeDays <= 0 || !record.passwordHash) return false;
+
+  const changedAt = Date.parse(record.passwordChangedAt ?? record.createdAt);
+  return Number.isFinite(changedAt) && changedAt + maxAgeDays * DAY_MS <= Date.now();
+}
@@ -0,0 +1,74 @@
+/**
+ * Server-side record of an issued refresh token
+ * The raw token is never stored, only its SHA-256 hash
+ */
+export interface RefreshTokenRecord {
+  tokenHash: string;
+  userId: string;
+  /** All tokens descending from the same login share a family */
+  familyId: string;
+  createdAt: string;
+  expiresAt: string;
+  /** Set once the token has been exchanged for a new one */
+  rotatedAt?: string;
+  replacedBy?: string;
+  revokedAt?: string;
+}
+
+/**
+ * Refresh token persistence contract
+ */
+export interface RefreshTokenStore {
+  save(record: RefreshTokenRecord): Promise<void>;
+  findByHash(tokenHash: string): Promise<RefreshTokenRecord | null>;
+  update(tokenHash: string, updates: Partial<RefreshTokenRecord>): Promise<void>;
+  listByFamily(familyId: string): Promise<RefreshTokenRecord[]>;
+  listByUser(userId: string): Promise<RefreshTokenRecord[]>;
+  /** Drop expired records */
+  prune(now?: Date): Promise<void>;
+}
+
+/**
+ * Create an in-memory refresh token store
+ */
+export function createInMemoryRefreshTokenStore(): RefreshTokenStore {
+  const records = new Map<string, RefreshTokenRecord>();
+
+  return {
+    async save(record) {
+      records.set(record.tokenHash, record);
+    },
+
+    async findByHash(tokenHash) {
+      return records.get(tokenHash) ?? null;
+    },
+
+    async update(tokenHash, updates) {
+      const existing = records.get(tokenHash);
+      if (existing) {
+        records.set(tokenHash, { ...existing, ...updates });
+      }
+    },
+
+    async listByFamily(familyId) {
+      return Array.from(records.values()).filter((r) => r.familyId === familyId);
+    },
+
+    async listByUser(userId) {
+      return Array.from(records.values()).filter((r) => r.userId === userId);
+    },
+
+    async prune(now = new Date()) {
+      records.forEach((record, hash) => {
+        if (new Date(record.expiresAt) <= now) {
+          records.delete(hash);
+        }
+      });
+    },
+  };
+}
+
+/**
+ * Singleton instance
+ */
+export const refreshTokenStore = createInMemoryRefreshTokenStore();
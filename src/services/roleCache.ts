@@ -0,0 +1,41 @@
+import { roleStore, Role } from './roleStore';
+
+// Default lifetime of cached role lookups (30 seconds)
+const DEFAULT_ROLE_CACHE_TTL_SECONDS = 30;
+
+const cache = new Map<string, { role: Role | undefined; expiresAt: number }>();
+
+/**
+ * Cache lifetime in milliseconds (ROLE_CACHE_TTL_SECONDS, 0 disables caching)
+ */
+function getRoleCacheTtlMs(): number {
+  const configured = process.env.ROLE_CACHE_TTL_SECONDS;
+  const seconds = configured !== undefined ? Number(configured) : DEFAULT_ROLE_CACHE_TTL_SECONDS;
+  return (Number.isFinite(seconds) ? seconds : DEFAULT_ROLE_CACHE_TTL_SECONDS) * 1000;
+}
+
+/**
+ * Resolve a role by ID or name through a short-lived cache
+ * Used on every authenticated request, so role changes apply without new tokens
+ */
+export function getCachedRole(idOrName: string): Role | undefined {
+  const now = Date.now();
+  const cached = cache.get(idOrName);
+  if (cached && cached.expiresAt > now) {
+    return cached.role;
+  }
+
+  const role = roleStore.resolve(idOrName);
+  const ttlMs = getRoleCacheTtlMs();
+  if (ttlMs > 0) {
+    cache.set(idOrName, { role, expiresAt: now + ttlMs });
+  }
+  return role;
+}
+
+/**
+ * Drop cached roles; call after any role mutation
+ */
+export function invalidateRoleCache(): void {
+  cache.clear();
+}
@@ -0,0 +1,124 @@
+import { z } from 'zod';
+
+/**
+ * Role schema
+ */
+export const roleSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  label: z.string(),
+  description: z.string().optional(),
+  permissions: z.array(z.string()),
+  isSystem: z.boolean().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type Role = z.infer<typeof roleSchema>;
+
+/**
+ * Seed roles data
+ */
+const roles: Role[] = [
+  {
+    id: 'role-admin',
+    name: 'admin',
+    label: 'Super Admin',
+    description: 'Full access to all modules and actions',
+    permissions: ['*'],
+    isSystem: true,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  },
+  {
+    id: 'role-editor',
+    name: 'editor',
+    label: 'Editor',
+    description: 'Can manage content and view users',
+    permissions: ['dashboard:view', 'users:view', 'documents:*', 'files:*'],
+    isSystem: false,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  },
+  {
+    id: 'role-viewer',
+    name: 'viewer',
+    label: 'Viewer',
+    description: 'Read-only access to dashboard and documents',
+    permissions: ['dashboard:view', 'documents:view', 'files:view'],
+    isSystem: false,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  },
+  {
+    id: 'role-manager',
+    name: 'manager',
+    label: 'Manager',
+    description: 'Can manage teams and users',
+    permissions: ['dashboard:view', 'users:*', 'teams:*', 'documents:view'],
+    isSystem: false,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  },
+];
+
+/**
+ * In-memory role store shared by the roles router and authentication
+ */
+export const roleStore = {
+  /**
+   * Get all roles
+   */
+  list(): Role[] {
+    return [...roles];
+  },
+
+  /**
+   * Find a role by ID
+   */
+  findById(id: string): Role | undefined {
+    return roles.find((r) => r.id === id);
+  },
+
+  /**
+   * Find a role by name
+   */
+  findByName(name: string): Role | undefined {
+    return roles.find((r) => r.name === name);
+  },
+
+  /**
+   * Find a role by ID, falling back to name (e.g. "role-admin" or "admin")
+   */
+  resolve(idOrName: string): Role | undefined {
+    return this.findById(idOrName) ?? this.findByName(idOrName);
+  },
+
+  /**
+   * Add a new role
+   */
+  insert(role: Role): Role {
+    roles.push(role);
+    return role;
+  },
+
+  /**
+   * Replace an existing role by ID
+   */
+  replace(role: Role): Role | undefined {
+    const index = roles.findIndex((r) => r.id === role.id);
+    if (index === -1) return undefined;
+    roles[index] = role;
+    return role;
+  },
+
+  /**
+   * Remove a role by ID
+   */
+  remove(id: string): boolean {
+    const index = roles.findIndex((r) => r.id === id);
+    if (index === -1) return false;
+    roles.splice(index, 1);
+    return true;
+  },
+};
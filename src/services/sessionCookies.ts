@@ -0,0 +1,182 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import type { CookieOptions, Request, Response } from 'express';
+import { getAccessTokenTtl, getRefreshTokenTtl } from './tokenService';
+
+/**
+ * How a client wants its session delivered
+ * token: tokens in the response body (Authorization: Bearer)
+ * cookie: httpOnly cookies plus a double-submit CSRF token
+ */
+export type SessionMode = 'token' | 'cookie';
+
+export const ACCESS_TOKEN_COOKIE = 'hl_access';
+export const REFRESH_TOKEN_COOKIE = 'hl_refresh';
+export const CSRF_COOKIE = 'hl_csrf';
+export const CSRF_HEADER = 'x-csrf-token';
+export const OIDC_STATE_COOKIE = 'hl_oidc_state';
+
+/**
+ * Shared cookie attributes (COOKIE_SECURE, COOKIE_SAME_SITE, COOKIE_DOMAIN)
+ */
+function getBaseCookieOptions(): CookieOptions {
+  return {
+    secure: process.env.COOKIE_SECURE !== 'false',
+    sameSite: (process.env.COOKIE_SAME_SITE as CookieOptions['sameSite']) || 'lax',
+    domain: process.env.COOKIE_DOMAIN || undefined,
+    path: '/',
+  };
+}
+
+/**
+ * Parse a Cookie header into name/value pairs
+ */
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  header.split(';').forEach((part) => {
+    const index = part.indexOf('=');
+    if (index === -1) return;
+    const name = part.slice(0, index).trim();
+    const value = part.slice(index + 1).trim();
+    if (!name || name in cookies) return;
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  });
+
+  return cookies;
+}
+
+/**
+ * Read the session cookies of a request
+ */
+export function readSessionCookies(req: Pick<Request, 'headers'>): {
+  accessToken?: string;
+  refreshToken?: string;
+  csrfToken?: string;
+} {
+  const cookies = parseCookies(req.headers.cookie);
+  return {
+    accessToken: cookies[ACCESS_TOKEN_COOKIE],
+    refreshToken: cookies[REFRESH_TOKEN_COOKIE],
+    csrfToken: cookies[CSRF_COOKIE],
+  };
+}
+
+/**
+ * Set only the access token cookie (e.g. for an impersonation token)
+ */
+export function setAccessTokenCookie(
+  res: Response,
+  token: string,
+  maxAgeSeconds: number = getAccessTokenTtl()
+): void {
+  res.cookie(ACCESS_TOKEN_COOKIE, token, {
+    ...getBaseCookieOptions(),
+    httpOnly: true,
+    maxAge: maxAgeSeconds * 1000,
+  });
+}
+
+/**
+ * Remove the access token cookie, keeping the refresh and CSRF cookies
+ */
+export function clearAccessTokenCookie(res: Response): void {
+  res.clearCookie(ACCESS_TOKEN_COOKIE, getBaseCookieOptions());
+}
+
+/**
+ * Set the access, refresh and CSRF cookies for a session
+ * The CSRF cookie is readable by the web app, which echoes it in the X-CSRF-Token header
+ */
+export function setSessionCookies(
+  res: Response,
+  tokens: { token: string; refreshToken: string }
+): void {
+  const base = getBaseCookieOptions();
+
+  setAccessTokenCookie(res, tokens.token);
+  res.cookie(REFRESH_TOKEN_COOKIE, tokens.refreshToken, {
+    ...base,
+    httpOnly: true,
+    path: '/trpc',
+    maxAge: getRefreshTokenTtl() * 1000,
+  });
+  res.cookie(CSRF_COOKIE, randomBytes(32).toString('base64url'), {
+    ...base,
+    httpOnly: false,
+    maxAge: getRefreshTokenTtl() * 1000,
+  });
+}
+
+/**
+ * Remove all session cookies
+ */
+export function clearSessionCookies(res: Response): void {
+  const base = getBaseCookieOptions();
+  res.clearCookie(ACCESS_TOKEN_COOKIE, base);
+  res.clearCookie(REFRESH_TOKEN_COOKIE, { ...base, path: '/trpc' });
+  res.clearCookie(CSRF_COOKIE, base);
+}
+
+/**
+ * Whether the request carries session cookies (and so needs CSRF protection)
+ */
+export function hasSessionCookies(req: Pick<Request, 'headers'>): boolean {
+  const { accessToken, refreshToken } = readSessionCookies(req);
+  return !!(accessToken || refreshToken);
+}
+
+/**
+ * Double-submit check: the X-CSRF-Token header must match the CSRF cookie
+ */
+export function verifyCsrfToken(req: Pick<Request, 'headers'>): boolean {
+  const { csrfToken } = readSessionCookies(req);
+  const header = req.headers[CSRF_HEADER];
+  if (!csrfToken || typeof header !== 'string') return false;
+
+  const expected = Buffer.from(csrfToken);
+  const actual = Buffer.from(header);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Attributes of the OIDC state cookie: scoped to /auth/oidc, and always SameSite=Lax so
+ * it comes back on the top-level redirect from the identity provider
+ */
+function getOidcStateCookieOptions(): CookieOptions {
+  return { ...getBaseCookieOptions(), sameSite: 'lax', path: '/auth/oidc', httpOnly: true };
+}
+
+/**
+ * Bind a single sign-on login to the browser that started it, so a callback URL for
+ * someone else's login cannot sign this browser in (login CSRF)
+ */
+export function setOidcStateCookie(res: Response, state: string, maxAgeSeconds: number): void {
+  res.cookie(OIDC_STATE_COOKIE, state, {
+    ...getOidcStateCookieOptions(),
+    maxAge: maxAgeSeconds * 1000,
+  });
+}
+
+/**
+ * Whether the callback state matches the state cookie of this browser
+ */
+export function verifyOidcStateCookie(req: Pick<Request, 'headers'>, state: string): boolean {
+  const cookie = parseCookies(req.headers.cookie)[OIDC_STATE_COOKIE];
+  if (!cookie) return false;
+
+  const expected = Buffer.from(cookie);
+  const actual = Buffer.from(state);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Remove the OIDC state cookie once the callback has been handled
+ */
+export function clearOidcStateCookie(res: Response): void {
+  res.clearCookie(OIDC_STATE_COOKIE, getOidcStateCookieOptions());
+}
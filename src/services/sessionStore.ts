@@ -0,0 +1,114 @@
+/**
+ * A login session (one per successful login, shared by its refresh token family)
+ */
+export interface SessionRecord {
+  id: string;
+  userId: string;
+  /** Human readable device label derived from the user agent */
+  device: string;
+  ip?: string;
+  userAgent?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  revokedAt?: string;
+}
+
+/**
+ * Session persistence contract
+ */
+export interface SessionStore {
+  save(session: SessionRecord): Promise<void>;
+  findById(id: string): Promise<SessionRecord | null>;
+  update(id: string, updates: Partial<SessionRecord>): Promise<void>;
+  listByUser(userId: string): Promise<SessionRecord[]>;
+  /** Drop expired sessions */
+  prune(now?: Date): Promise<void>;
+}
+
+/**
+ * Create an in-memory session store
+ */
+export function createInMemorySessionStore(): SessionStore {
+  const sessions = new Map<string, SessionRecord>();
+
+  return {
+    async save(session) {
+      sessions.set(session.id, session);
+    },
+
+    async findById(id) {
+      return sessions.get(id) ?? null;
+    },
+
+    async update(id, updates) {
+      const existing = sessions.get(id);
+      if (existing) {
+        sessions.set(id, { ...existing, ...updates });
+      }
+    },
+
+    async listByUser(userId) {
+      return Array.from(sessions.values()).filter((s) => s.userId === userId);
+    },
+
+    async prune(now = new Date()) {
+      sessions.forEach((session, id) => {
+        if (new Date(session.expiresAt) <= now) {
+          sessions.delete(id);
+        }
+      });
+    },
+  };
+}
+
+/**
+ * Singleton instance
+ */
+export const sessionStore = createInMemorySessionStore();
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+  [/curl\//, 'curl'],
+  [/node|undici/i, 'Node.js'],
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Derive a short device label such as "Chrome on macOS" from a user agent
+ */
+export function describeDevice(userAgent?: string): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser ?? platform ?? 'Unknown device';
+}
+
+/**
+ * Extract the client IP and user agent from an incoming request
+ */
+export function getRequestMetadata(req: {
+  ip?: string;
+  headers: Record<string, string | string[] | undefined>;
+}): { ip?: string; userAgent?: string } {
+  const userAgent = req.headers['user-agent'];
+  return {
+    ip: req.ip,
+    userAgent: typeof userAgent === 'string' ? userAgent : undefined,
+  };
+}
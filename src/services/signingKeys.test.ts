@@ -0,0 +1,110 @@
+import { generateKeyPairSync } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { signingKeys } from './signingKeys';
+import { signAccessToken, verifyAccessToken } from './tokenService';
+import { toContextUser } from './userRepository';
+import { createTestUser } from '../test/helpers';
+
+const KEY_ENV = [
+  'JWT_PRIVATE_KEY',
+  'JWT_KEY_ID',
+  'JWT_PREVIOUS_PUBLIC_KEY',
+  'JWT_PREVIOUS_KEY_ID',
+  'JWT_PREVIOUS_KEY_VERIFY_UNTIL',
+];
+
+/**
+ * A PEM key pair, with literal "\n" sequences as in a .env file
+ */
+function createPemKeyPair(type: 'rsa' | 'ec' = 'rsa') {
+  const { privateKey, publicKey } =
+    type === 'ec'
+      ? generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+      : generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const pem = (key: typeof privateKey) =>
+    key.export({ type: key.type === 'private' ? 'pkcs8' : 'spki', format: 'pem' }) as string;
+  return {
+    privatePem: pem(privateKey).replace(/\n/g, '\\n'),
+    publicPem: pem(publicKey).replace(/\n/g, '\\n'),
+  };
+}
+
+const kidOf = (token: string) => jwt.decode(token, { complete: true })?.header.kid;
+
+describe('signing keys', () => {
+  afterEach(() => {
+    KEY_ENV.forEach((name) => delete process.env[name]);
+    vi.useRealTimers();
+    signingKeys.reload();
+  });
+
+  it('signs with the configured key and publishes it in the JWKS', async () => {
+    process.env.JWT_PRIVATE_KEY = createPemKeyPair('ec').privatePem;
+    process.env.JWT_KEY_ID = 'configured-key';
+    signingKeys.reload();
+    const user = toContextUser(await createTestUser({ name: 'Jwks User' }));
+
+    const token = signAccessToken(user);
+    expect(jwt.decode(token, { complete: true })?.header).toMatchObject({
+      alg: 'ES256',
+      kid: 'configured-key',
+    });
+    expect(signingKeys.getJwks().keys).toEqual([
+      expect.objectContaining({ kid: 'configured-key', alg: 'ES256', use: 'sig', kty: 'EC' }),
+    ]);
+    // Public keys only
+    expect(signingKeys.getJwks().keys[0]).not.toHaveProperty('d');
+    await expect(verifyAccessToken(token)).resolves.toMatchObject({ id: user.id });
+  });
+
+  it('keeps verifying tokens of a rotated-out key for the grace period', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    signingKeys.reload();
+    const user = toContextUser(await createTestUser({ name: 'Rotation User' }));
+    const before = signAccessToken(user, undefined, { expiresIn: 3 * 24 * 60 * 60 });
+
+    const next = signingKeys.rotate();
+    const after = signAccessToken(user);
+    expect(kidOf(after)).toBe(next.kid);
+    expect(kidOf(before)).not.toBe(next.kid);
+    expect(signingKeys.getJwks().keys.map((k) => k.kid)).toEqual([next.kid, kidOf(before)]);
+    await expect(verifyAccessToken(before)).resolves.toMatchObject({ id: user.id });
+
+    vi.setSystemTime(Date.now() + 24 * 60 * 60 * 1000 + 1000);
+    expect(signingKeys.getJwks().keys.map((k) => k.kid)).toEqual([next.kid]);
+    await expect(verifyAccessToken(before)).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+
+  it('accepts JWT_PREVIOUS_PUBLIC_KEY until JWT_PREVIOUS_KEY_VERIFY_UNTIL, across restarts', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const user = toContextUser(await createTestUser({ name: 'Previous Key User' }));
+    const previous = createPemKeyPair();
+
+    process.env.JWT_PRIVATE_KEY = previous.privatePem;
+    signingKeys.reload();
+    const oldToken = signAccessToken(user, undefined, { expiresIn: 3 * 24 * 60 * 60 });
+
+    process.env.JWT_PRIVATE_KEY = createPemKeyPair().privatePem;
+    process.env.JWT_PREVIOUS_PUBLIC_KEY = previous.publicPem;
+    process.env.JWT_PREVIOUS_KEY_VERIFY_UNTIL = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    signingKeys.reload();
+    await expect(verifyAccessToken(oldToken)).resolves.toMatchObject({ id: user.id });
+
+    // A restart after the deadline does not give the key a new grace period
+    vi.setSystemTime(Date.now() + 60 * 60 * 1000 + 1000);
+    signingKeys.reload();
+    expect(signingKeys.getJwks().keys).toHaveLength(1);
+    await expect(verifyAccessToken(oldToken)).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+
+  it('refuses JWT_PREVIOUS_PUBLIC_KEY without a valid JWT_PREVIOUS_KEY_VERIFY_UNTIL', () => {
+    process.env.JWT_PREVIOUS_PUBLIC_KEY = createPemKeyPair().publicPem;
+
+    for (const value of [undefined, 'next week']) {
+      if (value) process.env.JWT_PREVIOUS_KEY_VERIFY_UNTIL = value;
+      signingKeys.reload();
+      expect(() => signingKeys.getActiveKey()).toThrow('requires JWT_PREVIOUS_KEY_VERIFY_UNTIL');
+    }
+  });
+});
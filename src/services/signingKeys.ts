@@ -0,0 +1,218 @@
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  JsonWebKey,
+  KeyObject,
+} from 'crypto';
+
+/**
+ * Supported asymmetric JWT algorithms
+ */
+export type SigningAlgorithm = 'RS256' | 'ES256';
+
+/**
+ * A key pair used to sign or verify JWTs
+ * Retired keys have no private key and only verify until verifyUntil
+ */
+export interface SigningKey {
+  kid: string;
+  algorithm: SigningAlgorithm;
+  publicKey: KeyObject;
+  privateKey?: KeyObject;
+  createdAt: string;
+  verifyUntil?: string;
+}
+
+// Default time a rotated-out key stays valid for verification (1 day in seconds)
+const DEFAULT_ROTATION_GRACE_SECONDS = 24 * 60 * 60;
+
+/**
+ * Compute the RFC 7638 JWK thumbprint, used as the default key ID
+ */
+function computeThumbprint(publicKey: KeyObject): string {
+  const jwk = publicKey.export({ format: 'jwk' });
+  const members =
+    jwk.kty === 'EC'
+      ? { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y }
+      : { e: jwk.e, kty: jwk.kty, n: jwk.n };
+  return createHash('sha256').update(JSON.stringify(members)).digest('base64url');
+}
+
+/**
+ * Infer the JWT algorithm for a key
+ */
+function detectAlgorithm(key: KeyObject): SigningAlgorithm {
+  if (key.asymmetricKeyType === 'rsa') return 'RS256';
+  if (key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+    return 'ES256';
+  }
+  throw new Error(
+    `Unsupported JWT signing key type: ${key.asymmetricKeyType} (use RSA or EC P-256)`
+  );
+}
+
+/**
+ * Generate a fresh key pair for the given algorithm
+ */
+function generateSigningKey(algorithm: SigningAlgorithm): SigningKey {
+  const { privateKey, publicKey } =
+    algorithm === 'ES256'
+      ? generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+      : generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  return {
+    kid: computeThumbprint(publicKey),
+    algorithm,
+    privateKey,
+    publicKey,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Read a PEM from an environment variable (literal "\n" sequences are allowed)
+ */
+const readPem = (name: string): string | undefined => process.env[name]?.replace(/\\n/g, '\n');
+
+/**
+ * Load keys from the environment
+ * JWT_PRIVATE_KEY (PEM) is the active key; JWT_PREVIOUS_PUBLIC_KEY keeps the previous key
+ * verifiable after a rotation until JWT_PREVIOUS_KEY_VERIFY_UNTIL, a fixed time so that
+ * restarts do not extend it
+ */
+function loadKeys(): SigningKey[] {
+  const keys: SigningKey[] = [];
+  const privatePem = readPem('JWT_PRIVATE_KEY');
+
+  if (privatePem) {
+    const privateKey = createPrivateKey(privatePem);
+    const publicKey = createPublicKey(privateKey);
+    keys.push({
+      kid: process.env.JWT_KEY_ID || computeThumbprint(publicKey),
+      algorithm: detectAlgorithm(privateKey),
+      privateKey,
+      publicKey,
+      createdAt: new Date().toISOString(),
+    });
+  } else {
+    const algorithm = (process.env.JWT_ALGORITHM as SigningAlgorithm) || 'RS256';
+    console.warn(
+      `JWT_PRIVATE_KEY is not set, generated an ephemeral ${algorithm} signing key. ` +
+        'Tokens will not survive a restart or work across instances.'
+    );
+    keys.push(generateSigningKey(algorithm));
+  }
+
+  const previousPem = readPem('JWT_PREVIOUS_PUBLIC_KEY');
+  if (previousPem) {
+    const verifyUntil = Date.parse(process.env.JWT_PREVIOUS_KEY_VERIFY_UNTIL ?? '');
+    if (Number.isNaN(verifyUntil)) {
+      throw new Error(
+        'JWT_PREVIOUS_PUBLIC_KEY requires JWT_PREVIOUS_KEY_VERIFY_UNTIL, the date and time ' +
+          '(ISO 8601) after which tokens signed with the previous key are rejected'
+      );
+    }
+
+    const publicKey = createPublicKey(previousPem);
+    keys.push({
+      kid: process.env.JWT_PREVIOUS_KEY_ID || computeThumbprint(publicKey),
+      algorithm: detectAlgorithm(publicKey),
+      publicKey,
+      createdAt: new Date().toISOString(),
+      verifyUntil: new Date(verifyUntil).toISOString(),
+    });
+  }
+
+  return keys;
+}
+
+/**
+ * How long a key rotated out in this process keeps verifying tokens
+ * (JWT_KEY_ROTATION_GRACE_SECONDS)
+ */
+function getRotationGraceSeconds(): number {
+  return Number(process.env.JWT_KEY_ROTATION_GRACE_SECONDS) || DEFAULT_ROTATION_GRACE_SECONDS;
+}
+
+/**
+ * Signing key ring: one active key plus retired keys still accepted for verification
+ */
+class SigningKeyRing {
+  private keys: SigningKey[] | null = null;
+
+  /**
+   * Keys are loaded lazily so environment variables set by dotenv are seen
+   */
+  private getKeys(): SigningKey[] {
+    if (!this.keys) {
+      this.keys = loadKeys();
+    }
+    const now = new Date();
+    this.keys = this.keys.filter((k) => !k.verifyUntil || new Date(k.verifyUntil) > now);
+    return this.keys;
+  }
+
+  /**
+   * Reload keys from environment (useful for testing)
+   */
+  reload(): void {
+    this.keys = null;
+  }
+
+  /**
+   * Get the key used to sign new tokens
+   */
+  getActiveKey(): SigningKey & { privateKey: KeyObject } {
+    const active = this.getKeys().find((k) => k.privateKey);
+    if (!active?.privateKey) {
+      throw new Error('No active JWT signing key');
+    }
+    return active as SigningKey & { privateKey: KeyObject };
+  }
+
+  /**
+   * Find a key that may verify a token with the given key ID
+   */
+  findVerificationKey(kid: string): SigningKey | undefined {
+    return this.getKeys().find((k) => k.kid === kid);
+  }
+
+  /**
+   * Replace the active key with a new one
+   * The previous key is kept for verification until the grace period ends
+   */
+  rotate(algorithm?: SigningAlgorithm): SigningKey {
+    const keys = this.getKeys();
+    const previous = this.getActiveKey();
+    const next = generateSigningKey(algorithm ?? previous.algorithm);
+    const verifyUntil = new Date(Date.now() + getRotationGraceSeconds() * 1000).toISOString();
+
+    this.keys = [
+      next,
+      ...keys.map((k) => (k === previous ? { ...k, privateKey: undefined, verifyUntil } : k)),
+    ];
+
+    return next;
+  }
+
+  /**
+   * Public keys as a JWK Set, for /.well-known/jwks.json
+   */
+  getJwks(): { keys: JsonWebKey[] } {
+    return {
+      keys: this.getKeys().map((k) => ({
+        ...k.publicKey.export({ format: 'jwk' }),
+        kid: k.kid,
+        alg: k.algorithm,
+        use: 'sig',
+      })),
+    };
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const signingKeys = new SigningKeyRing();
@@ -0,0 +1,58 @@
+/**
+ * Revocation persistence contract for access tokens
+ * Expiry timestamps are epoch seconds, matching JWT exp claims
+ */
+export interface TokenRevocationStore {
+  /** Revoke a single token by its jti until it would have expired anyway */
+  revokeToken(jti: string, expiresAt: number): Promise<void>;
+  /**
+   * Revoke every token for a user issued up to and including the given millisecond, until
+   * all of them have expired; millisecond precision lets a login right after the revocation
+   * (e.g. with a new password) through
+   */
+  revokeUserTokens(userId: string, issuedUntilMs: number, expiresAt: number): Promise<void>;
+  isRevoked(claims: { jti?: string; id: string; iat?: number; iatMs?: number }): Promise<boolean>;
+}
+
+/**
+ * Create an in-memory revocation store
+ * Entries are dropped once no token they could match is still valid
+ */
+export function createInMemoryTokenRevocationStore(): TokenRevocationStore {
+  const revokedTokens = new Map<string, number>();
+  const userCutoffs = new Map<string, { issuedUntilMs: number; expiresAt: number }>();
+
+  const prune = (now: number) => {
+    revokedTokens.forEach((expiresAt, jti) => {
+      if (expiresAt < now) revokedTokens.delete(jti);
+    });
+    userCutoffs.forEach((cutoff, userId) => {
+      if (cutoff.expiresAt < now) userCutoffs.delete(userId);
+    });
+  };
+
+  return {
+    async revokeToken(jti, expiresAt) {
+      prune(Math.floor(Date.now() / 1000));
+      revokedTokens.set(jti, expiresAt);
+    },
+
+    async revokeUserTokens(userId, issuedUntilMs, expiresAt) {
+      prune(Math.floor(Date.now() / 1000));
+      userCutoffs.set(userId, { issuedUntilMs, expiresAt });
+    },
+
+    async isRevoked({ jti, id, iat, iatMs }) {
+      if (jti && revokedTokens.has(jti)) return true;
+
+      // Tokens without iatMs (signed before it was added) count from the start of their second
+      const cutoff = userCutoffs.get(id);
+      return !!cutoff && (iatMs ?? (iat ?? 0) * 1000) <= cutoff.issuedUntilMs;
+    },
+  };
+}
+
+/**
+ * Singleton instance
+ */
+export const tokenRevocationStore = createInMemoryTokenRevocationStore();
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createInMemoryTokenRevocationStore } from './tokenRevocationStore';
+import { revokeAllUserTokens, signAccessToken, verifyAccessToken } from './tokenService';
+import { toContextUser } from './userRepository';
+import {
+  createBearerCaller,
+  createTestCaller,
+  createTestUser,
+  loginAs,
+  TEST_PASSWORD,
+} from '../test/helpers';
+
+describe('tokenRevocationStore', () => {
+  it('revokes tokens issued up to and including the cutoff millisecond', async () => {
+    const store = createInMemoryTokenRevocationStore();
+    const nowMs = Date.now();
+    const now = Math.floor(nowMs / 1000);
+    await store.revokeUserTokens('user-1', nowMs, now + 900);
+
+    expect(await store.isRevoked({ id: 'user-1', iat: now, iatMs: nowMs - 1 })).toBe(true);
+    expect(await store.isRevoked({ id: 'user-1', iat: now, iatMs: nowMs })).toBe(true);
+    expect(await store.isRevoked({ id: 'user-1', iat: now, iatMs: nowMs + 1 })).toBe(false);
+    expect(await store.isRevoked({ id: 'user-2', iat: now, iatMs: nowMs - 1 })).toBe(false);
+
+    // Tokens without iatMs count from the start of their second
+    expect(await store.isRevoked({ id: 'user-1', iat: now })).toBe(true);
+    expect(await store.isRevoked({ id: 'user-1', iat: now + 1 })).toBe(false);
+  });
+
+  it('revokes single tokens by jti', async () => {
+    const store = createInMemoryTokenRevocationStore();
+    await store.revokeToken('jti-1', Math.floor(Date.now() / 1000) + 900);
+
+    expect(await store.isRevoked({ id: 'user-1', jti: 'jti-1' })).toBe(true);
+    expect(await store.isRevoked({ id: 'user-1', jti: 'jti-2' })).toBe(false);
+  });
+});
+
+describe('revokeAllUserTokens', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('rejects a token signed in the same second as the revocation', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00.100Z'));
+    const user = toContextUser(await createTestUser({ name: 'Same Second' }));
+
+    // Not bound to a session, so only the per-user cutoff can revoke it
+    const token = signAccessToken(user);
+    vi.setSystemTime(new Date('2026-01-01T00:00:00.900Z'));
+    await revokeAllUserTokens(user.id);
+
+    await expect(verifyAccessToken(token)).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+      message: 'Token has been revoked',
+    });
+
+    vi.setSystemTime(new Date('2026-01-01T00:00:01.000Z'));
+    await expect(verifyAccessToken(signAccessToken(user))).resolves.toMatchObject({ id: user.id });
+  });
+
+  it('keeps a login right after the revocation, in the same second, signed in', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00.100Z'));
+    const user = await createTestUser({ name: 'Quick Relogin' });
+    const { token } = await loginAs(user.email);
+
+    await (
+      await createBearerCaller(token)
+    ).auth.changePassword({ currentPassword: TEST_PASSWORD, newPassword: 'Changed5678' });
+
+    vi.setSystemTime(new Date('2026-01-01T00:00:00.400Z'));
+    const { data } = await (
+      await createTestCaller()
+    ).auth.login({ email: user.email, password: 'Changed5678' });
+    if (!('token' in data)) throw new Error('expected tokens in the response');
+
+    const me = await (await createBearerCaller(data.token)).auth.getCurrentUser();
+    expect(me.data.id).toBe(user.id);
+    await expect((await createBearerCaller(token)).auth.getCurrentUser()).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+    });
+  });
+});
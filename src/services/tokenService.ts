@@ -0,0 +1,366 @@
+import { TRPCError } from '@trpc/server';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import type { User } from '../context';
+import { refreshTokenStore } from './refreshTokenStore';
+import { tokenRevocationStore } from './tokenRevocationStore';
+import { sessionStore, describeDevice, SessionRecord } from './sessionStore';
+import { signingKeys } from './signingKeys';
+
+// Default lifetimes (15 minutes / 30 days in seconds)
+const DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const DEFAULT_REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// Minimum interval between session last-seen updates
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Issued token pair returned to clients
+ */
+export interface AuthTokens {
+  token: string;
+  expiresIn: number;
+  refreshToken: string;
+  refreshExpiresIn: number;
+}
+
+/**
+ * Verified access token payload
+ */
+export type AccessTokenClaims = {
+  id: string;
+  /** Permission version of the user when the token was issued */
+  pv: number;
+  /** Set on impersonation tokens: the admin acting as this user */
+  act?: { sub: string };
+  jti: string;
+  /** Session the token belongs to */
+  sid?: string;
+  iat: number;
+  /** Issue time in milliseconds, compared against per-user revocation cutoffs */
+  iatMs?: number;
+  exp: number;
+};
+
+/**
+ * Access token lifetime in seconds (ACCESS_TOKEN_TTL_SECONDS)
+ */
+export function getAccessTokenTtl(): number {
+  return Number(process.env.ACCESS_TOKEN_TTL_SECONDS) || DEFAULT_ACCESS_TOKEN_TTL_SECONDS;
+}
+
+/**
+ * Refresh token lifetime in seconds (REFRESH_TOKEN_TTL_SECONDS)
+ */
+export function getRefreshTokenTtl(): number {
+  return Number(process.env.REFRESH_TOKEN_TTL_SECONDS) || DEFAULT_REFRESH_TOKEN_TTL_SECONDS;
+}
+
+/**
+ * Hash an opaque token for storage and lookup
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Request metadata recorded on a new session
+ */
+export interface SessionMetadata {
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * Sign a short-lived access token for a user, bound to a session if given
+ * Signed with the active asymmetric key; the kid header lets verifiers pick the JWKS key
+ * Only the user ID and permission version are embedded, the role is resolved per request;
+ * tokens carrying an outdated version are refused (see assertCurrentPermissionVersion)
+ */
+export function signAccessToken(
+  user: User,
+  sessionId?: string,
+  options: { actorId?: string; expiresIn?: number } = {}
+): string {
+  const key = signingKeys.getActiveKey();
+  const issuedAt = Date.now();
+  const signOptions: SignOptions = {
+    algorithm: key.algorithm,
+    keyid: key.kid,
+    expiresIn: options.expiresIn ?? getAccessTokenTtl(),
+    jwtid: randomUUID(),
+    subject: user.id,
+    ...(process.env.JWT_ISSUER ? { issuer: process.env.JWT_ISSUER } : {}),
+  };
+  return jwt.sign(
+    {
+      id: user.id,
+      pv: user.permissionVersion,
+      iat: Math.floor(issuedAt / 1000),
+      iatMs: issuedAt,
+      ...(sessionId ? { sid: sessionId } : {}),
+      // RFC 8693 actor claim: who is acting on behalf of the subject
+      ...(options.actorId ? { act: { sub: options.actorId } } : {}),
+    },
+    key.privateKey,
+    signOptions
+  );
+}
+
+/**
+ * Refuse an access token issued before the user's role was last reassigned
+ * The role is resolved per request either way; the stale token is rejected so the client
+ * refreshes it and every token in use names the current permission version
+ */
+export function assertCurrentPermissionVersion(
+  claims: Pick<AccessTokenClaims, 'pv'>,
+  user: Pick<User, 'permissionVersion'>
+): void {
+  if (claims.pv !== user.permissionVersion) {
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: 'Token was issued before a permission change, please refresh it',
+    });
+  }
+}
+
+/**
+ * Verify an access token and return its claims
+ * Throws if the token is invalid, expired or revoked
+ */
+export async function verifyAccessToken(token: string): Promise<AccessTokenClaims> {
+  const decoded = jwt.decode(token, { complete: true });
+  const key = decoded?.header.kid ? signingKeys.findVerificationKey(decoded.header.kid) : undefined;
+  if (!key) {
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: 'Unknown token signing key',
+    });
+  }
+
+  const claims = jwt.verify(token, key.publicKey, {
+    algorithms: [key.algorithm],
+    ...(process.env.JWT_ISSUER ? { issuer: process.env.JWT_ISSUER } : {}),
+  }) as AccessTokenClaims;
+
+  if (await tokenRevocationStore.isRevoked(claims)) {
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: 'Token has been revoked',
+    });
+  }
+
+  if (claims.sid) {
+    const session = await sessionStore.findById(claims.sid);
+    if (!session || session.revokedAt) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Session has ended',
+      });
+    }
+  }
+
+  return claims;
+}
+
+/**
+ * Revoke a single access token
+ */
+export async function revokeAccessToken(
+  claims: Pick<AccessTokenClaims, 'jti' | 'exp'>
+): Promise<void> {
+  await tokenRevocationStore.revokeToken(claims.jti, claims.exp);
+}
+
+/**
+ * Issue a new opaque refresh token, starting a new family unless one is given
+ */
+export async function issueRefreshToken(
+  userId: string,
+  familyId: string = randomUUID()
+): Promise<string> {
+  const refreshToken = randomBytes(32).toString('base64url');
+  const now = Date.now();
+
+  await refreshTokenStore.save({
+    tokenHash: hashToken(refreshToken),
+    userId,
+    familyId,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + getRefreshTokenTtl() * 1000).toISOString(),
+  });
+
+  return refreshToken;
+}
+
+/**
+ * Issue an access token and a refresh token for a session
+ * The session ID doubles as the refresh token family ID
+ */
+export async function issueTokens(user: User, sessionId: string): Promise<AuthTokens> {
+  return {
+    token: signAccessToken(user, sessionId),
+    expiresIn: getAccessTokenTtl(),
+    refreshToken: await issueRefreshToken(user.id, sessionId),
+    refreshExpiresIn: getRefreshTokenTtl(),
+  };
+}
+
+/**
+ * Start a new login session and issue its tokens
+ */
+export async function startSession(
+  user: User,
+  metadata: SessionMetadata = {}
+): Promise<AuthTokens & { sessionId: string }> {
+  const now = Date.now();
+  const session: SessionRecord = {
+    id: randomUUID(),
+    userId: user.id,
+    device: describeDevice(metadata.userAgent),
+    ip: metadata.ip,
+    userAgent: metadata.userAgent,
+    createdAt: new Date(now).toISOString(),
+    lastSeenAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + getRefreshTokenTtl() * 1000).toISOString(),
+  };
+
+  await Promise.all([sessionStore.prune(), refreshTokenStore.prune()]);
+  await sessionStore.save(session);
+
+  return { ...(await issueTokens(user, session.id)), sessionId: session.id };
+}
+
+/**
+ * Record activity on a session, at most once per minute
+ */
+export async function touchSession(sessionId: string, ip?: string): Promise<void> {
+  const session = await sessionStore.findById(sessionId);
+  if (!session || Date.now() - new Date(session.lastSeenAt).getTime() < SESSION_TOUCH_INTERVAL_MS) {
+    return;
+  }
+
+  await sessionStore.update(sessionId, {
+    lastSeenAt: new Date().toISOString(),
+    ...(ip ? { ip } : {}),
+  });
+}
+
+/**
+ * List a user's sessions that have not ended or expired
+ */
+export async function listActiveSessions(userId: string): Promise<SessionRecord[]> {
+  const now = new Date();
+  const sessions = await sessionStore.listByUser(userId);
+  return sessions
+    .filter((s) => !s.revokedAt && new Date(s.expiresAt) > now)
+    .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+}
+
+/**
+ * End a session: its refresh tokens and access tokens stop working immediately
+ */
+export async function endSession(sessionId: string): Promise<void> {
+  await sessionStore.update(sessionId, { revokedAt: new Date().toISOString() });
+  await revokeRefreshTokenFamily(sessionId);
+}
+
+/**
+ * Revoke every refresh token in a family
+ */
+export async function revokeRefreshTokenFamily(familyId: string): Promise<void> {
+  const revokedAt = new Date().toISOString();
+  const family = await refreshTokenStore.listByFamily(familyId);
+  await Promise.all(
+    family
+      .filter((r) => !r.revokedAt)
+      .map((r) => refreshTokenStore.update(r.tokenHash, { revokedAt }))
+  );
+}
+
+/**
+ * Revoke the family of a raw refresh token, if it belongs to the given user
+ */
+export async function revokeRefreshToken(refreshToken: string, userId: string): Promise<void> {
+  const record = await refreshTokenStore.findByHash(hashToken(refreshToken));
+  if (record && record.userId === userId) {
+    await revokeRefreshTokenFamily(record.familyId);
+  }
+}
+
+/**
+ * Revoke every refresh token belonging to a user
+ */
+export async function revokeUserRefreshTokens(userId: string): Promise<void> {
+  const revokedAt = new Date().toISOString();
+  const tokens = await refreshTokenStore.listByUser(userId);
+  await Promise.all(
+    tokens
+      .filter((r) => !r.revokedAt)
+      .map((r) => refreshTokenStore.update(r.tokenHash, { revokedAt }))
+  );
+}
+
+/**
+ * Exchange a refresh token for a new one in the same family
+ * Presenting a token that was already rotated is treated as theft: the whole family is revoked
+ */
+export async function rotateRefreshToken(
+  refreshToken: string
+): Promise<{ userId: string; familyId: string; refreshToken: string }> {
+  const record = await refreshTokenStore.findByHash(hashToken(refreshToken));
+
+  if (!record || record.revokedAt) {
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: 'Invalid refresh token',
+    });
+  }
+
+  if (record.rotatedAt) {
+    await endSession(record.familyId);
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: 'Refresh token reuse detected, please log in again',
+    });
+  }
+
+  if (new Date(record.expiresAt) <= new Date()) {
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: 'Refresh token expired',
+    });
+  }
+
+  // Mark as rotated before issuing so a concurrent replay is detected as reuse
+  await refreshTokenStore.update(record.tokenHash, { rotatedAt: new Date().toISOString() });
+  const next = await issueRefreshToken(record.userId, record.familyId);
+  await refreshTokenStore.update(record.tokenHash, { replacedBy: hashToken(next) });
+  await sessionStore.update(record.familyId, {
+    lastSeenAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + getRefreshTokenTtl() * 1000).toISOString(),
+  });
+
+  return { userId: record.userId, familyId: record.familyId, refreshToken: next };
+}
+
+/**
+ * Revoke every access and refresh token a user currently holds
+ * Session-bound tokens die with their session; the issued-until cutoff (in milliseconds)
+ * covers any others, while tokens from a login right afterwards stay valid
+ */
+export async function revokeAllUserTokens(userId: string): Promise<void> {
+  const now = Date.now();
+  await tokenRevocationStore.revokeUserTokens(
+    userId,
+    now,
+    Math.floor(now / 1000) + getAccessTokenTtl()
+  );
+  await revokeUserRefreshTokens(userId);
+
+  const revokedAt = new Date().toISOString();
+  const sessions = await sessionStore.listByUser(userId);
+  await Promise.all(
+    sessions.filter((s) => !s.revokedAt).map((s) => sessionStore.update(s.id, { revokedAt }))
+  );
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import {
+  base32Decode,
+  base32Encode,
+  generateRecoveryCodes,
+  generateTotp,
+  getTotpStep,
+  hashRecoveryCode,
+  verifyTotp,
+} from './totp';
+
+// RFC 6238 appendix B SHA-1 secret ("12345678901234567890"), truncated to 6 digits
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp', () => {
+  it('round-trips base32', () => {
+    const bytes = Buffer.from('any binary \x00\xff secret');
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    expect(base32Decode('gezd gnbv====')).toEqual(base32Decode('GEZDGNBV'));
+    expect(() => base32Decode('not-base32!')).toThrow('Invalid base32 character');
+  });
+
+  it('matches the RFC 6238 test vectors', () => {
+    expect(generateTotp(RFC_SECRET, getTotpStep(59 * 1000))).toBe('287082');
+    expect(generateTotp(RFC_SECRET, getTotpStep(1111111109 * 1000))).toBe('081804');
+    expect(generateTotp(RFC_SECRET, getTotpStep(1234567890 * 1000))).toBe('005924');
+  });
+
+  it('accepts one step of clock drift and rejects older codes', () => {
+    const now = 1_700_000_000_000;
+    const step = getTotpStep(now);
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step), { now })).toBe(step);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), { now })).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), { now })).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), { now })).toBeNull();
+  });
+
+  it('rejects replayed and malformed codes', () => {
+    const now = 1_700_000_000_000;
+    const step = getTotpStep(now);
+    const code = generateTotp(RFC_SECRET, step);
+
+    expect(verifyTotp(RFC_SECRET, code, { now, afterStep: step })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, `${code.slice(0, 3)} ${code.slice(3)}`, { now })).toBe(step);
+    expect(verifyTotp(RFC_SECRET, code.slice(1), { now })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef', { now })).toBeNull();
+  });
+
+  it('hashes recovery codes regardless of case and dashes', () => {
+    const [code] = generateRecoveryCodes(1);
+    expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+    expect(hashRecoveryCode(code.toUpperCase().replace('-', ''))).toBe(hashRecoveryCode(code));
+  });
+});
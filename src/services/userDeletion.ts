@@ -0,0 +1,101 @@
+import { deleteAvatar } from './avatar';
+import { passkeyStore } from './passkeyStore';
+import { revokeAllUserTokens } from './tokenService';
+import { getUserRepository, UserRecord, UserRecordUpdate } from './userRepository';
+
+// Days a deleted user can be restored before the record is anonymized
+const DEFAULT_USER_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days deleted users are kept before being purged (USER_RETENTION_DAYS)
+ */
+export function getUserRetentionDays(): number {
+  return Number(process.env.USER_RETENTION_DAYS) || DEFAULT_USER_RETENTION_DAYS;
+}
+
+/**
+ * When a deleted user becomes eligible for purging
+ */
+export function getPurgeDate(record: UserRecord): Date | null {
+  if (!record.deletedAt) return null;
+  return new Date(new Date(record.deletedAt).getTime() + getUserRetentionDays() * DAY_MS);
+}
+
+/**
+ * IDs of all soft-deleted users, used to hide them from member and participant lists
+ */
+export async function getDeletedUserIds(): Promise<Set<string>> {
+  const records = await getUserRepository().list({ includeDeleted: true });
+  return new Set(records.filter((r) => r.deletedAt).map((r) => r.id));
+}
+
+/**
+ * Soft delete a user and end all of their sessions
+ * The record is kept (and can be restored) until the retention period ends
+ */
+export async function softDeleteUser(id: string, deletedBy: string): Promise<UserRecord | null> {
+  const users = getUserRepository();
+  if (!(await users.findById(id))) return null;
+
+  const record = await users.update(id, { deletedAt: new Date().toISOString(), deletedBy });
+  await revokeAllUserTokens(id);
+  return record;
+}
+
+/**
+ * Undo a soft delete; the user signs in again with their existing credentials
+ */
+export async function restoreUser(id: string): Promise<UserRecord | null> {
+  return getUserRepository().update(id, { deletedAt: undefined, deletedBy: undefined });
+}
+
+/**
+ * Personal data and credentials cleared when a deleted user is purged
+ * The ID and timestamps remain so references elsewhere still resolve
+ */
+function anonymize(record: UserRecord): UserRecordUpdate {
+  return {
+    name: 'Deleted User',
+    email: `deleted-${record.id}@deleted.invalid`,
+    pendingEmail: undefined,
+    emailVerifiedAt: undefined,
+    passwordHash: '',
+    passwordHistory: undefined,
+    phone: undefined,
+    avatar: undefined,
+    avatarVersion: undefined,
+    department: undefined,
+    departmentId: undefined,
+    managerId: undefined,
+    position: undefined,
+    bio: undefined,
+    totp: undefined,
+    recoveryCodeHashes: undefined,
+    ssoIdentities: undefined,
+    preferences: undefined,
+    purgedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Anonymize deleted users whose retention period has ended
+ * Returns the number of records purged
+ */
+export async function purgeDeletedUsers(now: Date = new Date()): Promise<number> {
+  const users = getUserRepository();
+  const expired = (await users.list({ includeDeleted: true })).filter((record) => {
+    const purgeDate = getPurgeDate(record);
+    return !record.purgedAt && purgeDate !== null && purgeDate <= now;
+  });
+
+  for (const record of expired) {
+    await users.update(record.id, anonymize(record));
+    await deleteAvatar(record.id);
+    const passkeys = await passkeyStore.listByUser(record.id);
+    await Promise.all(passkeys.map((passkey) => passkeyStore.delete(passkey.id)));
+  }
+
+  return expired.length;
+}
@@ -0,0 +1,125 @@
+import { z } from 'zod';
+
+// Channels a notification can be delivered through
+export const NOTIFICATION_CHANNELS = ['email', 'inApp', 'push'] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+const notificationTypeSchema = z.enum(['info', 'success', 'warning', 'error']);
+
+/**
+ * Delivery settings for one notification channel
+ */
+export const notificationChannelPreferencesSchema = z.object({
+  enabled: z.boolean(),
+  /** Notification types delivered through the channel */
+  types: z.array(notificationTypeSchema),
+});
+
+/**
+ * Per-user preferences and settings
+ */
+export const userPreferencesSchema = z.object({
+  /** BCP 47 language tag, e.g. en-US or zh-CN */
+  locale: z.string().refine(
+    (value) => {
+      try {
+        return Intl.getCanonicalLocales(value).length === 1;
+      } catch {
+        return false;
+      }
+    },
+    { message: 'Invalid locale' }
+  ),
+  /** IANA time zone, e.g. Asia/Shanghai */
+  timezone: z.string().refine(
+    (value) => {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: value });
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: 'Invalid IANA time zone' }
+  ),
+  theme: z.enum(['light', 'dark', 'system']),
+  dateFormat: z.enum(['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD.MM.YYYY']),
+  /** Days shown by dashboard charts when no range is requested */
+  dashboardRangeDays: z.number().int().min(1).max(90),
+  notifications: z.object({
+    email: notificationChannelPreferencesSchema,
+    inApp: notificationChannelPreferencesSchema,
+    push: notificationChannelPreferencesSchema,
+  }),
+});
+
+export type UserPreferences = z.infer<typeof userPreferencesSchema>;
+
+/**
+ * Partial preferences update; notification channels can be updated individually
+ */
+export const userPreferencesUpdateSchema = userPreferencesSchema.partial().extend({
+  notifications: z
+    .object({
+      email: notificationChannelPreferencesSchema.partial(),
+      inApp: notificationChannelPreferencesSchema.partial(),
+      push: notificationChannelPreferencesSchema.partial(),
+    })
+    .partial()
+    .optional(),
+});
+
+export type UserPreferencesUpdate = z.infer<typeof userPreferencesUpdateSchema>;
+
+const ALL_NOTIFICATION_TYPES = notificationTypeSchema.options;
+
+/**
+ * Preferences of users who have not changed any settings
+ */
+export const DEFAULT_USER_PREFERENCES: UserPreferences = {
+  locale: 'en-US',
+  timezone: 'UTC',
+  theme: 'system',
+  dateFormat: 'YYYY-MM-DD',
+  dashboardRangeDays: 30,
+  notifications: {
+    email: { enabled: true, types: ['warning', 'error'] },
+    inApp: { enabled: true, types: [...ALL_NOTIFICATION_TYPES] },
+    push: { enabled: false, types: [...ALL_NOTIFICATION_TYPES] },
+  },
+};
+
+/**
+ * Apply a partial update on top of stored preferences (defaults fill anything unset)
+ */
+export function mergePreferences(
+  current: UserPreferencesUpdate | undefined,
+  update: UserPreferencesUpdate = {}
+): UserPreferences {
+  const base = { ...DEFAULT_USER_PREFERENCES, ...current };
+  const notifications = Object.fromEntries(
+    NOTIFICATION_CHANNELS.map((channel) => [
+      channel,
+      {
+        ...DEFAULT_USER_PREFERENCES.notifications[channel],
+        ...current?.notifications?.[channel],
+        ...update.notifications?.[channel],
+      },
+    ])
+  ) as UserPreferences['notifications'];
+
+  return { ...base, ...update, notifications };
+}
+
+/**
+ * Whether a notification of the given type should be delivered through a channel
+ */
+export function isNotificationEnabled(
+  preferences: UserPreferences,
+  channel: NotificationChannel,
+  type: z.infer<typeof notificationTypeSchema>
+): boolean {
+  const settings = preferences.notifications[channel];
+  return settings.enabled && settings.types.includes(type);
+}
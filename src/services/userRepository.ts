@@ -0,0 +1,402 @@
+import { TRPCError } from '@trpc/server';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { User } from '../context';
+import { getCachedRole } from './roleCache';
+import { hashPassword } from './passwordHasher';
+import { isPasswordExpired } from './passwordPolicy';
+import { getAvatarUrl } from './avatar';
+import { mergePreferences, UserPreferences } from './userPreferences';
+
+/**
+ * Account status (pending until the email address is verified)
+ */
+export type UserStatus = 'pending' | 'active' | 'inactive' | 'suspended';
+
+/**
+ * Persisted user record (includes credentials, never returned to clients)
+ */
+export interface UserRecord {
+  id: string;
+  name: string;
+  email: string;
+  /** New email address awaiting verification; replaces email once confirmed */
+  pendingEmail?: string;
+  emailVerifiedAt?: string;
+  /** Empty for accounts that only sign in through SSO */
+  passwordHash: string;
+  /** Previous password hashes, most recent first (see PASSWORD_HISTORY_COUNT) */
+  passwordHistory?: string[];
+  /** When the password was last set; createdAt is used if unset */
+  passwordChangedAt?: string;
+  roleId: string;
+  /** Incremented whenever roleId changes; carried in access tokens as "pv" */
+  permissionVersion?: number;
+  status: UserStatus;
+  /** When a suspended or inactive account is automatically set active again */
+  reactivateAt?: string;
+  phone?: string;
+  /** External avatar URL; ignored once an avatar has been uploaded */
+  avatar?: string;
+  /** Version of the uploaded avatar (see users.uploadAvatar), unset if none */
+  avatarVersion?: string;
+  /** Free-text department name; see departmentId for the org tree */
+  department?: string;
+  /** Department in the org tree (departments router) */
+  departmentId?: string;
+  /** Direct manager; managers never form a loop (see users.updateManager) */
+  managerId?: string;
+  position?: string;
+  bio?: string;
+  createdAt: string;
+  updatedAt: string;
+  lastLoginAt?: string;
+  /** TOTP two-factor settings; enabledAt is unset while enrollment is pending */
+  totp?: {
+    secret: string;
+    enabledAt?: string;
+    /** Last accepted time step, to reject replayed codes */
+    lastUsedStep?: number;
+  };
+  /** SHA-256 hashes of unused recovery codes */
+  recoveryCodeHashes?: string[];
+  /** Linked OpenID Connect identities (issuer + subject) */
+  ssoIdentities?: Array<{ issuer: string; subject: string }>;
+  /** Settings chosen by the user; unset fields fall back to the defaults */
+  preferences?: UserPreferences;
+  /** Soft deletion time; deleted users are hidden and cannot sign in */
+  deletedAt?: string;
+  /** ID of the admin who deleted the user */
+  deletedBy?: string;
+  /** When the deleted record was anonymized after the retention period */
+  purgedAt?: string;
+}
+
+/**
+ * Fields required to create a user
+ */
+export type NewUserRecord = Omit<UserRecord, 'id' | 'status' | 'createdAt' | 'updatedAt'> &
+  Partial<Pick<UserRecord, 'status'>>;
+
+/**
+ * Fields that can be updated on an existing user
+ */
+export type UserRecordUpdate = Partial<
+  Omit<UserRecord, 'id' | 'createdAt' | 'updatedAt' | 'permissionVersion'>
+>;
+
+/**
+ * Lookup options; soft-deleted users are skipped unless includeDeleted is set
+ */
+export interface UserLookupOptions {
+  includeDeleted?: boolean;
+}
+
+/**
+ * User persistence contract
+ */
+export interface UserRepository {
+  findById(id: string, options?: UserLookupOptions): Promise<UserRecord | null>;
+  /** Lookup is case-insensitive */
+  findByEmail(email: string, options?: UserLookupOptions): Promise<UserRecord | null>;
+  list(options?: UserLookupOptions): Promise<UserRecord[]>;
+  /** Throws if the email is already taken */
+  create(input: NewUserRecord): Promise<UserRecord>;
+  update(id: string, updates: UserRecordUpdate): Promise<UserRecord | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Error raised when creating or updating a user would duplicate an email
+ */
+function duplicateEmailError(email: string): TRPCError {
+  return new TRPCError({
+    code: 'CONFLICT',
+    message: `A user with email ${email} already exists`,
+  });
+}
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+const isVisible = (record: UserRecord, options?: UserLookupOptions): boolean =>
+  !record.deletedAt || !!options?.includeDeleted;
+
+/**
+ * Build a repository over a Map, optionally loading from and persisting to a backing store
+ */
+function createMapRepository(
+  load: () => Promise<UserRecord[]>,
+  persist: (users: UserRecord[]) => Promise<void>
+): UserRepository {
+  const users = new Map<string, UserRecord>();
+  const ready = load().then((records) => {
+    records.forEach((record) => users.set(record.id, record));
+  });
+
+  // Serialize writes so concurrent mutations never interleave on disk
+  let writeQueue: Promise<void> = Promise.resolve();
+  const save = (): Promise<void> => {
+    const snapshot = Array.from(users.values());
+    writeQueue = writeQueue.then(() => persist(snapshot));
+    return writeQueue;
+  };
+
+  // Deleted users keep their email reserved until purged, so uniqueness checks see every record
+  const findByEmailSync = (email: string): UserRecord | undefined => {
+    const normalized = normalizeEmail(email);
+    return Array.from(users.values()).find((u) => u.email === normalized);
+  };
+
+  return {
+    async findById(id, options) {
+      await ready;
+      const record = users.get(id);
+      return record && isVisible(record, options) ? record : null;
+    },
+
+    async findByEmail(email, options) {
+      await ready;
+      const record = findByEmailSync(email);
+      return record && isVisible(record, options) ? record : null;
+    },
+
+    async list(options) {
+      await ready;
+      return Array.from(users.values()).filter((record) => isVisible(record, options));
+    },
+
+    async create(input) {
+      await ready;
+      const email = normalizeEmail(input.email);
+      if (findByEmailSync(email)) {
+        throw duplicateEmailError(email);
+      }
+
+      const now = new Date().toISOString();
+      const record: UserRecord = {
+        status: 'active',
+        ...input,
+        id: randomUUID(),
+        email,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      users.set(record.id, record);
+      await save();
+      return record;
+    },
+
+    async update(id, updates) {
+      await ready;
+      const existing = users.get(id);
+      if (!existing) return null;
+
+      const email = updates.email ? normalizeEmail(updates.email) : existing.email;
+      const owner = findByEmailSync(email);
+      if (owner && owner.id !== id) {
+        throw duplicateEmailError(email);
+      }
+
+      const roleChanged = updates.roleId !== undefined && updates.roleId !== existing.roleId;
+      const updated: UserRecord = {
+        ...existing,
+        ...updates,
+        email,
+        ...(roleChanged ? { permissionVersion: (existing.permissionVersion ?? 0) + 1 } : {}),
+        updatedAt: new Date().toISOString(),
+      };
+
+      users.set(id, updated);
+      await save();
+      return updated;
+    },
+
+    async delete(id) {
+      await ready;
+      const deleted = users.delete(id);
+      if (deleted) {
+        await save();
+      }
+      return deleted;
+    },
+  };
+}
+
+/**
+ * Create an in-memory user repository (data is lost on restart)
+ */
+export function createInMemoryUserRepository(seed: UserRecord[] = []): UserRepository {
+  return createMapRepository(
+    async () => seed,
+    async () => undefined
+  );
+}
+
+/**
+ * Create a user repository persisted to a JSON file
+ */
+export function createFileUserRepository(filePath: string): UserRepository {
+  const resolved = path.resolve(filePath);
+
+  return createMapRepository(
+    async () => {
+      try {
+        const raw = await fs.readFile(resolved, 'utf8');
+        return (JSON.parse(raw) as { users: UserRecord[] }).users ?? [];
+      } catch (error) {
+        if ((error as { code?: string }).code === 'ENOENT') return [];
+        throw error;
+      }
+    },
+    async (users) => {
+      // Write to a temp file and rename so a crash never leaves a truncated store
+      await fs.mkdir(path.dirname(resolved), { recursive: true });
+      const tmpPath = `${resolved}.${process.pid}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify({ users }, null, 2), { mode: 0o600 });
+      await fs.rename(tmpPath, resolved);
+    }
+  );
+}
+
+let defaultRepository: UserRepository | null = null;
+
+/**
+ * Get the configured user repository
+ * USER_STORE=file persists to USER_STORE_PATH (default: data/users.json), otherwise in-memory
+ */
+export function getUserRepository(): UserRepository {
+  if (!defaultRepository) {
+    defaultRepository =
+      process.env.USER_STORE === 'file'
+        ? createFileUserRepository(process.env.USER_STORE_PATH || 'data/users.json')
+        : createInMemoryUserRepository();
+  }
+  return defaultRepository;
+}
+
+/**
+ * Create the initial admin account from BOOTSTRAP_ADMIN_EMAIL / BOOTSTRAP_ADMIN_PASSWORD
+ * Does nothing if the variables are unset or the account already exists
+ */
+export async function ensureBootstrapAdmin(
+  repository: UserRepository = getUserRepository()
+): Promise<UserRecord | null> {
+  const email = process.env.BOOTSTRAP_ADMIN_EMAIL;
+  const password = process.env.BOOTSTRAP_ADMIN_PASSWORD;
+  if (!email || !password) return null;
+
+  const existing = await repository.findByEmail(email, { includeDeleted: true });
+  if (existing) return existing;
+
+  return repository.create({
+    name: process.env.BOOTSTRAP_ADMIN_NAME || 'Admin User',
+    email,
+    passwordHash: await hashPassword(password),
+    roleId: 'role-admin',
+  });
+}
+
+/**
+ * Resolve a user's role, falling back to a permissionless role if it was deleted
+ */
+function resolveRole(roleId: string): User['role'] {
+  const role = getCachedRole(roleId);
+  if (!role) {
+    return { id: roleId, name: roleId, label: roleId, permissions: [] };
+  }
+  return { id: role.id, name: role.name, label: role.label, permissions: role.permissions };
+}
+
+/**
+ * Convert a stored user to the authenticated user shape carried in context and tokens
+ */
+export function toContextUser(record: UserRecord): User {
+  return {
+    id: record.id,
+    name: record.name,
+    email: record.email,
+    role: resolveRole(record.roleId),
+    emailVerified: record.status !== 'pending',
+    passwordExpired: isPasswordExpired(record),
+    permissionVersion: record.permissionVersion ?? 0,
+    preferences: mergePreferences(record.preferences),
+  };
+}
+
+/**
+ * Why an account may not sign in or use its tokens, or null if it may
+ * Suspended and inactive accounts are refused until they are set active again or their
+ * scheduled reactivation time has passed; pending accounts are restricted separately
+ */
+export function getAccountStatusDenial(record: UserRecord, now: Date = new Date()): string | null {
+  if (record.status !== 'suspended' && record.status !== 'inactive') return null;
+  if (record.reactivateAt && new Date(record.reactivateAt) <= now) return null;
+
+  const reason =
+    record.status === 'suspended'
+      ? 'This account has been suspended'
+      : 'This account has been deactivated';
+  return record.reactivateAt ? `${reason} until ${record.reactivateAt}` : reason;
+}
+
+/**
+ * Load the current state of a user for an authenticated request
+ * Returns null if the user no longer exists, has been deleted, or is suspended or inactive
+ */
+export async function loadContextUser(id: string): Promise<User | null> {
+  const record = await getUserRepository().findById(id);
+  return record && !getAccountStatusDenial(record) ? toContextUser(record) : null;
+}
+
+/**
+ * Convert a stored user to the profile admins see (no credentials)
+ */
+export function toAdminUser(record: UserRecord) {
+  const {
+    passwordHash: _passwordHash,
+    passwordHistory: _passwordHistory,
+    totp,
+    recoveryCodeHashes: _recoveryCodeHashes,
+    preferences: _preferences,
+    avatarVersion,
+    roleId,
+    ...profile
+  } = record;
+  return {
+    ...profile,
+    // Uploaded avatar, else a legacy external URL, else the generated identicon
+    avatar:
+      avatarVersion || !profile.avatar ? getAvatarUrl(record.id, avatarVersion) : profile.avatar,
+    role: resolveRole(roleId),
+    twoFactorEnabled: !!totp?.enabledAt,
+  };
+}
+
+/**
+ * Profile any signed-in user may see: the admin view without account administration
+ * details (pending email change, linked SSO identities, scheduled reactivation, deletion)
+ */
+export function toPublicUser(record: UserRecord) {
+  const {
+    pendingEmail: _pendingEmail,
+    ssoIdentities: _ssoIdentities,
+    reactivateAt: _reactivateAt,
+    deletedAt: _deletedAt,
+    deletedBy: _deletedBy,
+    purgedAt: _purgedAt,
+    ...profile
+  } = toAdminUser(record);
+  return profile;
+}
+
+/**
+ * Profile of a user as the viewer may see it: the admin view for admins and for the user
+ * themselves, the public view for everyone else
+ */
+export function toUserView(record: UserRecord, viewer: Pick<User, 'id' | 'role'>) {
+  return viewer.role.name === 'admin' || viewer.id === record.id
+    ? toAdminUser(record)
+    : toPublicUser(record);
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { reactivateDueUsers, setUserStatus } from './userStatus';
+import { getUserRepository } from './userRepository';
+import {
+  createBearerCaller,
+  createTestCaller,
+  createTestUser,
+  loginAs,
+  TEST_PASSWORD,
+} from '../test/helpers';
+
+const past = () => new Date(Date.now() - 60 * 1000).toISOString();
+const future = () => new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+/**
+ * Sign in and create an API key, returning a fresh caller (new request) for each
+ */
+async function signedIn(email: string) {
+  const { token } = await loginAs(email);
+  const { data } = await (
+    await createBearerCaller(token)
+  ).auth.createApiKey({
+    name: 'status',
+    permissions: ['dashboard:view'],
+  });
+  return {
+    bearer: () => createBearerCaller(token),
+    apiKey: () => createTestCaller({ 'x-api-key': data.key }),
+  };
+}
+
+describe('account status', () => {
+  it('refuses suspended users at login and ends their sessions', async () => {
+    const user = await createTestUser({ name: 'Suspended User' });
+    const { bearer, apiKey } = await signedIn(user.email);
+
+    await setUserStatus(user.id, 'suspended', future());
+
+    await expect((await bearer()).auth.getCurrentUser()).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+    });
+    await expect((await apiKey()).auth.getCurrentUser()).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+    });
+    await expect(
+      (await createTestCaller()).auth.login({ email: user.email, password: TEST_PASSWORD })
+    ).rejects.toMatchObject({
+      code: 'FORBIDDEN',
+      message: expect.stringContaining('This account has been suspended until'),
+    });
+  });
+
+  it('treats tokens and API keys alike while the account is disabled', async () => {
+    const user = await createTestUser({ name: 'Disabled User' });
+    const { bearer, apiKey } = await signedIn(user.email);
+
+    // Set directly, so the session is still there and only the status check can refuse it
+    await getUserRepository().update(user.id, { status: 'inactive' });
+
+    await expect((await bearer()).auth.getCurrentUser()).rejects.toMatchObject({
+      code: 'FORBIDDEN',
+      message: 'This account has been deactivated',
+    });
+    await expect((await apiKey()).auth.getCurrentUser()).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+    });
+  });
+
+  it('accepts tokens and API keys alike once a scheduled reactivation has passed', async () => {
+    const user = await createTestUser({ name: 'Returning User' });
+    const { bearer, apiKey } = await signedIn(user.email);
+
+    await getUserRepository().update(user.id, { status: 'suspended', reactivateAt: past() });
+
+    // Before reactivateDueUsers has run
+    for (const caller of [bearer, apiKey]) {
+      expect((await (await caller()).auth.getCurrentUser()).data.id).toBe(user.id);
+    }
+  });
+
+  it('reactivates due users on login or through reactivateDueUsers', async () => {
+    const onLogin = await createTestUser({ name: 'Login Reactivated', status: 'suspended' });
+    const swept = await createTestUser({ name: 'Sweep Reactivated', status: 'inactive' });
+    const notYet = await createTestUser({ name: 'Still Suspended', status: 'suspended' });
+    await getUserRepository().update(onLogin.id, { reactivateAt: past() });
+    await getUserRepository().update(swept.id, { reactivateAt: past() });
+    await getUserRepository().update(notYet.id, { reactivateAt: future() });
+
+    await loginAs(onLogin.email);
+    expect((await getUserRepository().findById(onLogin.id))?.status).toBe('active');
+
+    await reactivateDueUsers();
+    expect(await getUserRepository().findById(swept.id)).toMatchObject({
+      status: 'active',
+      reactivateAt: undefined,
+    });
+    expect((await getUserRepository().findById(notYet.id))?.status).toBe('suspended');
+  });
+});
@@ -0,0 +1,80 @@
+import { TRPCError } from '@trpc/server';
+import type { User } from '../context';
+import { recordActivity } from './activityLog';
+import { revokeAllUserTokens } from './tokenService';
+import {
+  getAccountStatusDenial,
+  getUserRepository,
+  UserRecord,
+  UserStatus,
+} from './userRepository';
+
+// Statuses that refuse sign-in and can be lifted by a scheduled reactivation
+const isDisabled = (record: UserRecord): boolean =>
+  record.status === 'suspended' || record.status === 'inactive';
+
+/**
+ * Change a user's account status
+ * Suspending or deactivating ends all of the user's sessions immediately; reactivateAt
+ * schedules the account to become active again (ignored when setting it active).
+ * Changes made by an admin (actor) are recorded in the activity log
+ */
+export async function setUserStatus(
+  id: string,
+  status: Exclude<UserStatus, 'pending'>,
+  reactivateAt?: string,
+  actor?: Pick<User, 'id' | 'name'>
+): Promise<UserRecord | null> {
+  const updated = await getUserRepository().update(id, {
+    status,
+    reactivateAt: status === 'active' ? undefined : reactivateAt,
+  });
+
+  if (updated && status !== 'active') {
+    await revokeAllUserTokens(id);
+  }
+  if (updated && actor) {
+    await recordActivity({
+      user: actor.name,
+      userId: actor.id,
+      action: 'Updated User Status',
+      target: `${updated.email} (${status})`,
+    });
+  }
+  return updated;
+}
+
+/**
+ * Make sure an account may sign in, before any tokens are issued
+ * Accounts whose scheduled reactivation has passed are set active on the spot
+ */
+export async function ensureAccountActive(record: UserRecord): Promise<UserRecord> {
+  const denial = getAccountStatusDenial(record);
+  if (denial) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: denial,
+    });
+  }
+
+  if (isDisabled(record)) {
+    const reactivated = await setUserStatus(record.id, 'active');
+    return reactivated ?? record;
+  }
+  return record;
+}
+
+/**
+ * Set active the suspended and inactive users whose scheduled reactivation has passed
+ * Returns the number of users reactivated
+ */
+export async function reactivateDueUsers(now: Date = new Date()): Promise<number> {
+  const due = (await getUserRepository().list()).filter(
+    (record) => isDisabled(record) && !getAccountStatusDenial(record, now)
+  );
+
+  for (const record of due) {
+    await setUserStatus(record.id, 'active');
+  }
+  return due.length;
+}
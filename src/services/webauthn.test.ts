@@ -0,0 +1,203 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  AuthenticationCredential,
+  CEREMONY_TIMEOUT_MS,
+  CeremonyExpectation,
+  consumeCeremonyChallenge,
+  createCeremonyChallenge,
+  MAX_PENDING_CHALLENGES,
+  RegistrationCredential,
+  StoredCredentialKey,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from './webauthn';
+import fixtures from '../test/fixtures/webauthn.json';
+
+/**
+ * Responses recorded from a software authenticator (ES256 and Ed25519 keys)
+ * for rpId "localhost" and origin http://localhost:3000
+ */
+type Recorded<T> = { challenge: string; credential: T };
+
+const expectation = (challenge: string, overrides: Partial<CeremonyExpectation> = {}) => ({
+  challenge,
+  rpId: fixtures.rpId,
+  origins: [fixtures.origin],
+  ...overrides,
+});
+
+function register({ challenge, credential }: Recorded<object>, overrides = {}) {
+  return verifyRegistrationResponse(
+    credential as RegistrationCredential,
+    expectation(challenge, overrides)
+  );
+}
+
+function authenticate(
+  { challenge, credential }: Recorded<object>,
+  stored: StoredCredentialKey,
+  overrides = {}
+) {
+  return verifyAuthenticationResponse(
+    credential as AuthenticationCredential,
+    expectation(challenge, overrides),
+    stored
+  );
+}
+
+describe('verifyRegistrationResponse', () => {
+  it('accepts a "none" attestation and returns the credential key', () => {
+    const verified = register(fixtures.es256.registration);
+
+    expect(verified).toMatchObject({
+      credentialId: fixtures.es256.registration.credential.id,
+      algorithm: -7,
+      signCount: 0,
+      aaguid: '00000000-0000-0000-0000-000000000000',
+      backupEligible: true,
+      backedUp: true,
+      userVerified: true,
+    });
+  });
+
+  it('accepts packed self attestation and EdDSA keys', () => {
+    expect(register(fixtures.packed.registration)).toMatchObject({
+      algorithm: -7,
+      userVerified: false,
+    });
+    expect(register(fixtures.ed25519.registration).algorithm).toBe(-8);
+  });
+
+  it('rejects a packed attestation whose signature does not match', () => {
+    const { challenge, credential } = fixtures.packed.registration;
+    const attestation = Buffer.from(credential.response.attestationObject, 'base64url');
+    // The signature is the field just before authData; flip its last byte
+    attestation[attestation.indexOf(Buffer.from('hauthData')) - 1] ^= 0x01;
+
+    const tampered = {
+      ...credential,
+      response: { ...credential.response, attestationObject: attestation.toString('base64url') },
+    };
+    expect(() => register({ challenge, credential: tampered })).toThrow(
+      'Invalid attestation signature'
+    );
+  });
+
+  it.each([
+    ['another challenge', { challenge: 'c29tZXRoaW5nLWVsc2U' }, 'Challenge does not match'],
+    ['another origin', { origins: ['https://evil.test'] }, 'is not allowed'],
+    ['another relying party', { rpId: 'evil.test' }, 'different relying party'],
+    ['user verification', { requireUserVerification: true }, 'User verification is required'],
+  ])('rejects a response bound to %s', (_label, overrides, message) => {
+    expect(() => register(fixtures.packed.registration, overrides)).toThrow(message);
+  });
+
+  it('rejects an assertion sent to the registration ceremony', () => {
+    const [assertion] = fixtures.es256.assertions;
+    expect(() => register(assertion)).toThrow('Expected a webauthn.create response');
+  });
+});
+
+describe('verifyAuthenticationResponse', () => {
+  const es256 = () => {
+    const { publicKey, algorithm, signCount } = register(fixtures.es256.registration);
+    return { publicKey, algorithm, signCount };
+  };
+
+  it('verifies assertions and returns the new signature counter', () => {
+    const [first, second] = fixtures.es256.assertions;
+    const stored = es256();
+
+    const verified = authenticate(first, stored);
+    expect(verified).toEqual({ signCount: 1, backedUp: true, userVerified: true });
+    expect(authenticate(second, { ...stored, signCount: verified.signCount }).signCount).toBe(2);
+  });
+
+  it('rejects a counter that did not increase, as from a cloned authenticator', () => {
+    const [first, second] = fixtures.es256.assertions;
+    const stored = es256();
+
+    for (const signCount of [1, 2, 5]) {
+      expect(() => authenticate(first, { ...stored, signCount })).toThrow(
+        'Signature counter did not increase'
+      );
+    }
+    expect(() => authenticate(second, { ...stored, signCount: 2 })).toThrow(
+      'Signature counter did not increase'
+    );
+  });
+
+  it('accepts authenticators that always report a zero counter', () => {
+    const { publicKey, algorithm, signCount } = register(fixtures.ed25519.registration);
+    const [assertion] = fixtures.ed25519.assertions;
+
+    expect(authenticate(assertion, { publicKey, algorithm, signCount }).signCount).toBe(0);
+    expect(() => authenticate(assertion, { publicKey, algorithm, signCount: 3 })).toThrow(
+      'Signature counter did not increase'
+    );
+  });
+
+  it('rejects a signature from another credential key', () => {
+    const [assertion] = fixtures.es256.assertions;
+    const packed = register(fixtures.packed.registration);
+
+    expect(() =>
+      authenticate(assertion, { publicKey: packed.publicKey, algorithm: -7, signCount: 0 })
+    ).toThrow('Invalid assertion signature');
+  });
+
+  it('rejects tampered authenticator data', () => {
+    const [assertion] = fixtures.es256.assertions;
+    const authData = Buffer.from(assertion.credential.response.authenticatorData, 'base64url');
+    // Raise the counter without re-signing
+    authData[36] = 0x7f;
+    const tampered = {
+      ...assertion.credential,
+      response: {
+        ...assertion.credential.response,
+        authenticatorData: authData.toString('base64url'),
+      },
+    };
+
+    expect(() =>
+      authenticate({ challenge: assertion.challenge, credential: tampered }, es256())
+    ).toThrow('Invalid assertion signature');
+  });
+});
+
+describe('ceremony challenges', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('can be used once, for the ceremony it was created for', () => {
+    const challenge = createCeremonyChallenge('authentication', 'user-1');
+
+    expect(consumeCeremonyChallenge('registration', challenge)).toBeNull();
+    expect(consumeCeremonyChallenge('authentication', challenge)).toBeNull();
+
+    const fresh = createCeremonyChallenge('authentication', 'user-1');
+    expect(consumeCeremonyChallenge('authentication', fresh)).toEqual({ userId: 'user-1' });
+    expect(consumeCeremonyChallenge('authentication', fresh)).toBeNull();
+  });
+
+  it('expires after the ceremony timeout', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const challenge = createCeremonyChallenge('registration', 'user-1');
+
+    vi.setSystemTime(Date.now() + CEREMONY_TIMEOUT_MS);
+    expect(consumeCeremonyChallenge('registration', challenge)).toBeNull();
+  });
+
+  it('keeps at most MAX_PENDING_CHALLENGES, evicting the oldest', () => {
+    const oldest = createCeremonyChallenge('authentication');
+    const second = createCeremonyChallenge('authentication');
+    for (let i = 2; i < MAX_PENDING_CHALLENGES; i++) createCeremonyChallenge('authentication');
+
+    // The map is full: the next anonymous login pushes out the oldest pending one
+    const newest = createCeremonyChallenge('authentication');
+    expect(consumeCeremonyChallenge('authentication', oldest)).toBeNull();
+    expect(consumeCeremonyChallenge('authentication', second)).toEqual({ userId: undefined });
+    expect(consumeCeremonyChallenge('authentication', newest)).toEqual({ userId: undefined });
+  });
+});
@@ -0,0 +1,557 @@
+import {
+  createHash,
+  createPublicKey,
+  KeyObject,
+  randomBytes,
+  verify,
+  X509Certificate,
+} from 'crypto';
+
+/**
+ * COSE algorithm identifiers accepted for passkeys (ES256, EdDSA, RS256), in order of preference
+ */
+export const SUPPORTED_ALGORITHMS = [-7, -8, -257];
+
+// How long a registration or login ceremony may take (5 minutes in milliseconds)
+export const CEREMONY_TIMEOUT_MS = 5 * 60 * 1000;
+
+// authenticatorData flag bits
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKUP_ELIGIBLE = 0x08;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+/**
+ * Relying party settings (WEBAUTHN_RP_ID, WEBAUTHN_RP_NAME, WEBAUTHN_ORIGINS)
+ * The RP ID and allowed origin default to the host of APP_URL
+ */
+export interface WebAuthnConfig {
+  rpId: string;
+  rpName: string;
+  origins: string[];
+  /** Reject assertions without user verification (WEBAUTHN_REQUIRE_USER_VERIFICATION) */
+  requireUserVerification: boolean;
+}
+
+/**
+ * Read the relying party settings from the environment
+ */
+export function getWebAuthnConfig(): WebAuthnConfig {
+  const appUrl = new URL(process.env.APP_URL || 'http://localhost:3000');
+  return {
+    rpId: process.env.WEBAUTHN_RP_ID || appUrl.hostname,
+    rpName: process.env.WEBAUTHN_RP_NAME || 'HaloLight',
+    origins: (process.env.WEBAUTHN_ORIGINS || appUrl.origin)
+      .split(',')
+      .map((origin) => origin.trim())
+      .filter(Boolean),
+    requireUserVerification: process.env.WEBAUTHN_REQUIRE_USER_VERIFICATION === 'true',
+  };
+}
+
+/**
+ * Registration response as serialized by the browser (PublicKeyCredential.toJSON())
+ * Binary fields are base64url encoded
+ */
+export interface RegistrationCredential {
+  id: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+/**
+ * Authentication response as serialized by the browser (PublicKeyCredential.toJSON())
+ */
+export interface AuthenticationCredential {
+  id: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string;
+  };
+}
+
+/**
+ * What the relying party expects a ceremony response to be bound to
+ */
+export interface CeremonyExpectation {
+  challenge: string;
+  rpId: string;
+  origins: string[];
+  requireUserVerification?: boolean;
+}
+
+/**
+ * A credential public key as stored after registration
+ */
+export interface StoredCredentialKey {
+  /** SPKI DER public key, base64url encoded */
+  publicKey: string;
+  /** COSE algorithm identifier */
+  algorithm: number;
+  signCount: number;
+}
+
+/**
+ * Result of a verified registration
+ */
+export interface VerifiedRegistration extends StoredCredentialKey {
+  credentialId: string;
+  aaguid: string;
+  backupEligible: boolean;
+  backedUp: boolean;
+  userVerified: boolean;
+}
+
+/**
+ * Result of a verified authentication
+ */
+export interface VerifiedAuthentication {
+  signCount: number;
+  backedUp: boolean;
+  userVerified: boolean;
+}
+
+type CborValue =
+  | number
+  | string
+  | boolean
+  | null
+  | undefined
+  | Buffer
+  | CborValue[]
+  | Map<CborValue, CborValue>;
+
+/**
+ * Decode one CBOR data item starting at offset
+ * Only the definite-length subset used by WebAuthn authenticators is supported
+ */
+function decodeCborItem(data: Buffer, offset: number): { value: CborValue; offset: number } {
+  if (offset >= data.length) throw new Error('Unexpected end of CBOR data');
+
+  const initial = data[offset++];
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+
+  if (major === 7) {
+    if (info === 20) return { value: false, offset };
+    if (info === 21) return { value: true, offset };
+    if (info === 22) return { value: null, offset };
+    if (info === 23) return { value: undefined, offset };
+    throw new Error('Unsupported CBOR simple value');
+  }
+
+  let length: number;
+  if (info < 24) {
+    length = info;
+  } else if (info === 24) {
+    length = data.readUInt8(offset);
+    offset += 1;
+  } else if (info === 25) {
+    length = data.readUInt16BE(offset);
+    offset += 2;
+  } else if (info === 26) {
+    length = data.readUInt32BE(offset);
+    offset += 4;
+  } else if (info === 27) {
+    length = Number(data.readBigUInt64BE(offset));
+    offset += 8;
+  } else {
+    throw new Error('Indefinite-length CBOR items are not supported');
+  }
+
+  switch (major) {
+    case 0:
+      return { value: length, offset };
+    case 1:
+      return { value: -1 - length, offset };
+    case 2:
+    case 3: {
+      const end = offset + length;
+      if (end > data.length) throw new Error('Unexpected end of CBOR data');
+      const bytes = data.subarray(offset, end);
+      return { value: major === 2 ? Buffer.from(bytes) : bytes.toString('utf8'), offset: end };
+    }
+    case 4: {
+      const items: CborValue[] = [];
+      for (let i = 0; i < length; i++) {
+        const item = decodeCborItem(data, offset);
+        items.push(item.value);
+        offset = item.offset;
+      }
+      return { value: items, offset };
+    }
+    case 5: {
+      const map = new Map<CborValue, CborValue>();
+      for (let i = 0; i < length; i++) {
+        const key = decodeCborItem(data, offset);
+        const value = decodeCborItem(data, key.offset);
+        map.set(key.value, value.value);
+        offset = value.offset;
+      }
+      return { value: map, offset };
+    }
+    default:
+      // Tags (major type 6) carry no meaning for WebAuthn structures
+      return decodeCborItem(data, offset);
+  }
+}
+
+/**
+ * Decode a buffer holding exactly one CBOR data item
+ */
+function decodeCbor(data: Buffer): CborValue {
+  const { value, offset } = decodeCborItem(data, 0);
+  if (offset !== data.length) throw new Error('Trailing bytes after CBOR data');
+  return value;
+}
+
+function asMap(value: CborValue, what: string): Map<CborValue, CborValue> {
+  if (!(value instanceof Map)) throw new Error(`Invalid ${what}`);
+  return value;
+}
+
+function asBuffer(value: CborValue, what: string): Buffer {
+  if (!Buffer.isBuffer(value)) throw new Error(`Invalid ${what}`);
+  return value;
+}
+
+const fromBase64Url = (value: string): Buffer => Buffer.from(value, 'base64url');
+
+const sha256 = (data: Buffer | string): Buffer => createHash('sha256').update(data).digest();
+
+/**
+ * Parsed authenticatorData
+ */
+interface AuthenticatorData {
+  rpIdHash: Buffer;
+  flags: number;
+  signCount: number;
+  attestedCredential?: {
+    aaguid: string;
+    credentialId: Buffer;
+    publicKey: Map<CborValue, CborValue>;
+  };
+}
+
+/**
+ * Parse authenticatorData: rpIdHash (32) | flags (1) | signCount (4) | [attested credential data]
+ */
+function parseAuthenticatorData(data: Buffer): AuthenticatorData {
+  if (data.length < 37) throw new Error('Authenticator data is too short');
+
+  const flags = data[32];
+  const parsed: AuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    flags,
+    signCount: data.readUInt32BE(33),
+  };
+
+  if (flags & FLAG_ATTESTED_CREDENTIAL) {
+    // aaguid (16) | credentialIdLength (2) | credentialId | COSE public key
+    if (data.length < 55) throw new Error('Attested credential data is too short');
+    const aaguid = data.subarray(37, 53).toString('hex');
+    const idLength = data.readUInt16BE(53);
+    const credentialId = data.subarray(55, 55 + idLength);
+    if (credentialId.length !== idLength) throw new Error('Credential ID is truncated');
+
+    // Extension data may follow the key, so decode only the first item
+    const publicKey = asMap(decodeCborItem(data, 55 + idLength).value, 'credential public key');
+    parsed.attestedCredential = {
+      aaguid: [
+        aaguid.slice(0, 8),
+        aaguid.slice(8, 12),
+        aaguid.slice(12, 16),
+        aaguid.slice(16, 20),
+        aaguid.slice(20),
+      ].join('-'),
+      credentialId: Buffer.from(credentialId),
+      publicKey,
+    };
+  }
+
+  return parsed;
+}
+
+/**
+ * Convert a COSE_Key to a Node public key
+ * Supports EC2 P-256 (ES256), OKP Ed25519 (EdDSA) and RSA (RS256)
+ */
+function coseToPublicKey(cose: Map<CborValue, CborValue>): { key: KeyObject; algorithm: number } {
+  const kty = cose.get(1);
+  const algorithm = cose.get(3);
+  if (typeof algorithm !== 'number' || !SUPPORTED_ALGORITHMS.includes(algorithm)) {
+    throw new Error(`Unsupported credential algorithm ${String(algorithm)}`);
+  }
+
+  const b64 = (label: number, what: string) =>
+    asBuffer(cose.get(label), what).toString('base64url');
+
+  if (kty === 2 && algorithm === -7 && cose.get(-1) === 1) {
+    const jwk = { kty: 'EC', crv: 'P-256', x: b64(-2, 'EC x'), y: b64(-3, 'EC y') };
+    return { key: createPublicKey({ key: jwk, format: 'jwk' }), algorithm };
+  }
+  if (kty === 1 && algorithm === -8 && cose.get(-1) === 6) {
+    const jwk = { kty: 'OKP', crv: 'Ed25519', x: b64(-2, 'OKP x') };
+    return { key: createPublicKey({ key: jwk, format: 'jwk' }), algorithm };
+  }
+  if (kty === 3 && algorithm === -257) {
+    const jwk = { kty: 'RSA', n: b64(-1, 'RSA modulus'), e: b64(-2, 'RSA exponent') };
+    return { key: createPublicKey({ key: jwk, format: 'jwk' }), algorithm };
+  }
+
+  throw new Error('Unsupported credential public key');
+}
+
+/**
+ * Verify a signature made with a COSE algorithm
+ */
+function verifySignature(
+  algorithm: number,
+  key: KeyObject,
+  data: Buffer,
+  signature: Buffer
+): boolean {
+  switch (algorithm) {
+    case -7:
+      return verify('sha256', data, { key, dsaEncoding: 'der' }, signature);
+    case -8:
+      return verify(null, data, key, signature);
+    case -257:
+      return verify('sha256', data, key, signature);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Read the challenge a response was made for, to look up the pending ceremony
+ * Returns null if clientDataJSON cannot be parsed
+ */
+export function readClientDataChallenge(clientDataJSON: string): string | null {
+  try {
+    const { challenge } = JSON.parse(fromBase64Url(clientDataJSON).toString('utf8'));
+    return typeof challenge === 'string' ? challenge : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check clientDataJSON against the expected ceremony type, challenge and origin
+ * Returns the raw bytes, which the authenticator signed through their hash
+ */
+function verifyClientData(
+  clientDataJSON: string,
+  type: 'webauthn.create' | 'webauthn.get',
+  expected: CeremonyExpectation
+): Buffer {
+  const raw = fromBase64Url(clientDataJSON);
+  let clientData: { type?: unknown; challenge?: unknown; origin?: unknown; crossOrigin?: unknown };
+  try {
+    clientData = JSON.parse(raw.toString('utf8'));
+  } catch {
+    throw new Error('Invalid client data');
+  }
+
+  if (clientData.type !== type) throw new Error(`Expected a ${type} response`);
+  if (clientData.challenge !== expected.challenge) throw new Error('Challenge does not match');
+  if (typeof clientData.origin !== 'string' || !expected.origins.includes(clientData.origin)) {
+    throw new Error(`Origin ${String(clientData.origin)} is not allowed`);
+  }
+  if (clientData.crossOrigin === true) throw new Error('Cross-origin requests are not allowed');
+
+  return raw;
+}
+
+/**
+ * Check the rpIdHash and user presence/verification flags of authenticatorData
+ */
+function verifyAuthenticatorFlags(authData: AuthenticatorData, expected: CeremonyExpectation) {
+  if (!authData.rpIdHash.equals(sha256(expected.rpId))) {
+    throw new Error('Response was created for a different relying party');
+  }
+  if (!(authData.flags & FLAG_USER_PRESENT)) {
+    throw new Error('User presence was not confirmed');
+  }
+  if (expected.requireUserVerification && !(authData.flags & FLAG_USER_VERIFIED)) {
+    throw new Error('User verification is required');
+  }
+}
+
+/**
+ * Verify the attestation statement ("none", or "packed" self/x5c attestation)
+ * Attestation certificates are not chained to a trust anchor; options request "none"
+ */
+function verifyAttestationStatement(
+  format: CborValue,
+  statement: Map<CborValue, CborValue>,
+  signedData: Buffer,
+  credential: { key: KeyObject; algorithm: number }
+): void {
+  if (format === 'none') return;
+  if (format !== 'packed') {
+    throw new Error(`Unsupported attestation format ${String(format)}`);
+  }
+
+  const algorithm = statement.get('alg');
+  const signature = asBuffer(statement.get('sig'), 'attestation signature');
+  const x5c = statement.get('x5c');
+
+  if (typeof algorithm !== 'number') throw new Error('Invalid attestation algorithm');
+
+  let key = credential.key;
+  if (Array.isArray(x5c) && x5c.length > 0) {
+    key = new X509Certificate(asBuffer(x5c[0], 'attestation certificate')).publicKey;
+  } else if (algorithm !== credential.algorithm) {
+    throw new Error('Self attestation algorithm does not match the credential');
+  }
+
+  if (!verifySignature(algorithm, key, signedData, signature)) {
+    throw new Error('Invalid attestation signature');
+  }
+}
+
+/**
+ * Verify a registration (attestation) response
+ * Pure function of its inputs, so it can be checked against recorded authenticator responses
+ */
+export function verifyRegistrationResponse(
+  credential: RegistrationCredential,
+  expected: CeremonyExpectation
+): VerifiedRegistration {
+  const clientData = verifyClientData(
+    credential.response.clientDataJSON,
+    'webauthn.create',
+    expected
+  );
+
+  const attestation = asMap(
+    decodeCbor(fromBase64Url(credential.response.attestationObject)),
+    'attestation object'
+  );
+  const rawAuthData = asBuffer(attestation.get('authData'), 'authenticator data');
+  const authData = parseAuthenticatorData(rawAuthData);
+  verifyAuthenticatorFlags(authData, expected);
+
+  const attested = authData.attestedCredential;
+  if (!attested) throw new Error('Response does not contain a credential');
+  if (attested.credentialId.toString('base64url') !== credential.id) {
+    throw new Error('Credential ID does not match the response');
+  }
+
+  const publicKey = coseToPublicKey(attested.publicKey);
+  verifyAttestationStatement(
+    attestation.get('fmt'),
+    asMap(attestation.get('attStmt'), 'attestation statement'),
+    Buffer.concat([rawAuthData, sha256(clientData)]),
+    publicKey
+  );
+
+  return {
+    credentialId: credential.id,
+    publicKey: publicKey.key.export({ type: 'spki', format: 'der' }).toString('base64url'),
+    algorithm: publicKey.algorithm,
+    signCount: authData.signCount,
+    aaguid: attested.aaguid,
+    backupEligible: !!(authData.flags & FLAG_BACKUP_ELIGIBLE),
+    backedUp: !!(authData.flags & FLAG_BACKED_UP),
+    userVerified: !!(authData.flags & FLAG_USER_VERIFIED),
+  };
+}
+
+/**
+ * Verify an authentication (assertion) response against a stored credential
+ * A signature counter that does not increase indicates a cloned authenticator and is rejected
+ */
+export function verifyAuthenticationResponse(
+  credential: AuthenticationCredential,
+  expected: CeremonyExpectation,
+  stored: StoredCredentialKey
+): VerifiedAuthentication {
+  const clientData = verifyClientData(credential.response.clientDataJSON, 'webauthn.get', expected);
+
+  const rawAuthData = fromBase64Url(credential.response.authenticatorData);
+  const authData = parseAuthenticatorData(rawAuthData);
+  verifyAuthenticatorFlags(authData, expected);
+
+  const key = createPublicKey({
+    key: fromBase64Url(stored.publicKey),
+    format: 'der',
+    type: 'spki',
+  });
+  const signedData = Buffer.concat([rawAuthData, sha256(clientData)]);
+  if (
+    !verifySignature(
+      stored.algorithm,
+      key,
+      signedData,
+      fromBase64Url(credential.response.signature)
+    )
+  ) {
+    throw new Error('Invalid assertion signature');
+  }
+
+  // Authenticators without a counter always report 0
+  if ((authData.signCount > 0 || stored.signCount > 0) && authData.signCount <= stored.signCount) {
+    throw new Error('Signature counter did not increase, the authenticator may be cloned');
+  }
+
+  return {
+    signCount: authData.signCount,
+    backedUp: !!(authData.flags & FLAG_BACKED_UP),
+    userVerified: !!(authData.flags & FLAG_USER_VERIFIED),
+  };
+}
+
+// Upper bound on pending ceremonies; beginLogin is public, so anyone can add entries
+export const MAX_PENDING_CHALLENGES = 10_000;
+
+/**
+ * Pending ceremony challenges (challenge -> ceremony, user and expiry)
+ * Every entry gets the same timeout, so insertion order is also expiry order
+ */
+const challenges = new Map<
+  string,
+  { ceremony: 'registration' | 'authentication'; userId?: string; expiresAt: number }
+>();
+
+/**
+ * Create a random challenge for a registration or login ceremony
+ * Registration challenges are bound to the user; login challenges are bound to one when known
+ * Expired challenges are dropped first; when the map is still full the oldest pending one is evicted
+ */
+export function createCeremonyChallenge(
+  ceremony: 'registration' | 'authentication',
+  userId?: string
+): string {
+  const now = Date.now();
+  for (const [challenge, entry] of challenges) {
+    if (entry.expiresAt > now && challenges.size < MAX_PENDING_CHALLENGES) break;
+    challenges.delete(challenge);
+  }
+
+  const challenge = randomBytes(32).toString('base64url');
+  challenges.set(challenge, { ceremony, userId, expiresAt: now + CEREMONY_TIMEOUT_MS });
+  return challenge;
+}
+
+/**
+ * Use up a pending challenge; returns null if unknown, expired or for another ceremony
+ */
+export function consumeCeremonyChallenge(
+  ceremony: 'registration' | 'authentication',
+  challenge: string
+): { userId?: string } | null {
+  const entry = challenges.get(challenge);
+  challenges.delete(challenge);
+  if (!entry || entry.ceremony !== ceremony || entry.expiresAt <= Date.now()) return null;
+  return { userId: entry.userId };
+}
@@ -0,0 +1,72 @@
+import type { Request, Response } from 'express';
+import { appRouter } from '../routers';
+import { createContext } from '../context';
+import { buildPasswordUpdate, getUserRepository, NewUserRecord, UserRecord } from '../services';
+
+export const TEST_PASSWORD = 'Start1234';
+
+/**
+ * Response double that records the cookies a procedure sets
+ */
+export function createTestResponse() {
+  const cookies = new Map<string, string>();
+  return {
+    cookies,
+    cookie(name: string, value: string) {
+      cookies.set(name, value);
+      return this;
+    },
+    clearCookie(name: string) {
+      cookies.delete(name);
+      return this;
+    },
+  };
+}
+
+export type TestResponse = ReturnType<typeof createTestResponse>;
+
+/**
+ * Build a tRPC caller for a request with the given headers, going through createContext
+ */
+export async function createTestCaller(
+  headers: Record<string, string> = {},
+  res: TestResponse = createTestResponse()
+) {
+  const req = { headers, ip: '127.0.0.1' } as unknown as Request;
+  return appRouter.createCaller(await createContext({ req, res: res as unknown as Response }));
+}
+
+/**
+ * Caller authenticated with a bearer access token
+ */
+export function createBearerCaller(token: string) {
+  return createTestCaller({ authorization: `Bearer ${token}` });
+}
+
+/**
+ * Create an active user with TEST_PASSWORD
+ */
+export async function createTestUser(
+  overrides: Partial<NewUserRecord> & { email?: string } = {}
+): Promise<UserRecord> {
+  const name = overrides.name ?? 'Test User';
+  return getUserRepository().create({
+    name,
+    email: overrides.email ?? `${name.toLowerCase().replace(/\W+/g, '.')}@example.com`,
+    roleId: 'role-viewer',
+    ...(await buildPasswordUpdate(TEST_PASSWORD)),
+    ...overrides,
+  });
+}
+
+/**
+ * Log in with TEST_PASSWORD and return the issued tokens
+ */
+export async function loginAs(email: string): Promise<{ token: string; refreshToken: string }> {
+  const caller = await createTestCaller();
+  const { data } = await caller.auth.login({ email, password: TEST_PASSWORD });
+  if (data.mfaRequired || !('token' in data)) {
+    throw new Error(`${email} did not get tokens (two-factor enabled or cookie session)`);
+  }
+  return { token: data.token, refreshToken: data.refreshToken };
+}
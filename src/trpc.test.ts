@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { ACCESS_TOKEN_COOKIE, CSRF_COOKIE, REFRESH_TOKEN_COOKIE } from './services';
+import {
+  createTestCaller,
+  createTestResponse,
+  createTestUser,
+  loginAs,
+  TEST_PASSWORD,
+} from './test/helpers';
+
+/**
+ * Log in in cookie session mode and return the cookies the browser would hold
+ */
+async function loginWithCookies(email: string) {
+  const res = createTestResponse();
+  const caller = await createTestCaller({}, res);
+  await caller.auth.login({ email, password: TEST_PASSWORD, sessionMode: 'cookie' });
+
+  const cookie = [ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE, CSRF_COOKIE]
+    .map((name) => `${name}=${res.cookies.get(name)}`)
+    .join('; ');
+  return { cookie, csrfToken: res.cookies.get(CSRF_COOKIE)! };
+}
+
+describe('CSRF protection', () => {
+  it('sets the session and CSRF cookies instead of returning tokens', async () => {
+    const user = await createTestUser({ name: 'Cookie Login' });
+    const res = createTestResponse();
+    const { data } = await (
+      await createTestCaller({}, res)
+    ).auth.login({ email: user.email, password: TEST_PASSWORD, sessionMode: 'cookie' });
+
+    expect(data).not.toHaveProperty('token');
+    expect(data).not.toHaveProperty('refreshToken');
+    expect([...res.cookies.keys()].sort()).toEqual(
+      [ACCESS_TOKEN_COOKIE, CSRF_COOKIE, REFRESH_TOKEN_COOKIE].sort()
+    );
+  });
+
+  it('lets cookie sessions run queries without the header', async () => {
+    const user = await createTestUser({ name: 'Cookie Reader' });
+    const { cookie } = await loginWithCookies(user.email);
+
+    const me = await (await createTestCaller({ cookie })).auth.getCurrentUser();
+    expect(me.data.id).toBe(user.id);
+  });
+
+  it('rejects cookie-authenticated mutations without a matching X-CSRF-Token', async () => {
+    const user = await createTestUser({ name: 'Cookie Writer' });
+    const { cookie, csrfToken } = await loginWithCookies(user.email);
+
+    const forged: Record<string, string>[] = [
+      { cookie },
+      { cookie, 'x-csrf-token': `${csrfToken}x` },
+    ];
+    for (const headers of forged) {
+      await expect((await createTestCaller(headers)).auth.logout()).rejects.toMatchObject({
+        code: 'FORBIDDEN',
+        message: 'Invalid or missing CSRF token',
+      });
+    }
+
+    const result = await (
+      await createTestCaller({ cookie, 'x-csrf-token': csrfToken })
+    ).auth.logout();
+    expect(result.code).toBe(200);
+  });
+
+  it('protects public mutations that read the refresh cookie', async () => {
+    const user = await createTestUser({ name: 'Cookie Refresher' });
+    const { cookie } = await loginWithCookies(user.email);
+
+    await expect((await createTestCaller({ cookie })).auth.refreshToken()).rejects.toMatchObject({
+      code: 'FORBIDDEN',
+    });
+  });
+
+  it('does not apply to bearer-authenticated requests', async () => {
+    const user = await createTestUser({ name: 'Bearer Writer' });
+    const { token } = await loginAs(user.email);
+    const { cookie } = await loginWithCookies(user.email);
+
+    const result = await (
+      await createTestCaller({ cookie, authorization: `Bearer ${token}` })
+    ).auth.logout();
+    expect(result.code).toBe(200);
+  });
+});
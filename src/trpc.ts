@@ -1,32 +1,147 @@
 import { initTRPC, TRPCError } from '@trpc/server';
 import superjson from 'superjson';
+import { ZodError } from 'zod';
 import { TRPCContext } from './context';
+import {
+  hasSessionCookies,
+  verifyCsrfToken,
+  recordActivity,
+  PasswordPolicyError,
+} from './services';
+
+// Procedures available to signed-in users whose email is not verified yet
+const UNVERIFIED_ALLOWED_PATHS = ['auth.getCurrentUser', 'auth.logout'];
+
+// Procedures available to signed-in users whose password has expired
+const PASSWORD_EXPIRED_ALLOWED_PATHS = [
+  'auth.getCurrentUser',
+  'auth.logout',
+  'auth.changePassword',
+];
+
+// Procedures an admin cannot use while impersonating (credentials, keys, sessions, deletion)
+const IMPERSONATION_BLOCKED_PATHS = [
+  'auth.changePassword',
+  'auth.impersonate',
+  'auth.createApiKey',
+  'auth.revokeApiKey',
+  'auth.revokeSession',
+  'auth.enrollTotp',
+  'auth.verifyTotp',
+  'auth.regenerateRecoveryCodes',
+  'auth.disableTotp',
+  'auth.passkey.beginRegistration',
+  'auth.passkey.finishRegistration',
+  'auth.passkey.remove',
+  'users.delete',
+];
 
 /**
  * Initialize tRPC with context and superjson transformer
+ * Input validation and password policy errors expose per-field reasons as data.fieldErrors
  */
 const t = initTRPC.context<TRPCContext>().create({
   transformer: superjson,
-  errorFormatter({ shape }) {
-    return shape;
+  errorFormatter({ shape, error }) {
+    const fieldErrors =
+      error.cause instanceof ZodError
+        ? error.cause.flatten().fieldErrors
+        : error.cause instanceof PasswordPolicyError
+          ? error.cause.fieldErrors
+          : undefined;
+
+    return fieldErrors ? { ...shape, data: { ...shape.data, fieldErrors } } : shape;
   },
 });
 
+/**
+ * Double-submit CSRF check for mutations that would be authorized by session cookies
+ * Requests with an Authorization or X-Api-Key header cannot be forged cross-site, so they are exempt
+ */
+const csrfProtection = t.middleware(async ({ ctx, type, next }) => {
+  const { headers } = ctx.req;
+  if (
+    type === 'mutation' &&
+    !headers.authorization &&
+    !headers['x-api-key'] &&
+    hasSessionCookies(ctx.req) &&
+    !verifyCsrfToken(ctx.req)
+  ) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'Invalid or missing CSRF token',
+    });
+  }
+  return next();
+});
+
 /**
  * Public procedures - no authentication required
  */
-export const publicProcedure = t.procedure;
+export const publicProcedure = t.procedure.use(csrfProtection);
 
 /**
  * Protected procedures - requires authentication
+ * Suspended and inactive users are refused with the reason
+ * Users with an unverified email can only reach UNVERIFIED_ALLOWED_PATHS
+ * Users with an expired password can only reach PASSWORD_EXPIRED_ALLOWED_PATHS
+ * While impersonating, IMPERSONATION_BLOCKED_PATHS are refused and mutations are audited
  */
-export const protectedProcedure = t.procedure.use(async ({ ctx, next }) => {
+export const protectedProcedure = publicProcedure.use(async ({ ctx, path, type, next }) => {
+  if (!ctx.user && ctx.accountDenial) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: ctx.accountDenial,
+    });
+  }
+
   if (!ctx.user) {
     throw new TRPCError({
       code: 'UNAUTHORIZED',
       message: 'Authentication required',
     });
   }
+
+  if (ctx.user.emailVerified === false && !UNVERIFIED_ALLOWED_PATHS.includes(path)) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'Please verify your email address to continue',
+    });
+  }
+
+  // API keys and impersonating admins are not asked to change the user's password
+  if (
+    ctx.user.passwordExpired &&
+    !ctx.apiKeyId &&
+    !ctx.actor &&
+    !PASSWORD_EXPIRED_ALLOWED_PATHS.includes(path)
+  ) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'Your password has expired, please change it to continue',
+    });
+  }
+
+  if (ctx.actor) {
+    if (IMPERSONATION_BLOCKED_PATHS.includes(path)) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'This action is not allowed while impersonating',
+      });
+    }
+
+    if (type === 'mutation') {
+      const result = await next({ ctx: { ...ctx, user: ctx.user } });
+      await recordActivity({
+        user: ctx.actor.name,
+        userId: ctx.actor.id,
+        action: 'Impersonated Action',
+        target: `${path} as ${ctx.user.email}${result.ok ? '' : ' (failed)'}`,
+      });
+      return result;
+    }
+  }
+
   return next({
     ctx: {
       ...ctx,